@@ -0,0 +1,144 @@
+/**
+ * Tests for AsyncLocalStorage-based request context propagation
+ * Verifies context survives awaits, timers and event emitters, and stays isolated per request
+ */
+
+import { EventEmitter } from 'events';
+import { LogEngine, createLogger, LogMode } from '../index';
+
+describe('Async request context', () => {
+  const mockOutputHandler = jest.fn();
+
+  beforeEach(() => {
+    mockOutputHandler.mockClear();
+    LogEngine.configure({
+      mode: LogMode.DEBUG,
+      outputHandler: mockOutputHandler,
+      suppressConsoleOutput: true
+    });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      outputHandler: undefined,
+      suppressConsoleOutput: false
+    });
+  });
+
+  it('should merge context into log data', () => {
+    LogEngine.runWithContext({ requestId: 'req-1' }, () => {
+      LogEngine.info('Handling request', { path: '/orders' });
+    });
+
+    expect(mockOutputHandler).toHaveBeenCalledWith('info', expect.any(String), {
+      requestId: 'req-1',
+      path: '/orders'
+    });
+  });
+
+  it('should return the result of the wrapped function', async () => {
+    const syncResult = LogEngine.runWithContext({ requestId: 'a' }, () => 42);
+    const asyncResult = await LogEngine.runWithContext({ requestId: 'b' }, async () => 'done');
+
+    expect(syncResult).toBe(42);
+    expect(asyncResult).toBe('done');
+  });
+
+  it('should propagate context across awaits and timers', async () => {
+    await LogEngine.runWithContext({ requestId: 'req-async' }, async () => {
+      await Promise.resolve();
+      LogEngine.info('After await');
+      await new Promise<void>(resolve => setTimeout(() => {
+        LogEngine.info('Inside timer');
+        resolve();
+      }, 1));
+    });
+
+    expect(mockOutputHandler).toHaveBeenCalledTimes(2);
+    expect(mockOutputHandler.mock.calls[0][2]).toEqual({ requestId: 'req-async' });
+    expect(mockOutputHandler.mock.calls[1][2]).toEqual({ requestId: 'req-async' });
+  });
+
+  it('should propagate context into event emitter listeners', () => {
+    const emitter = new EventEmitter();
+    emitter.on('order', () => LogEngine.info('Order event'));
+
+    LogEngine.runWithContext({ tenant: 'acme' }, () => {
+      emitter.emit('order');
+    });
+
+    expect(mockOutputHandler).toHaveBeenCalledWith('info', expect.any(String), { tenant: 'acme' });
+  });
+
+  it('should keep concurrent contexts separate', async () => {
+    const handle = (requestId: string, delay: number): Promise<void> =>
+      LogEngine.runWithContext({ requestId }, async () => {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        LogEngine.info(`Done ${requestId}`);
+      });
+
+    await Promise.all([handle('slow', 10), handle('fast', 1)]);
+
+    const byMessage = new Map(mockOutputHandler.mock.calls.map(call => [call[1], call[2]]));
+    for (const [formatted, data] of byMessage) {
+      const requestId = formatted.includes('Done slow') ? 'slow' : 'fast';
+      expect(data).toEqual({ requestId });
+    }
+    expect(mockOutputHandler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should merge nested contexts', () => {
+    LogEngine.runWithContext({ requestId: 'outer', tenant: 'acme' }, () => {
+      LogEngine.runWithContext({ requestId: 'inner', userId: 7 }, () => {
+        expect(LogEngine.getContext()).toEqual({ requestId: 'inner', tenant: 'acme', userId: 7 });
+      });
+      expect(LogEngine.getContext()).toEqual({ requestId: 'outer', tenant: 'acme' });
+    });
+  });
+
+  it('should return undefined outside of a context', () => {
+    expect(LogEngine.getContext()).toBeUndefined();
+  });
+
+  it('should not leak context after the function returns', () => {
+    LogEngine.runWithContext({ requestId: 'req-1' }, () => undefined);
+    LogEngine.info('Outside');
+
+    expect(mockOutputHandler).toHaveBeenCalledWith('info', expect.any(String), undefined);
+  });
+
+  it('should apply context to child loggers with bindings taking precedence', () => {
+    const child = LogEngine.child({ service: 'billing', requestId: 'bound' });
+
+    LogEngine.runWithContext({ requestId: 'ctx', tenant: 'acme' }, () => {
+      child.info('Child call', { extra: true });
+    });
+
+    expect(mockOutputHandler).toHaveBeenCalledWith('info', expect.any(String), {
+      requestId: 'bound',
+      tenant: 'acme',
+      service: 'billing',
+      extra: true
+    });
+  });
+
+  it('should redact sensitive context fields', () => {
+    LogEngine.runWithContext({ sessionId: 'abc123' }, () => {
+      LogEngine.info('Redacted context');
+    });
+
+    expect(mockOutputHandler.mock.calls[0][2]).toEqual({ sessionId: '[REDACTED]' });
+  });
+
+  it('should keep context isolated between independent loggers', () => {
+    const isolatedHandler = jest.fn();
+    const logger = createLogger({ mode: LogMode.DEBUG, outputHandler: isolatedHandler });
+
+    LogEngine.runWithContext({ requestId: 'shared' }, () => {
+      logger.info('Isolated');
+    });
+
+    expect(isolatedHandler).toHaveBeenCalledWith('info', expect.any(String), undefined);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for child loggers with bound context
+ * Verifies binding merge, nesting, redaction, and per-child overrides
+ */
+
+import { LogEngine, LogMode } from '../index';
+import { Logger } from '../logger';
+
+describe('Child loggers', () => {
+  const mockOutputHandler = jest.fn();
+
+  beforeEach(() => {
+    mockOutputHandler.mockClear();
+    LogEngine.configure({
+      mode: LogMode.DEBUG,
+      outputHandler: mockOutputHandler,
+      suppressConsoleOutput: true
+    });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      outputHandler: undefined,
+      suppressConsoleOutput: false
+    });
+  });
+
+  it('should merge bound fields into every call', () => {
+    const log = LogEngine.child({ service: 'billing', requestId: 'req-1' });
+
+    log.info('Invoice created', { invoiceId: 42 });
+    log.warn('No data');
+
+    expect(mockOutputHandler).toHaveBeenNthCalledWith(1, 'info', expect.stringContaining('Invoice created'), {
+      service: 'billing',
+      requestId: 'req-1',
+      invoiceId: 42
+    });
+    expect(mockOutputHandler).toHaveBeenNthCalledWith(2, 'warn', expect.stringContaining('No data'), {
+      service: 'billing',
+      requestId: 'req-1'
+    });
+  });
+
+  it('should let call data override bound fields', () => {
+    const log = LogEngine.child({ service: 'billing' });
+
+    log.info('Override', { service: 'payments' });
+
+    expect(mockOutputHandler).toHaveBeenCalledWith('info', expect.any(String), { service: 'payments' });
+  });
+
+  it('should keep non-object data under a data key', () => {
+    const log = LogEngine.child({ service: 'billing' });
+
+    log.info('Primitive', 'plain string');
+
+    expect(mockOutputHandler).toHaveBeenCalledWith('info', expect.any(String), {
+      service: 'billing',
+      data: 'plain string'
+    });
+  });
+
+  it('should redact bound fields before output', () => {
+    const log = LogEngine.child({ service: 'auth', password: 'secret123' });
+
+    log.info('Login');
+
+    const data = mockOutputHandler.mock.calls[0][2];
+    expect(data.service).toBe('auth');
+    expect(data.password).toBe('[REDACTED]');
+  });
+
+  it('should bypass redaction for raw methods', () => {
+    const log = LogEngine.child({ password: 'secret123' });
+
+    log.infoRaw('Raw login');
+    log.withoutRedaction().info('Raw login again');
+
+    expect(mockOutputHandler.mock.calls[0][2].password).toBe('secret123');
+    expect(mockOutputHandler.mock.calls[1][2].password).toBe('secret123');
+  });
+
+  it('should support nested children', () => {
+    const parent = LogEngine.child({ service: 'billing' });
+    const child = parent.child({ requestId: 'req-2' });
+
+    child.error('Charge failed');
+
+    expect(mockOutputHandler).toHaveBeenCalledWith('error', expect.any(String), {
+      service: 'billing',
+      requestId: 'req-2'
+    });
+  });
+
+  it('should inherit parent configuration changes made after creation', () => {
+    const log = LogEngine.child({ service: 'billing' });
+
+    LogEngine.configure({ mode: LogMode.ERROR });
+    log.info('Filtered out');
+    log.error('Shown');
+
+    expect(mockOutputHandler).toHaveBeenCalledTimes(1);
+    expect(mockOutputHandler).toHaveBeenCalledWith('error', expect.stringContaining('Shown'), expect.any(Object));
+  });
+
+  it('should allow per-child mode overrides', () => {
+    LogEngine.configure({ mode: LogMode.ERROR });
+    const verbose = LogEngine.child({ service: 'billing' }, { mode: LogMode.DEBUG });
+
+    verbose.debug('Visible debug');
+    LogEngine.debug('Hidden debug');
+
+    expect(mockOutputHandler).toHaveBeenCalledTimes(1);
+    expect(mockOutputHandler).toHaveBeenCalledWith('debug', expect.stringContaining('Visible debug'), expect.any(Object));
+  });
+
+  it('should allow per-child format overrides', () => {
+    const compact = LogEngine.child({}, {
+      format: { includeIsoTimestamp: false, includeLocalTime: false, includeEmoji: false }
+    });
+
+    compact.info('Compact message');
+
+    const formatted: string = mockOutputHandler.mock.calls[0][1];
+    expect(formatted).not.toMatch(/\d{4}-\d{2}-\d{2}T/);
+    expect(formatted).toContain('[INFO]');
+    expect(formatted).toContain(': Compact message');
+  });
+
+  it('should reject invalid format overrides when the child is created', () => {
+    const child = (format: object): unknown => LogEngine.child({}, { format });
+
+    expect(() => child({ template: '{if message} x' })).toThrow('Format template section {if message} is missing its {end}.');
+    expect(() => child({ timestamp: { timeZone: 'Nope/Zone' } })).toThrow('Unknown timeZone: "Nope/Zone"');
+    expect(() => child({ theme: 'nosuch' })).toThrow('Unknown theme: "nosuch"');
+    expect(() => child({ style: 'xml' })).toThrow('Unknown format style: "xml"');
+    expect(() => child({ colors: 'sometimes' })).toThrow('Unknown colors mode: "sometimes"');
+    expect(() => child({ prettyData: 'yes' })).toThrow('format.prettyData must be a boolean or an object.');
+    expect(() => child({ sanitize: { tabs: 'strip' } })).toThrow('Unknown sanitize option: "tabs"');
+  });
+
+  it('should check child templates against tokens defined by the parent', () => {
+    LogEngine.configure({ format: { tokens: { user: (): string => 'jane' } } });
+
+    try {
+      LogEngine.child({}, { format: { template: '{user} {message}' } }).info('Signed in');
+      expect(mockOutputHandler.mock.calls[0][1]).toBe('jane Signed in');
+    } finally {
+      LogEngine.configure({ format: undefined });
+    }
+  });
+
+  it('should route configure() on a child Logger to its parent', () => {
+    const parent = new Logger();
+    const child = parent.child({ scope: 'test' });
+
+    child.configure({ mode: LogMode.WARN });
+
+    expect(parent.getConfig().mode).toBe(LogMode.WARN);
+    expect(child.getConfig().mode).toBe(LogMode.WARN);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for terminal color support
+ * Verifies NO_COLOR, FORCE_COLOR and TTY detection, the colors option, color depth degradation and ANSI stripping
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogEngine, LogMode, ColorSupport } from '../index';
+import { MessageFormatter } from '../formatter';
+import { createRecord } from './test-utils';
+
+describe('Color support', () => {
+  const originalEnv = { FORCE_COLOR: process.env.FORCE_COLOR, NO_COLOR: process.env.NO_COLOR };
+  const tty = { isTTY: true };
+  const pipe = { isTTY: false };
+  let consoleLog: jest.SpyInstance;
+  let testDir: string;
+
+  const restoreEnv = (name: 'FORCE_COLOR' | 'NO_COLOR'): void => {
+    if (originalEnv[name] === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = originalEnv[name];
+    }
+  };
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-engine-colors-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    LogEngine.configure({ mode: LogMode.DEBUG });
+  });
+
+  afterEach(() => {
+    restoreEnv('FORCE_COLOR');
+    restoreEnv('NO_COLOR');
+    LogEngine.configure({ mode: LogMode.INFO, format: undefined, outputHandler: undefined, enhancedOutputs: undefined });
+    jest.restoreAllMocks();
+  });
+
+  it('should use colors only on terminals in auto mode', () => {
+    expect(ColorSupport.resolve('auto', tty, { TERM: 'xterm' })).toBe(1);
+    expect(ColorSupport.resolve('auto', pipe, { TERM: 'xterm' })).toBe(0);
+    expect(ColorSupport.resolve('auto', undefined, { TERM: 'xterm' })).toBe(0);
+    expect(ColorSupport.resolve('auto', undefined, { FORCE_COLOR: '3' })).toBe(0);
+    expect(ColorSupport.resolve('auto', tty, { TERM: 'dumb' })).toBe(0);
+  });
+
+  it('should detect 256-color and truecolor terminals', () => {
+    expect(ColorSupport.resolve('auto', tty, { TERM: 'xterm-256color' })).toBe(2);
+    expect(ColorSupport.resolve('auto', tty, { TERM: 'xterm-256color', COLORTERM: 'truecolor' })).toBe(3);
+    expect(ColorSupport.resolve('auto', tty, { COLORTERM: '24bit' })).toBe(3);
+  });
+
+  it('should honor NO_COLOR and FORCE_COLOR', () => {
+    expect(ColorSupport.resolve('auto', tty, { TERM: 'xterm', NO_COLOR: '1' })).toBe(0);
+    expect(ColorSupport.resolve('auto', tty, { TERM: 'xterm', NO_COLOR: '' })).toBe(1);
+    expect(ColorSupport.resolve('auto', pipe, { FORCE_COLOR: '1' })).toBe(1);
+    expect(ColorSupport.resolve('auto', pipe, { FORCE_COLOR: '3' })).toBe(3);
+    expect(ColorSupport.resolve('auto', pipe, { FORCE_COLOR: '1', TERM: 'xterm-256color' })).toBe(2);
+    expect(ColorSupport.resolve('auto', tty, { FORCE_COLOR: '0', TERM: 'xterm' })).toBe(0);
+    expect(ColorSupport.resolve('auto', pipe, { FORCE_COLOR: '1', NO_COLOR: '1' })).toBe(1);
+  });
+
+  it('should let the colors option override detection', () => {
+    expect(ColorSupport.resolve('always', pipe, { NO_COLOR: '1' })).toBe(1);
+    expect(ColorSupport.resolve('always', undefined, { COLORTERM: 'truecolor' })).toBe(3);
+    expect(ColorSupport.resolve('never', tty, { FORCE_COLOR: '3' })).toBe(0);
+  });
+
+  it('should degrade truecolor and 256-color codes to the supported depth', () => {
+    const truecolor = '\x1b[38;2;255;135;0mwarm\x1b[0m';
+    const palette = '\x1b[1;38;5;196;48;5;21mbold\x1b[0m';
+
+    expect(ColorSupport.apply(truecolor, 3)).toBe(truecolor);
+    expect(ColorSupport.apply(truecolor, 2)).toBe('\x1b[38;5;214mwarm\x1b[0m');
+    expect(ColorSupport.apply(truecolor, 1)).toBe('\x1b[33mwarm\x1b[0m');
+    expect(ColorSupport.apply(palette, 2)).toBe(palette);
+    expect(ColorSupport.apply(palette, 1)).toBe('\x1b[1;91;44mbold\x1b[0m');
+    expect(ColorSupport.apply('\x1b[38;2;128;128;128mgray', 2)).toBe('\x1b[38;5;244mgray');
+    expect(ColorSupport.apply('\x1b[34mbasic\x1b[0m', 1)).toBe('\x1b[34mbasic\x1b[0m');
+    expect(ColorSupport.apply(truecolor, 0)).toBe('warm');
+  });
+
+  it('should strip escape codes other than colors', () => {
+    expect(ColorSupport.strip('\x1b[2J\x1b[?25lclear\x1b]0;title\x07 screen')).toBe('clear screen');
+  });
+
+  it('should write plain lines to a console that is not a terminal', () => {
+    LogEngine.info('piped', { port: 3000 });
+
+    expect(consoleLog.mock.calls[0][0]).not.toContain('\x1b');
+    expect(consoleLog.mock.calls[0][0]).toContain('[INFO]');
+    expect(consoleLog.mock.calls[0][0]).toContain('piped {"port":3000}');
+  });
+
+  it('should keep console colors with FORCE_COLOR or colors always', () => {
+    process.env.FORCE_COLOR = '1';
+    LogEngine.info('forced');
+    delete process.env.FORCE_COLOR;
+    LogEngine.configure({ format: { colors: 'always' } });
+    LogEngine.info('always');
+
+    expect(consoleLog.mock.calls[0][0]).toContain('\x1b[34m[INFO]');
+    expect(consoleLog.mock.calls[1][0]).toContain('\x1b[34m[INFO]');
+  });
+
+  it('should degrade custom level colors on basic terminals', () => {
+    process.env.FORCE_COLOR = '1';
+    const log = LogEngine.registerLevel({ name: 'audit', severity: 1, color: '\x1b[38;2;255;135;0m' });
+
+    log.audit('Permissions changed');
+
+    expect(consoleLog.mock.calls[0][0]).toContain('\x1b[33m[AUDIT]');
+    expect(consoleLog.mock.calls[0][0]).not.toContain('38;2');
+  });
+
+  it('should strip ANSI codes from lines passed to custom handlers and files', () => {
+    process.env.FORCE_COLOR = '3';
+    const outputHandler = jest.fn();
+    const filePath = path.join(testDir, 'pretty.log');
+    LogEngine.configure({ outputHandler });
+    LogEngine.info('handler');
+    LogEngine.configure({ outputHandler: undefined, enhancedOutputs: [{ type: 'file', config: { filePath }, format: 'pretty' }] });
+    LogEngine.info('file');
+
+    expect(outputHandler.mock.calls[0][1]).not.toContain('\x1b');
+    expect(outputHandler.mock.calls[0][1]).toContain('[INFO]');
+    expect(fs.readFileSync(filePath, 'utf8')).not.toContain('\x1b');
+    expect(fs.readFileSync(filePath, 'utf8')).toContain('[INFO]');
+  });
+
+  it('should strip ANSI codes from data passed to custom handlers', () => {
+    const outputHandler = jest.fn();
+    const data = { s: 'a\x1b[31mb', nested: { list: ['\x1b]0;title\x07c', 1] }, date: new Date(0) };
+    LogEngine.configure({ outputHandler });
+    LogEngine.infoRaw('handler', data);
+    LogEngine.infoRaw('handler', { port: 3000 });
+
+    expect(outputHandler.mock.calls[0][2]).toEqual({ s: 'ab', nested: { list: ['c', 1] }, date: new Date(0) });
+    expect(data.s).toBe('a\x1b[31mb');
+    expect(outputHandler.mock.calls[1][2]).toEqual({ port: 3000 });
+  });
+
+  it('should keep ANSI codes for custom handlers with colors always', () => {
+    const outputHandler = jest.fn();
+    LogEngine.configure({ outputHandler, format: { colors: 'always' } });
+
+    LogEngine.warn('colored', { s: 'a\x1b[31mb' });
+
+    expect(outputHandler.mock.calls[0][1]).toContain('\x1b[33m[WARN]');
+    expect(outputHandler.mock.calls[0][2]).toEqual({ s: 'a\x1b[31mb' });
+  });
+
+  it('should format without any escape codes with colors never', () => {
+    expect(MessageFormatter.formatRecord(createRecord({ data: { port: 3000 } }), { colors: 'never' })).not.toContain('\x1b');
+    expect(MessageFormatter.formatRecord(createRecord(), { colors: 'never', template: '{level} {message}' })).toBe('INFO Order placed');
+    expect(MessageFormatter.formatSystemMessage('notice', { colors: 'never' })).not.toContain('\x1b');
+  });
+
+  it('should reject unknown color modes', () => {
+    expect(() => LogEngine.configure({ format: { colors: 'sometimes' as 'auto' } })).toThrow('Unknown colors mode: "sometimes"');
+  });
+});
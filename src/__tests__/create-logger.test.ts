@@ -0,0 +1,104 @@
+/**
+ * Tests for independent logger instances created with createLogger()
+ * Verifies mode, output, redaction and emoji state are isolated from the shared LogEngine
+ */
+
+import { LogEngine, createLogger, LogMode, DataRedactor, EmojiSelector } from '../index';
+
+describe('createLogger()', () => {
+  const sharedHandler = jest.fn();
+  const isolatedHandler = jest.fn();
+
+  beforeEach(() => {
+    sharedHandler.mockClear();
+    isolatedHandler.mockClear();
+    LogEngine.configure({
+      mode: LogMode.DEBUG,
+      outputHandler: sharedHandler,
+      suppressConsoleOutput: true
+    });
+    LogEngine.resetRedactionConfig();
+  });
+
+  afterEach(() => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      outputHandler: undefined,
+      suppressConsoleOutput: false
+    });
+    LogEngine.resetRedactionConfig();
+    EmojiSelector.reset();
+  });
+
+  it('should apply the initial configuration', () => {
+    const logger = createLogger({ mode: LogMode.WARN, outputHandler: isolatedHandler });
+
+    logger.info('Hidden');
+    logger.warn('Shown');
+
+    expect(isolatedHandler).toHaveBeenCalledTimes(1);
+    expect(isolatedHandler).toHaveBeenCalledWith('warn', expect.stringContaining('Shown'), undefined);
+  });
+
+  it('should not share mode or outputs with the default LogEngine', () => {
+    const logger = createLogger({ mode: LogMode.ERROR, outputHandler: isolatedHandler });
+
+    LogEngine.info('Shared info');
+    logger.info('Isolated info');
+
+    expect(sharedHandler).toHaveBeenCalledTimes(1);
+    expect(isolatedHandler).not.toHaveBeenCalled();
+  });
+
+  it('should keep redaction rules isolated', () => {
+    const logger = createLogger({ mode: LogMode.DEBUG, outputHandler: isolatedHandler });
+
+    logger.configureRedaction({ redactionText: '***' });
+    logger.addSensitiveFields(['tenantCode']);
+
+    logger.info('Isolated', { password: 'p', tenantCode: 'x' });
+    LogEngine.info('Shared', { password: 'p', tenantCode: 'x' });
+
+    expect(isolatedHandler.mock.calls[0][2]).toEqual({ password: '***', tenantCode: '***' });
+    expect(sharedHandler.mock.calls[0][2]).toEqual({ password: '[REDACTED]', tenantCode: 'x' });
+    expect(DataRedactor.getConfig().redactionText).toBe('[REDACTED]');
+    expect(LogEngine.testFieldRedaction('tenantCode')).toBe(false);
+  });
+
+  it('should not be affected by changes to the shared redactor', () => {
+    const logger = createLogger({ mode: LogMode.DEBUG, outputHandler: isolatedHandler });
+
+    LogEngine.configureRedaction({ enabled: false });
+    logger.info('Still redacted', { password: 'p' });
+
+    expect(isolatedHandler.mock.calls[0][2]).toEqual({ password: '[REDACTED]' });
+  });
+
+  it('should keep emoji configuration isolated', () => {
+    const logger = createLogger({
+      mode: LogMode.DEBUG,
+      outputHandler: isolatedHandler,
+      format: {
+        emoji: {
+          customMappings: [{ emoji: '🦄', code: ':unicorn:', keywords: ['unicorn'] }]
+        }
+      }
+    });
+
+    logger.info('unicorn sighted');
+    LogEngine.info('unicorn sighted');
+
+    expect(isolatedHandler.mock.calls[0][1]).toContain('[🦄]');
+    expect(sharedHandler.mock.calls[0][1]).not.toContain('[🦄]');
+    expect(EmojiSelector.getConfig().customMappings).toEqual([]);
+  });
+
+  it('should give child loggers the isolated state of their root', () => {
+    const logger = createLogger({ mode: LogMode.DEBUG, outputHandler: isolatedHandler });
+    logger.configureRedaction({ redactionText: '***' });
+
+    logger.child({ token: 'abc' }).info('Child');
+
+    expect(isolatedHandler.mock.calls[0][2]).toEqual({ token: '***' });
+  });
+});
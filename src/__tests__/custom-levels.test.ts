@@ -0,0 +1,186 @@
+/**
+ * Tests for custom log levels registered with LogEngine.registerLevel()
+ * Verifies generated methods, filtering, formatting, emoji fallbacks and console routing
+ */
+
+import { LogEngine, LogMode, LogLevel, LevelRegistry, createLogger } from '../index';
+
+describe('Custom log levels', () => {
+  const mockOutputHandler = jest.fn();
+  const log = LogEngine
+    .registerLevel({ name: 'trace', severity: -1, color: 'gray', emoji: '🔬' })
+    .registerLevel({ name: 'notice', severity: 1.5, color: 'cyan', emoji: '📣' })
+    .registerLevel({ name: 'fatal', severity: 4, color: 'red', emoji: '💀', consoleMethod: 'error' });
+
+  beforeEach(() => {
+    mockOutputHandler.mockClear();
+    LogEngine.configure({
+      mode: 'trace',
+      outputHandler: mockOutputHandler,
+      suppressConsoleOutput: true,
+      format: undefined
+    });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      outputHandler: undefined,
+      suppressConsoleOutput: false,
+      format: undefined
+    });
+  });
+
+  it('should generate logging methods for registered levels', () => {
+    log.trace('Entering handler');
+    log.notice('Config reloaded');
+    log.fatal('Out of memory');
+
+    expect(mockOutputHandler).toHaveBeenNthCalledWith(1, 'trace', expect.stringContaining('[TRACE]'), undefined);
+    expect(mockOutputHandler).toHaveBeenNthCalledWith(2, 'notice', expect.stringContaining('[NOTICE]'), undefined);
+    expect(mockOutputHandler).toHaveBeenNthCalledWith(3, 'fatal', expect.stringContaining('[FATAL]'), undefined);
+  });
+
+  it('should filter custom levels by severity', () => {
+    LogEngine.configure({ mode: LogMode.DEBUG });
+    log.trace('Hidden below DEBUG');
+    log.debug('Shown');
+
+    LogEngine.configure({ mode: LogMode.ERROR });
+    log.notice('Hidden below ERROR');
+    log.fatal('Shown above ERROR');
+
+    LogEngine.configure({ mode: LogMode.SILENT });
+    log.fatal('Hidden in SILENT');
+
+    expect(mockOutputHandler.mock.calls.map(call => call[0])).toEqual(['debug', 'fatal']);
+  });
+
+  it('should accept a level name as mode', () => {
+    LogEngine.configure({ mode: 'notice' });
+
+    log.info('Hidden');
+    log.notice('Shown');
+    log.warn('Also shown');
+
+    expect(mockOutputHandler.mock.calls.map(call => call[0])).toEqual(['notice', 'warn']);
+  });
+
+  it('should reject unknown level names as mode', () => {
+    expect(() => LogEngine.configure({ mode: 'verbose' })).toThrow('Unknown log mode');
+    expect(() => LogEngine.child({}, { mode: 'verbose' })).toThrow('Unknown log mode');
+  });
+
+  it('should use the registered color and fallback emoji', () => {
+    LogEngine.configure({ format: { colors: 'always' } });
+    log.trace('Plain message');
+
+    const formatted: string = mockOutputHandler.mock.calls[0][1];
+    expect(formatted).toContain('\x1b[90m[TRACE]');
+    expect(formatted).toContain('[🔬]');
+  });
+
+  it('should let customFallbacks override the registered emoji', () => {
+    LogEngine.configure({ format: { emoji: { customFallbacks: { FATAL: '🔥' } } } });
+
+    log.fatal('Plain message');
+
+    expect(mockOutputHandler.mock.calls[0][1]).toContain('[🔥]');
+    LogEngine.configure({ format: undefined });
+  });
+
+  it('should redact data except for the Raw variant', () => {
+    log.notice('Redacted', { password: 'secret123' });
+    log.noticeRaw('Raw', { password: 'secret123' });
+
+    expect(mockOutputHandler.mock.calls[0][2]).toEqual({ password: '[REDACTED]' });
+    expect(mockOutputHandler.mock.calls[1][2]).toEqual({ password: 'secret123' });
+  });
+
+  it('should log at levels given by name or value', () => {
+    LogEngine.logAt('fatal', 'By name');
+    LogEngine.logAt(LogLevel.WARN, 'By value');
+
+    expect(mockOutputHandler.mock.calls.map(call => call[0])).toEqual(['fatal', 'warn']);
+    expect(() => LogEngine.logAt('verbose', 'Unknown')).toThrow('Unknown log level');
+  });
+
+  it('should use the configured console method', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    LogEngine.configure({ outputHandler: undefined, suppressConsoleOutput: false });
+
+    log.fatal('To stderr');
+    log.trace('To stdout');
+
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('To stderr'));
+    expect(logSpy).toHaveBeenCalledWith(expect.stringContaining('To stdout'));
+    errorSpy.mockRestore();
+    logSpy.mockRestore();
+  });
+
+  it('should add generated methods to children and loggers created later', () => {
+    const isolatedHandler = jest.fn();
+    const logger = createLogger({ mode: 'trace', outputHandler: isolatedHandler }) as typeof log;
+    const child = LogEngine.child({ service: 'db' }) as typeof log;
+
+    logger.trace('Isolated trace');
+    child.fatal('Child fatal');
+
+    expect(isolatedHandler).toHaveBeenCalledWith('trace', expect.any(String), undefined);
+    expect(mockOutputHandler).toHaveBeenCalledWith('fatal', expect.any(String), { service: 'db' });
+  });
+
+  it('should add methods of levels registered later to existing loggers', () => {
+    const isolatedHandler = jest.fn();
+    const logger = createLogger({ mode: 'trace', outputHandler: isolatedHandler });
+    const child = LogEngine.child({ service: 'db' });
+    const named = LogEngine.namespace('db');
+
+    const withAudit = LogEngine.registerLevel({ name: 'audit', severity: 1.2 });
+    type AuditLogger = typeof withAudit;
+
+    expect('audit' in child).toBe(true);
+    (logger as AuditLogger).audit('Isolated audit');
+    (child as AuditLogger).audit('Child audit');
+    (named as AuditLogger).auditRaw('Namespace audit');
+
+    expect(isolatedHandler).toHaveBeenCalledWith('audit', expect.stringContaining('Isolated audit'), undefined);
+    expect(mockOutputHandler).toHaveBeenNthCalledWith(1, 'audit', expect.stringContaining('Child audit'), { service: 'db' });
+    expect(mockOutputHandler).toHaveBeenNthCalledWith(2, 'audit', expect.stringContaining('[db]: Namespace audit'), undefined);
+  });
+
+  it('should pass the level to record handlers', () => {
+    const handler = jest.fn();
+    LogEngine.configure({ outputs: [{ type: 'record', handler }] });
+
+    log.fatal('Record level');
+    LogEngine.configure({ outputs: undefined });
+
+    const record = handler.mock.calls[0][0];
+    expect(record.level).toBe(LevelRegistry.getByName('fatal')?.value);
+    expect(record.levelName).toBe('fatal');
+  });
+
+  describe('registration', () => {
+    it('should allow identical re-registration', () => {
+      expect(() => LogEngine.registerLevel({ name: 'trace', severity: -1, color: 'gray', emoji: '🔬' })).not.toThrow();
+    });
+
+    it('should reject conflicting definitions', () => {
+      expect(() => LogEngine.registerLevel({ name: 'trace', severity: 0 })).toThrow('different definition');
+      expect(() => LogEngine.registerLevel({ name: 'warn', severity: 2 })).toThrow('built-in');
+    });
+
+    it('should reject invalid names and severities', () => {
+      expect(() => LogEngine.registerLevel({ name: 'Bad-Name', severity: 0 })).toThrow('Invalid log level name');
+      expect(() => LogEngine.registerLevel({ name: 'huge', severity: 99 })).toThrow('Invalid severity');
+      expect(() => LogEngine.registerLevel({ name: 'nan', severity: NaN })).toThrow('Invalid severity');
+    });
+
+    it('should reject names that clash with LogEngine methods', () => {
+      expect(() => LogEngine.registerLevel({ name: 'configure', severity: 1 })).toThrow('conflicts');
+      expect(LevelRegistry.getByName('configure')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for Error serialization
+ * Verifies stack, cause chains, AggregateError, custom fields and redaction across outputs
+ */
+
+import { LogEngine, LogMode, LogRecord, ErrorSerializer } from '../index';
+import { formatData } from '../formatter';
+
+class HttpError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Attach a cause the way `new Error(message, { cause })` does (non-enumerable own property)
+ */
+const withCause = <T extends Error>(error: T, cause: unknown): T => {
+  Object.defineProperty(error, 'cause', { value: cause, enumerable: false, writable: true, configurable: true });
+  return error;
+};
+
+describe('Error serialization', () => {
+  describe('ErrorSerializer', () => {
+    it('should keep name, message, stack and custom fields', () => {
+      const error = Object.assign(new TypeError('Bad input'), { code: 'E_INPUT' });
+
+      const serialized = ErrorSerializer.serialize(error);
+
+      expect(serialized).toEqual({
+        name: 'TypeError',
+        message: 'Bad input',
+        stack: error.stack,
+        code: 'E_INPUT'
+      });
+    });
+
+    it('should use the subclass name when name was not set', () => {
+      const serialized = ErrorSerializer.serialize(new HttpError('Not found', 404));
+
+      expect(serialized.name).toBe('HttpError');
+      expect(serialized.statusCode).toBe(404);
+    });
+
+    it('should follow cause chains', () => {
+      const root = new Error('ECONNRESET');
+      const error = withCause(new Error('Query failed'), withCause(new Error('Connection lost'), root));
+
+      const serialized = ErrorSerializer.serialize(error);
+
+      expect(serialized.cause.message).toBe('Connection lost');
+      expect(serialized.cause.cause.message).toBe('ECONNRESET');
+      expect(serialized.cause.cause.stack).toBe(root.stack);
+    });
+
+    it('should keep non-Error causes as they are', () => {
+      const serialized = ErrorSerializer.serialize(withCause(new Error('Failed'), { retry: 3 }));
+
+      expect(serialized.cause).toEqual({ retry: 3 });
+    });
+
+    it('should serialize AggregateError.errors', () => {
+      // AggregateError isn't in the compile target's lib, but exists at runtime
+      const { AggregateError } = globalThis as unknown as { AggregateError: new (errors: Error[], message: string) => Error };
+      const error = new AggregateError([new Error('first'), new RangeError('second')], 'Several failures');
+
+      const serialized = ErrorSerializer.serialize(error);
+
+      expect(serialized.name).toBe('AggregateError');
+      expect(serialized.errors?.map(item => item.name)).toEqual(['Error', 'RangeError']);
+      expect(serialized.errors?.map(item => item.message)).toEqual(['first', 'second']);
+    });
+
+    it('should stop at circular causes', () => {
+      const error = new Error('Loop');
+      withCause(error, error);
+
+      expect(ErrorSerializer.serialize(error).cause).toBe('[Circular]');
+    });
+
+    it('should only copy the path to an error', () => {
+      const untouched = { nested: { value: 1 } };
+      const data = { untouched, err: new Error('boom') };
+
+      const serialized = ErrorSerializer.serializeErrors(data);
+
+      expect(serialized).not.toBe(data);
+      expect(serialized.untouched).toBe(untouched);
+      expect(serialized.err.message).toBe('boom');
+      expect(ErrorSerializer.serializeErrors(untouched)).toBe(untouched);
+    });
+
+    it('should be used by formatData', () => {
+      expect(JSON.parse(formatData({ err: new Error('boom') })).err.message).toBe('boom');
+    });
+  });
+
+  describe('logging errors', () => {
+    const mockOutputHandler = jest.fn();
+    const recordHandler = jest.fn();
+
+    beforeEach(() => {
+      mockOutputHandler.mockClear();
+      recordHandler.mockClear();
+      LogEngine.configure({
+        mode: LogMode.DEBUG,
+        outputs: [mockOutputHandler, { type: 'record', handler: recordHandler }],
+        suppressConsoleOutput: true
+      });
+    });
+
+    afterEach(() => {
+      LogEngine.configure({ mode: LogMode.INFO, outputs: undefined, suppressConsoleOutput: false });
+    });
+
+    it('should include message and stack in formatted output', () => {
+      const error = new Error('Database unavailable');
+
+      LogEngine.error('Request failed', { err: error });
+
+      const formatted: string = mockOutputHandler.mock.calls[0][1];
+      expect(formatted).toContain('Database unavailable');
+      expect(formatted).toContain('"stack"');
+      expect(mockOutputHandler.mock.calls[0][2].err.name).toBe('Error');
+    });
+
+    it('should serialize errors passed directly as data', () => {
+      LogEngine.error('Request failed', new HttpError('Upstream timeout', 504));
+
+      const record: LogRecord = recordHandler.mock.calls[0][0];
+      expect(record.data).toMatchObject({ name: 'HttpError', message: 'Upstream timeout', statusCode: 504 });
+      expect(record.error).toBeUndefined();
+    });
+
+    it('should redact sensitive custom fields and causes', () => {
+      const cause = Object.assign(new Error('Auth rejected'), { token: 'abc123' });
+      const error = Object.assign(withCause(new Error('Login failed'), cause), { password: 'hunter2', code: 'E_AUTH' });
+
+      LogEngine.error('Login failed', { err: error });
+
+      const data = recordHandler.mock.calls[0][0].data;
+      expect(data.err.password).toBe('[REDACTED]');
+      expect(data.err.code).toBe('E_AUTH');
+      expect(data.err.cause.token).toBe('[REDACTED]');
+    });
+
+    it('should serialize errors in raw calls without redacting them', () => {
+      LogEngine.errorRaw('Login failed', { err: Object.assign(new Error('Denied'), { password: 'hunter2' }) });
+
+      expect(recordHandler.mock.calls[0][0].data.err).toMatchObject({ message: 'Denied', password: 'hunter2' });
+      expect(recordHandler.mock.calls[0][0].error).toBeInstanceOf(Error);
+    });
+
+    it('should not throw on getters that throw, with or without redaction', () => {
+      const order = (): object => ({
+        sku: 'X1',
+        get total(): number {
+          throw new Error('not loaded');
+        }
+      });
+
+      expect(() => LogEngine.info('Order placed', order())).not.toThrow();
+      expect(() => LogEngine.infoRaw('Order placed', { order: order(), err: new Error('Denied') })).not.toThrow();
+
+      expect(recordHandler.mock.calls[0][0].data).toEqual({ sku: 'X1', total: '[Getter threw: not loaded]' });
+      expect(recordHandler.mock.calls[1][0].data.order).toEqual({ sku: 'X1', total: '[Getter threw: not loaded]' });
+      expect(mockOutputHandler.mock.calls[1][1]).toContain('"total":"[Getter threw: not loaded]"');
+    });
+  });
+});
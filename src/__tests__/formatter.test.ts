@@ -158,12 +158,12 @@ describe('LogFormatter', () => {
     });
 
     it('should handle objects that cannot be stringified', () => {
-      // Test JSON.stringify error handling (covers line 117)
-      const circularObj: any = {};
+      // Circular references are marked instead of failing the whole value
+      const circularObj: any = { id: 1 };
       circularObj.self = circularObj; // Create circular reference
 
       const formatted = LogFormatter.format(LogLevel.INFO, 'Message', circularObj, { includeEmoji: false });
-      expect(formatted).toContain('[Object]');
+      expect(formatted).toContain('{"id":1,"self":"[Circular]"}');
     });
 
     it('should handle string data types', () => {
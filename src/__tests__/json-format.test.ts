@@ -0,0 +1,177 @@
+/**
+ * Tests for the JSON line style
+ * Verifies format.style 'json', configurable key names, flattened data and use by console, file and HTTP outputs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogEngine, LogMode, StructuredFormatter } from '../index';
+import { createRecord } from './test-utils';
+
+describe('JSON line style', () => {
+  const originalFetch = global.fetch;
+  let consoleLog: jest.SpyInstance;
+  let testDir: string;
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-engine-json-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    LogEngine.configure({ mode: LogMode.DEBUG, format: { style: 'json' } });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, format: undefined, outputHandler: undefined, enhancedOutputs: undefined });
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  const loggedJson = (): Array<Record<string, unknown>> => consoleLog.mock.calls.map(call => JSON.parse(call[0]));
+
+  it('should write one JSON object per line to the console', () => {
+    LogEngine.child({ requestId: 'r1' }).info('Order placed', { orderId: 'A-1', total: 42 });
+
+    expect(consoleLog.mock.calls[0]).toHaveLength(1);
+    expect(loggedJson()).toEqual([{
+      timestamp: expect.any(String),
+      level: 'info',
+      message: 'Order placed',
+      context: { requestId: 'r1' },
+      data: { orderId: 'A-1', total: 42 }
+    }]);
+    expect(consoleLog.mock.calls[0][0]).not.toContain('\u001b');
+  });
+
+  it('should use configured key names', () => {
+    LogEngine.configure({
+      format: { style: 'json', json: { keys: { timestamp: 'time', level: 'lvl', message: 'msg', data: 'fields', context: 'ctx', namespace: 'logger' } } }
+    });
+
+    LogEngine.namespace('orders').child({ requestId: 'r1' }).info('Order placed', { total: 42 });
+
+    expect(loggedJson()).toEqual([{
+      time: expect.any(String),
+      lvl: 'info',
+      msg: 'Order placed',
+      logger: 'orders',
+      ctx: { requestId: 'r1' },
+      fields: { total: 42 }
+    }]);
+  });
+
+  it('should put data fields at the top level with flattenData', () => {
+    LogEngine.configure({ format: { style: 'json', json: { flattenData: true } } });
+
+    LogEngine.child({ requestId: 'r1' }).info('Order placed', { total: 42, level: 'gold', message: 'spoofed' });
+    LogEngine.info('Scalar data', 'just text');
+
+    const [flattened, scalar] = loggedJson();
+    expect(flattened).toEqual({
+      timestamp: expect.any(String),
+      level: 'info',
+      message: 'Order placed',
+      requestId: 'r1',
+      total: 42,
+      // Fields named like standard keys can't overwrite them
+      data: { level: 'gold', message: 'spoofed' }
+    });
+    expect(scalar.data).toBe('just text');
+  });
+
+  it('should escape control characters, ANSI codes and line separators', () => {
+    const line = StructuredFormatter.toJSON(createRecord({ message: 'a\nb\r\u001b[31mred\u2028end', data: { note: 'tab\there' } }));
+
+    expect(line).not.toMatch(/[\n\r\u001b\u2028]/);
+    expect(JSON.parse(line)).toMatchObject({ message: 'a\nb\r\u001b[31mred\u2028end', data: { note: 'tab\there' } });
+  });
+
+  it('should pass JSON lines to legacy output handlers', () => {
+    const outputHandler = jest.fn();
+    LogEngine.configure({ outputHandler });
+
+    LogEngine.warn('Low stock', { sku: 'X1' });
+
+    const [level, message] = outputHandler.mock.calls[0];
+    expect(level).toBe('warn');
+    expect(JSON.parse(message)).toMatchObject({ level: 'warn', message: 'Low stock', data: { sku: 'X1' } });
+  });
+
+  it('should apply the JSON settings to file and HTTP outputs with format json', () => {
+    const fetchMock = jest.fn(() => Promise.resolve({ ok: true }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const filePath = path.join(testDir, 'orders.ndjson');
+    LogEngine.configure({
+      format: { json: { keys: { message: 'msg' }, flattenData: true } },
+      enhancedOutputs: [
+        { type: 'file', config: { filePath }, format: 'json' },
+        { type: 'http', config: { url: 'https://logs.example.com/orders' }, format: 'json' }
+      ]
+    });
+
+    LogEngine.info('Order placed', { total: 42 });
+
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toMatchObject({ msg: 'Order placed', total: 42 });
+    const body = (fetchMock.mock.calls[0] as unknown[])[1] as { body: string };
+    expect(JSON.parse(body.body)).toMatchObject({ msg: 'Order placed', total: 42 });
+  });
+
+  it('should write JSON lines to file and HTTP outputs without their own format', () => {
+    const fetchMock = jest.fn(() => Promise.resolve({ ok: true }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const enhancedPath = path.join(testDir, 'enhanced.ndjson');
+    const builtInPath = path.join(testDir, 'built-in.ndjson');
+    LogEngine.configure({
+      format: { style: 'json' },
+      enhancedOutputs: [
+        { type: 'file', config: { filePath: enhancedPath } },
+        { type: 'http', config: { url: 'https://logs.example.com/orders' } }
+      ]
+    });
+    LogEngine.info('Order placed', { total: 42 });
+    LogEngine.configure({ enhancedOutputs: undefined, outputs: ['file'], advancedOutputConfig: { file: { filePath: builtInPath } } });
+    LogEngine.info('Order shipped', { total: 42 });
+    LogEngine.configure({ outputs: undefined, advancedOutputConfig: undefined });
+
+    expect(JSON.parse(fs.readFileSync(enhancedPath, 'utf8'))).toMatchObject({ message: 'Order placed', data: { total: 42 } });
+    expect(JSON.parse(fs.readFileSync(builtInPath, 'utf8'))).toMatchObject({ message: 'Order shipped', data: { total: 42 } });
+    const request = (fetchMock.mock.calls[0] as unknown[])[1] as { body: string; headers: Record<string, string> };
+    expect(JSON.parse(request.body)).toMatchObject({ message: 'Order placed' });
+    expect(request.headers['Content-Type']).toBe('application/x-ndjson');
+  });
+
+  it('should keep colorized text for outputs with format pretty', () => {
+    LogEngine.configure({ format: { style: 'json', colors: 'always' }, enhancedOutputs: [{ type: 'console', format: 'pretty' }, { type: 'console' }] });
+
+    LogEngine.info('Both styles');
+
+    const [pretty, json] = consoleLog.mock.calls;
+    expect(pretty[0]).toContain('\u001b[');
+    expect(JSON.parse(json[0])).toMatchObject({ message: 'Both styles' });
+    expect(json).toHaveLength(1);
+  });
+
+  it('should recreate outputs when the format configuration changes', () => {
+    const target = { type: 'console' as const, format: 'json' as const };
+    LogEngine.configure({ enhancedOutputs: [target] });
+    LogEngine.info('first');
+
+    LogEngine.configure({ format: { style: 'json', json: { keys: { message: 'msg' } } } });
+    LogEngine.info('second');
+
+    expect(loggedJson().map(entry => entry.message ?? entry.msg)).toEqual(['first', 'second']);
+    expect(loggedJson()[1]).toHaveProperty('msg', 'second');
+  });
+
+  it('should reject invalid styles and key names', () => {
+    expect(() => LogEngine.configure({ format: { style: 'yaml' as 'json' } })).toThrow('Unknown format style: "yaml"');
+    expect(() => LogEngine.configure({ format: { json: { keys: { message: '' } } } })).toThrow('Invalid JSON key name');
+    expect(() => LogEngine.configure({ format: { json: { keys: { message: 'level' } } } })).toThrow('JSON key names must be distinct');
+  });
+});
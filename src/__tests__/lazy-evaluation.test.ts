@@ -0,0 +1,93 @@
+/**
+ * Tests for lazy message and data evaluation
+ * Verifies thunks only run for enabled levels, and isLevelEnabled() reflects the effective mode
+ */
+
+import { LogEngine, LogMode, LogLevel } from '../index';
+
+describe('Lazy evaluation', () => {
+  const mockOutputHandler = jest.fn();
+
+  beforeEach(() => {
+    mockOutputHandler.mockClear();
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      namespaceModes: undefined,
+      outputHandler: mockOutputHandler,
+      suppressConsoleOutput: true
+    });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      namespaceModes: undefined,
+      outputHandler: undefined,
+      suppressConsoleOutput: false
+    });
+  });
+
+  it('should not call message or data functions for disabled levels', () => {
+    const message = jest.fn(() => 'expensive message');
+    const data = jest.fn(() => ({ expensive: true }));
+
+    LogEngine.debug(message, data);
+
+    expect(message).not.toHaveBeenCalled();
+    expect(data).not.toHaveBeenCalled();
+    expect(mockOutputHandler).not.toHaveBeenCalled();
+  });
+
+  it('should call message and data functions once for enabled levels', () => {
+    const message = jest.fn(() => 'computed message');
+    const data = jest.fn(() => ({ count: 3 }));
+
+    LogEngine.info(message, data);
+
+    expect(message).toHaveBeenCalledTimes(1);
+    expect(data).toHaveBeenCalledTimes(1);
+    expect(mockOutputHandler).toHaveBeenCalledWith('info', expect.stringContaining('computed message'), { count: 3 });
+  });
+
+  it('should redact lazily produced data', () => {
+    LogEngine.warn('Lazy credentials', () => ({ password: 'secret123' }));
+    LogEngine.withoutRedaction().warn('Raw lazy credentials', () => ({ password: 'secret123' }));
+
+    expect(mockOutputHandler.mock.calls[0][2]).toEqual({ password: '[REDACTED]' });
+    expect(mockOutputHandler.mock.calls[1][2]).toEqual({ password: 'secret123' });
+  });
+
+  it('should support lazy arguments on child loggers', () => {
+    const data = jest.fn(() => ({ step: 'charge' }));
+    const child = LogEngine.child({ service: 'billing' });
+
+    child.debug(() => 'hidden', data);
+    child.info(() => 'shown', data);
+
+    expect(data).toHaveBeenCalledTimes(1);
+    expect(mockOutputHandler).toHaveBeenCalledWith('info', expect.stringContaining('shown'), { service: 'billing', step: 'charge' });
+  });
+
+  describe('isLevelEnabled', () => {
+    it('should reflect the configured mode', () => {
+      expect(LogEngine.isLevelEnabled(LogLevel.DEBUG)).toBe(false);
+      expect(LogEngine.isLevelEnabled(LogLevel.INFO)).toBe(true);
+      expect(LogEngine.isLevelEnabled('error')).toBe(true);
+
+      LogEngine.configure({ mode: LogMode.OFF });
+      expect(LogEngine.isLevelEnabled(LogLevel.LOG)).toBe(false);
+    });
+
+    it('should honor namespace modes and child overrides', () => {
+      LogEngine.configure({ namespaceModes: { 'db:*': LogMode.DEBUG } });
+
+      expect(LogEngine.namespace('db:pool').isLevelEnabled('debug')).toBe(true);
+      expect(LogEngine.namespace('http').isLevelEnabled('debug')).toBe(false);
+      expect(LogEngine.child({}, { mode: LogMode.ERROR }).isLevelEnabled('warn')).toBe(false);
+    });
+
+    it('should throw for unknown levels', () => {
+      expect(() => LogEngine.isLevelEnabled('verbose')).toThrow('Unknown log level');
+    });
+  });
+});
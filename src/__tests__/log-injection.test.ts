@@ -0,0 +1,121 @@
+/**
+ * Tests for log injection protection
+ * Verifies escaping of newlines, ANSI codes and control characters in text lines, templates, pretty data and files
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogEngine, LogMode, LogRecord, SanitizeConfig, TextSanitizer } from '../index';
+import { MessageFormatter } from '../formatter';
+import { createRecord } from './test-utils';
+
+describe('Log injection protection', () => {
+  let testDir: string;
+  let consoleSpy: jest.SpyInstance;
+
+  const sanitize = (text: string, options?: SanitizeConfig): string => TextSanitizer.sanitize(text, TextSanitizer.resolveOptions(options));
+
+  const format = (message: string, options?: boolean | SanitizeConfig): string =>
+    MessageFormatter.formatRecord(createRecord({ message }), { includeIsoTimestamp: false, includeLocalTime: false, includeEmoji: false, sanitize: options });
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-engine-injection-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+    LogEngine.configure({ mode: LogMode.DEBUG });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, format: undefined, enhancedOutputs: undefined });
+    jest.restoreAllMocks();
+  });
+
+  it('should escape newlines that would forge log lines', () => {
+    LogEngine.info('Login failed for admin\n[2025-06-01T12:00:00.000Z][ERROR]: Database dropped');
+
+    const line = consoleSpy.mock.calls[0][0] as string;
+    expect(line.split('\n')).toHaveLength(1);
+    expect(line).toContain('Login failed for admin\\n[2025-06-01T12:00:00.000Z][ERROR]: Database dropped');
+    expect(sanitize('a\r\nb\rc\u2028d')).toBe('a\\r\\nb\\rc\\u2028d');
+  });
+
+  it('should escape ANSI codes and other control characters', () => {
+    expect(sanitize('\x1b[31mred\x1b[0m \x1b]8;;https://evil.test\x07link')).toBe('\\x1b[31mred\\x1b[0m \\x1b]8;;https://evil.test\\x07link');
+    expect(sanitize('bell\x07 back\x08 nul\x00 del\x7f csi\x9b2J tab\tok')).toBe('bell\\x07 back\\x08 nul\\x00 del\\x7f csi\\x9b2J tab\tok');
+    expect(sanitize('plain text')).toBe('plain text');
+  });
+
+  it('should strip or keep each kind of character when configured', () => {
+    expect(sanitize('a\nb \x1b[31mred\x1b[0m\x07', { newlines: 'strip', ansi: 'strip', controlChars: 'strip' }))
+      .toBe('a b red');
+    expect(format('a\nb \x1b[31mred', { ansi: 'keep' })).toContain('a\\nb \x1b[31mred');
+    expect(format('a\nb', false)).toContain('a\nb');
+  });
+
+  it('should sanitize string data and serialized data', () => {
+    LogEngine.info('Order placed', 'note\nforged line');
+    LogEngine.info('Order placed', { note: 'gift\u2028wrap', code: '\x9b2J' });
+
+    expect(consoleSpy.mock.calls[0][0]).toContain('note\\nforged line');
+    expect(consoleSpy.mock.calls[1][0]).toContain('{"note":"gift\\u2028wrap","code":"\\x9b2J"}');
+  });
+
+  it('should let a single call opt out', () => {
+    LogEngine.info('Progress\n  step 1 done', undefined, { sanitize: false });
+    LogEngine.info('Progress\n  step 2 done');
+
+    expect(consoleSpy.mock.calls[0][0]).toContain('Progress\n  step 1 done');
+    expect(consoleSpy.mock.calls[1][0]).toContain('Progress\\n  step 2 done');
+  });
+
+  it('should sanitize template tokens and pretty data', () => {
+    LogEngine.configure({ format: { template: '{level} {message} {data}' } });
+    LogEngine.info('Login\nfailed', { note: 'x\x1by' });
+    LogEngine.configure({ format: { prettyData: true } });
+    LogEngine.info('Login\nfailed', { 'bad\u2028key': 'x\x9by', html: 'a\nb' });
+
+    expect(consoleSpy.mock.calls[0][0]).toBe('INFO Login\\nfailed {"note":"x\\u001by"}');
+    expect(consoleSpy.mock.calls[1][0]).toContain('Login\\nfailed { \'bad\\u2028key\': \'x\\x9by\', html: \'a\\nb\' }');
+  });
+
+  it('should sanitize custom tokens, namespaces and emoji', () => {
+    const tokens = { user: (outputRecord: LogRecord): unknown => outputRecord.context?.user };
+    LogEngine.configure({ format: { template: '[{user}] {namespace} {emoji} {message}', tokens } });
+
+    LogEngine.runWithContext({ user: 'bob\n[ERROR] forged' }, () => {
+      LogEngine.namespace('db\x1b[8m').info('Login', undefined, { emoji: '\x1b[2J' });
+    });
+    LogEngine.configure({ format: undefined });
+    LogEngine.namespace('db\x1b[8m').info('Login', undefined, { emoji: '\x1b[2J' });
+
+    expect(consoleSpy.mock.calls[0][0]).toBe('[bob\\n[ERROR] forged] db\\x1b[8m \\x1b[2J Login');
+    expect(consoleSpy.mock.calls[1][0]).toContain('[INFO][\\x1b[2J][db\\x1b[8m]: Login');
+  });
+
+  it('should sanitize the default file format', () => {
+    const filePath = path.join(testDir, 'app.log');
+    LogEngine.configure({ enhancedOutputs: [{ type: 'file', config: { filePath } }] });
+
+    LogEngine.info('Login failed\n2025-06-01T12:00:00.000Z [ERROR] Database dropped', { note: 'a\u2029b' });
+
+    const lines = fs.readFileSync(filePath, 'utf8').trimEnd().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toContain('Login failed\\n2025-06-01T12:00:00.000Z [ERROR] Database dropped {"note":"a\\u2029b"}');
+  });
+
+  it('should reject invalid sanitize options', () => {
+    const configure = (sanitize: unknown): void => LogEngine.configure({ format: { sanitize: sanitize as SanitizeConfig } });
+
+    expect(() => configure('yes')).toThrow('format.sanitize must be a boolean or an object.');
+    expect(() => configure({ tabs: 'strip' })).toThrow('Unknown sanitize option: "tabs"');
+    expect(() => configure({ ansi: 'remove' })).toThrow('Invalid sanitize action for ansi: "remove"');
+    expect(() => configure({ newlines: 'keep', ansi: 'strip' })).not.toThrow();
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for the structured LogRecord pipeline
+ * Verifies record fields, shared timestamps across outputs, and legacy handler compatibility
+ */
+
+import { LogEngine, LogMode, LogLevel, LogRecord } from '../index';
+
+describe('LogRecord pipeline', () => {
+  const records: LogRecord[] = [];
+  const recordHandler = jest.fn((record: LogRecord) => {
+    records.push(record);
+  });
+  const legacyHandler = jest.fn();
+
+  beforeEach(() => {
+    records.length = 0;
+    recordHandler.mockClear();
+    legacyHandler.mockClear();
+    LogEngine.configure({
+      mode: LogMode.DEBUG,
+      outputs: [{ type: 'record', handler: recordHandler }, legacyHandler]
+    });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      outputs: undefined
+    });
+  });
+
+  it('should pass a structured record to record handlers', () => {
+    LogEngine.warn('Disk almost full', { usage: 91 }, { source: 'monitor' });
+
+    expect(records).toHaveLength(1);
+    const record = records[0];
+    expect(record.timestamp).toBeInstanceOf(Date);
+    expect(record.level).toBe(LogLevel.WARN);
+    expect(record.levelName).toBe('warn');
+    expect(record.message).toBe('Disk almost full');
+    expect(record.data).toEqual({ usage: 91 });
+    expect(record.source).toBe('monitor');
+    expect(typeof record.emoji).toBe('string');
+    expect(record.context).toBeUndefined();
+  });
+
+  it('should keep context separate from call data', () => {
+    const child = LogEngine.child({ service: 'billing' });
+
+    LogEngine.runWithContext({ requestId: 'req-1' }, () => {
+      child.info('Charged', { amount: 10 });
+    });
+
+    expect(records[0].context).toEqual({ requestId: 'req-1', service: 'billing' });
+    expect(records[0].data).toEqual({ amount: 10 });
+    expect(legacyHandler).toHaveBeenCalledWith('info', expect.any(String), {
+      requestId: 'req-1',
+      service: 'billing',
+      amount: 10
+    });
+  });
+
+  it('should extract errors from the log data of raw calls', () => {
+    const direct = new Error('direct');
+    const nested = new Error('nested');
+
+    LogEngine.errorRaw('Direct failure', direct);
+    LogEngine.errorRaw('Nested failure', { err: nested, attempt: 2 });
+    LogEngine.errorRaw('No error', { attempt: 3 });
+    LogEngine.error('Redacted failure', { err: Object.assign(new Error('denied'), { password: 'hunter2' }) });
+
+    expect(records[0].error).toBe(direct);
+    expect(records[1].error).toBe(nested);
+    expect(records[2].error).toBeUndefined();
+    expect(records[3].error).toBeUndefined();
+    expect(records[3].data.err.password).toBe('[REDACTED]');
+  });
+
+  it('should redact record data and context', () => {
+    LogEngine.runWithContext({ sessionId: 'abc' }, () => {
+      LogEngine.info('Login', { password: 'secret123' });
+    });
+
+    expect(records[0].data).toEqual({ password: '[REDACTED]' });
+    expect(records[0].context).toEqual({ sessionId: '[REDACTED]' });
+  });
+
+  it('should share one timestamp between the formatted line and all outputs', () => {
+    const second = jest.fn();
+    LogEngine.configure({
+      outputs: [{ type: 'record', handler: recordHandler }, { type: 'record', handler: second }, legacyHandler]
+    });
+
+    LogEngine.info('Same instant');
+
+    const record = records[0];
+    expect(second.mock.calls[0][0]).toBe(record);
+    expect(legacyHandler.mock.calls[0][1]).toContain(record.timestamp.toISOString());
+  });
+
+  it('should use the emoji override and honor includeEmoji', () => {
+    LogEngine.info('Custom', undefined, { emoji: '🧪' });
+    expect(records[0].emoji).toBe('🧪');
+
+    LogEngine.configure({ format: { includeEmoji: false } });
+    LogEngine.info('No emoji', undefined, { emoji: '🧪' });
+    expect(records[1].emoji).toBe('');
+    LogEngine.configure({ format: { includeEmoji: true } });
+  });
+
+  it('should accept record handlers in enhanced outputs', () => {
+    LogEngine.configure({
+      outputs: undefined,
+      enhancedOutputs: [{ type: 'record', handler: recordHandler }]
+    });
+
+    LogEngine.debug('Enhanced record');
+    LogEngine.configure({ enhancedOutputs: undefined });
+
+    expect(records[0].message).toBe('Enhanced record');
+  });
+
+  it('should continue with other outputs when a record handler throws', () => {
+    const failing = jest.fn(() => {
+      throw new Error('boom');
+    });
+    LogEngine.configure({
+      outputs: [{ type: 'record', handler: failing }, legacyHandler]
+    });
+
+    LogEngine.info('Still delivered');
+
+    expect(legacyHandler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for namespace-scoped log modes
+ * Verifies named loggers, wildcard resolution, LOG_NAMESPACES parsing and namespace output
+ */
+
+import { LogEngine, LogMode, LogRecord } from '../index';
+import { NamespaceFilter } from '../logger';
+import { stripAnsi } from './test-utils';
+
+describe('Namespaces', () => {
+  const mockOutputHandler = jest.fn();
+  const originalEnv = process.env.LOG_NAMESPACES;
+
+  beforeEach(() => {
+    mockOutputHandler.mockClear();
+    delete process.env.LOG_NAMESPACES;
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      namespaceModes: undefined,
+      outputHandler: mockOutputHandler,
+      suppressConsoleOutput: true
+    });
+  });
+
+  afterEach(() => {
+    if (originalEnv === undefined) {
+      delete process.env.LOG_NAMESPACES;
+    } else {
+      process.env.LOG_NAMESPACES = originalEnv;
+    }
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      namespaceModes: undefined,
+      outputHandler: undefined,
+      suppressConsoleOutput: false
+    });
+  });
+
+  const loggedMessages = (): string[] => mockOutputHandler.mock.calls.map(call => stripAnsi(call[1]).split(': ').pop() as string);
+
+  it('should apply the most specific namespace mode', () => {
+    LogEngine.configure({
+      namespaceModes: { 'db:*': LogMode.DEBUG, 'db:pool:*': LogMode.ERROR, '*': LogMode.WARN }
+    });
+
+    LogEngine.namespace('db:query').debug('query debug');
+    LogEngine.namespace('db:pool:conn').warn('pool warn');
+    LogEngine.namespace('db:pool:conn').error('pool error');
+    LogEngine.namespace('http').info('http info');
+    LogEngine.namespace('http').warn('http warn');
+    LogEngine.info('root info');
+    LogEngine.warn('root warn');
+
+    expect(loggedMessages()).toEqual(['query debug', 'pool error', 'http warn', 'root warn']);
+  });
+
+  it('should prefer exact patterns over wildcards', () => {
+    LogEngine.configure({ namespaceModes: { 'db:*': LogMode.ERROR, 'db:migrations': LogMode.DEBUG } });
+
+    LogEngine.namespace('db:migrations').debug('migration debug');
+    LogEngine.namespace('db:query').warn('query warn');
+
+    expect(loggedMessages()).toEqual(['migration debug']);
+  });
+
+  it('should fall back to the configured mode when no pattern matches', () => {
+    LogEngine.configure({ namespaceModes: { 'db:*': LogMode.DEBUG } });
+
+    LogEngine.namespace('http').debug('hidden');
+    LogEngine.namespace('http').info('shown');
+    LogEngine.debug('root hidden');
+
+    expect(loggedMessages()).toEqual(['shown']);
+  });
+
+  it('should nest namespaces', () => {
+    LogEngine.configure({ namespaceModes: { 'db:pool': LogMode.DEBUG } });
+
+    LogEngine.namespace('db').namespace('pool').debug('nested');
+
+    expect(mockOutputHandler.mock.calls[0][1]).toContain('[db:pool]');
+  });
+
+  it('should keep the namespace on children and let child mode overrides win', () => {
+    LogEngine.configure({ namespaceModes: { 'db': LogMode.ERROR } });
+    const db = LogEngine.namespace('db');
+
+    db.child({ requestId: 'r1' }).warn('filtered');
+    db.child({}, { mode: LogMode.DEBUG }).debug('override');
+
+    expect(loggedMessages()).toEqual(['override']);
+    expect(mockOutputHandler.mock.calls[0][1]).toContain('[db]');
+  });
+
+  it('should pass the namespace to record handlers', () => {
+    const handler = jest.fn();
+    LogEngine.configure({ outputs: [{ type: 'record', handler }] });
+
+    LogEngine.namespace('cache').info('hit');
+    LogEngine.info('root');
+    LogEngine.configure({ outputs: undefined });
+
+    const records: LogRecord[] = handler.mock.calls.map(call => call[0]);
+    expect(records[0].namespace).toBe('cache');
+    expect(records[1].namespace).toBeUndefined();
+  });
+
+  it('should omit the namespace from output when includeNamespace is false', () => {
+    LogEngine.configure({ format: { includeNamespace: false } });
+
+    LogEngine.namespace('cache').info('hit');
+    LogEngine.configure({ format: undefined });
+
+    expect(mockOutputHandler.mock.calls[0][1]).not.toContain('[cache]');
+  });
+
+  it('should read namespace modes from LOG_NAMESPACES with precedence over config', () => {
+    process.env.LOG_NAMESPACES = 'db:*=debug, -noisy:* *=error';
+    LogEngine.configure({ namespaceModes: { 'db:*': LogMode.ERROR, 'noisy:*': LogMode.DEBUG } });
+
+    LogEngine.namespace('db:query').debug('db debug');
+    LogEngine.namespace('noisy:poller').error('noisy error');
+    LogEngine.warn('root warn');
+    LogEngine.error('root error');
+
+    expect(loggedMessages()).toEqual(['db debug', 'root error']);
+  });
+
+  it('should reject invalid namespaces and modes', () => {
+    expect(() => LogEngine.namespace('')).toThrow('Invalid logger namespace');
+    expect(() => LogEngine.namespace('db:*')).toThrow('Invalid logger namespace');
+    expect(() => LogEngine.configure({ namespaceModes: { 'db:*': 'verbose' } })).toThrow('Unknown log mode for namespace');
+  });
+
+  describe('NamespaceFilter.getEnvironmentModes', () => {
+    it('should parse bare, negated and explicit entries', () => {
+      expect(NamespaceFilter.getEnvironmentModes('db:*,http=warn -noisy silent=silent')).toEqual({
+        'db:*': LogMode.DEBUG,
+        http: LogMode.WARN,
+        noisy: LogMode.OFF,
+        silent: LogMode.SILENT
+      });
+    });
+
+    it('should ignore invalid entries', () => {
+      expect(NamespaceFilter.getEnvironmentModes('db=verbose,=warn,-,,')).toEqual({});
+      expect(NamespaceFilter.getEnvironmentModes(undefined)).toEqual({});
+    });
+  });
+});
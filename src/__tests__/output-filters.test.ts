@@ -0,0 +1,147 @@
+/**
+ * Tests for per-output minimum levels and filters
+ * Verifies minLevel, mode and filter on enhanced output objects, and their validation
+ */
+
+import { LogEngine, LogMode, LogLevel, LogRecord } from '../index';
+
+describe('Per-output filters', () => {
+  const levelsOf = (handler: jest.Mock): string[] => handler.mock.calls.map(call => (call[0] as LogRecord).levelName);
+
+  beforeEach(() => {
+    LogEngine.configure({ mode: LogMode.DEBUG, suppressConsoleOutput: true });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, outputs: undefined, enhancedOutputs: undefined, suppressConsoleOutput: false });
+    jest.restoreAllMocks();
+  });
+
+  const logAllLevels = (): void => {
+    LogEngine.debug('debug');
+    LogEngine.info('info');
+    LogEngine.warn('warn');
+    LogEngine.error('error');
+    LogEngine.log('log');
+  };
+
+  it('should send each output only the levels it asks for', () => {
+    const remote = jest.fn();
+    const local = jest.fn();
+    const everything = jest.fn();
+    LogEngine.configure({
+      enhancedOutputs: [
+        { type: 'record', handler: remote, minLevel: LogLevel.ERROR },
+        { type: 'record', handler: local, minLevel: 'debug' },
+        { type: 'record', handler: everything }
+      ]
+    });
+
+    logAllLevels();
+
+    expect(levelsOf(remote)).toEqual(['error', 'log']);
+    expect(levelsOf(local)).toEqual(['debug', 'info', 'warn', 'error', 'log']);
+    expect(levelsOf(everything)).toEqual(['debug', 'info', 'warn', 'error', 'log']);
+  });
+
+  it('should never widen the logger mode', () => {
+    const handler = jest.fn();
+    LogEngine.configure({ mode: LogMode.WARN, enhancedOutputs: [{ type: 'record', handler, minLevel: LogLevel.DEBUG }] });
+
+    logAllLevels();
+
+    expect(levelsOf(handler)).toEqual(['warn', 'error', 'log']);
+  });
+
+  it('should apply a per-output mode', () => {
+    const silent = jest.fn();
+    const off = jest.fn();
+    LogEngine.configure({
+      enhancedOutputs: [
+        { type: 'record', handler: silent, mode: LogMode.SILENT },
+        { type: 'record', handler: off, mode: LogMode.OFF }
+      ]
+    });
+
+    logAllLevels();
+
+    expect(levelsOf(silent)).toEqual(['log']);
+    expect(off).not.toHaveBeenCalled();
+  });
+
+  it('should accept custom level names', () => {
+    LogEngine.registerLevel({ name: 'audit', severity: 2.5 });
+    const handler = jest.fn();
+    LogEngine.configure({ enhancedOutputs: [{ type: 'record', handler, minLevel: 'audit' }] });
+
+    LogEngine.warn('warn');
+    LogEngine.logAt('audit', 'audit');
+    LogEngine.error('error');
+
+    expect(levelsOf(handler)).toEqual(['audit', 'error']);
+  });
+
+  it('should apply a record predicate after the level check', () => {
+    const handler = jest.fn();
+    const filter = jest.fn((record: LogRecord) => record.namespace === 'payments');
+    LogEngine.configure({ enhancedOutputs: [{ type: 'record', handler, minLevel: LogLevel.INFO, filter }] });
+
+    LogEngine.namespace('payments').debug('skipped by level');
+    LogEngine.namespace('payments').info('kept');
+    LogEngine.namespace('auth').info('skipped by filter');
+
+    expect(handler.mock.calls.map(call => call[0].message)).toEqual(['kept']);
+    expect(filter).toHaveBeenCalledTimes(2);
+  });
+
+  it('should support filters on console output objects', () => {
+    const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    LogEngine.configure({ enhancedOutputs: [{ type: 'console', minLevel: LogLevel.INFO }] });
+
+    LogEngine.debug('hidden');
+    LogEngine.info('shown');
+    LogEngine.error('failed');
+
+    expect(consoleLog).toHaveBeenCalledTimes(1);
+    expect(consoleLog.mock.calls[0][0]).toContain('shown');
+    expect(consoleError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should filter before rate limiting', () => {
+    const handler = jest.fn();
+    LogEngine.configure({
+      enhancedOutputs: [{ type: 'record', handler, minLevel: LogLevel.ERROR, rateLimit: { windowMs: 60000 } }]
+    });
+
+    LogEngine.info('same');
+    LogEngine.error('same');
+
+    expect(levelsOf(handler)).toEqual(['error']);
+  });
+
+  it('should keep other outputs running when a filter throws', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = jest.fn();
+    const failing = jest.fn(() => {
+      throw new Error('bad filter');
+    });
+    LogEngine.configure({
+      enhancedOutputs: [
+        { type: 'record', handler: jest.fn(), filter: failing },
+        { type: 'record', handler }
+      ]
+    });
+
+    LogEngine.info('still logged');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('bad filter'));
+  });
+
+  it('should reject unknown levels and modes', () => {
+    const handler = jest.fn();
+    expect(() => LogEngine.configure({ enhancedOutputs: [{ type: 'record', handler, minLevel: 'verbose' }] })).toThrow('Unknown output minLevel');
+    expect(() => LogEngine.configure({ outputs: [{ type: 'record', handler, mode: 'verbose' }] })).toThrow('Unknown output mode');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for per-output formats
+ * Verifies pretty, JSON and logfmt lines and custom format functions on console, file and HTTP outputs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogEngine, LogMode, LogRecord, StructuredFormatter } from '../index';
+import { createRecord } from './test-utils';
+
+describe('Output formats', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let consoleLog: jest.SpyInstance;
+  let testDir: string;
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-engine-formats-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.fn(() => Promise.resolve({ ok: true }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    LogEngine.configure({ mode: LogMode.DEBUG, suppressConsoleOutput: true });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, outputs: undefined, enhancedOutputs: undefined, suppressConsoleOutput: false, format: undefined });
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  describe('StructuredFormatter', () => {
+    it('should format a record as one JSON object', () => {
+      const line = StructuredFormatter.toJSON(createRecord({ message: 'User signed in', namespace: 'auth', context: { requestId: 'r1' }, data: { userId: 7 } }));
+
+      expect(JSON.parse(line)).toEqual({
+        timestamp: '2025-06-01T12:00:00.000Z',
+        level: 'info',
+        message: 'User signed in',
+        namespace: 'auth',
+        context: { requestId: 'r1' },
+        data: { userId: 7 }
+      });
+      expect(line).not.toContain('\n');
+    });
+
+    it('should escape newlines and ANSI codes in JSON lines', () => {
+      const line = StructuredFormatter.toJSON(createRecord({ message: 'line one\nline two \u001b[31mred' }));
+
+      expect(line).not.toContain('\n');
+      expect(line).not.toContain('\u001b');
+      expect(JSON.parse(line).message).toBe('line one\nline two \u001b[31mred');
+    });
+
+    it('should serialize errors and mark circular data in JSON lines', () => {
+      const error = new Error('boom');
+      expect(JSON.parse(StructuredFormatter.toJSON(createRecord({ data: { error } }))).data.error).toMatchObject({ name: 'Error', message: 'boom', stack: error.stack });
+
+      const circular: Record<string, unknown> = { id: 1 };
+      circular.self = circular;
+      expect(JSON.parse(StructuredFormatter.toJSON(createRecord({ data: circular }))).data).toEqual({ id: 1, self: '[Circular]' });
+    });
+
+    it('should format a record as logfmt with flattened, quoted values', () => {
+      const line = StructuredFormatter.toLogfmt(createRecord({
+        message: 'User signed in',
+        namespace: 'auth',
+        context: { requestId: 'r1' },
+        data: { user: { id: 7, name: 'Jane Doe' }, tags: ['a', 'b'], note: '', ok: true, missing: undefined, nothing: null }
+      }));
+
+      expect(line).toBe(
+        'timestamp=2025-06-01T12:00:00.000Z level=info message="User signed in" namespace=auth ' +
+        'requestId=r1 user.id=7 user.name="Jane Doe" tags="[\\"a\\",\\"b\\"]" note="" ok=true nothing=null'
+      );
+    });
+
+    it('should keep logfmt lines on one line and guard against circular data', () => {
+      const circular: Record<string, unknown> = { id: 1 };
+      circular.self = circular;
+      const line = StructuredFormatter.toLogfmt(createRecord({ message: 'a\nb', data: circular }));
+
+      expect(line).toBe('timestamp=2025-06-01T12:00:00.000Z level=info message="a\\nb" id=1 self="[Circular]"');
+      expect(StructuredFormatter.toLogfmt(createRecord({ data: 'plain text' }))).toContain('data="plain text"');
+    });
+  });
+
+  it('should write JSON and logfmt lines to console outputs without colors', () => {
+    LogEngine.configure({
+      enhancedOutputs: [{ type: 'console', format: 'json' }, { type: 'console', format: 'logfmt' }]
+    });
+
+    LogEngine.namespace('auth').info('User signed in', { attempts: 3 });
+
+    expect(consoleLog).toHaveBeenCalledTimes(2);
+    const [jsonCall, logfmtCall] = consoleLog.mock.calls;
+    expect(jsonCall).toHaveLength(1);
+    expect(JSON.parse(jsonCall[0])).toMatchObject({ level: 'info', message: 'User signed in', namespace: 'auth', data: { attempts: 3 } });
+    expect(logfmtCall[0]).toMatch(/^timestamp=\S+ level=info message="User signed in" namespace=auth attempts=3$/);
+    expect(consoleLog.mock.calls.flat().join('')).not.toContain('\u001b');
+  });
+
+  it('should keep the colorized line for pretty console outputs', () => {
+    LogEngine.configure({ format: { colors: 'always' }, enhancedOutputs: [{ type: 'console', format: 'pretty' }] });
+
+    LogEngine.info('pretty line');
+
+    expect(consoleLog.mock.calls[0][0]).toContain('\u001b[');
+    expect(consoleLog.mock.calls[0][0]).toContain('pretty line');
+  });
+
+  it('should call custom format functions with the record', () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const format = jest.fn((outputRecord: LogRecord) => `${outputRecord.levelName.toUpperCase()} ${outputRecord.message}`);
+    LogEngine.configure({ enhancedOutputs: [{ type: 'console', format }] });
+
+    LogEngine.warn('disk almost full');
+
+    expect(format).toHaveBeenCalledWith(expect.objectContaining({ message: 'disk almost full' }));
+    expect(consoleWarn).toHaveBeenCalledWith('WARN disk almost full');
+  });
+
+  it('should write the same record in a different format to each output', () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const filePath = path.join(testDir, 'app.ndjson');
+    LogEngine.configure({
+      format: { colors: 'always' },
+      enhancedOutputs: [
+        { type: 'console' },
+        { type: 'file', config: { filePath }, format: 'json' },
+        { type: 'console', format: (outputRecord: LogRecord) => `custom:${outputRecord.message}` }
+      ]
+    });
+
+    LogEngine.warn('Cache miss', { key: 'user:7' });
+    LogEngine.warn('Cache hit');
+
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('');
+    expect(JSON.parse(lines[0])).toMatchObject({ level: 'warn', message: 'Cache miss', data: { key: 'user:7' } });
+    expect(JSON.parse(lines[1])).toMatchObject({ level: 'warn', message: 'Cache hit' });
+
+    expect(consoleWarn.mock.calls[0][0]).toContain('\u001b[');
+    expect(consoleWarn.mock.calls[1]).toEqual(['custom:Cache miss']);
+  });
+
+  it('should replace the file formatter when a format is set', () => {
+    const filePath = path.join(testDir, 'app.log');
+    const formatter = jest.fn(() => 'formatter line\n');
+    LogEngine.configure({ enhancedOutputs: [{ type: 'file', config: { filePath, formatter }, format: 'logfmt' }] });
+
+    LogEngine.info('to file');
+
+    expect(formatter).not.toHaveBeenCalled();
+    expect(fs.readFileSync(filePath, 'utf8')).toMatch(/^timestamp=\S+ level=info message="to file"\n$/);
+  });
+
+  it('should send newline-delimited lines to HTTP outputs', () => {
+    LogEngine.configure({
+      enhancedOutputs: [{ type: 'http', config: { url: 'https://logs.example.com/ingest', batchSize: 2 }, format: 'json' }]
+    });
+
+    LogEngine.info('first');
+    LogEngine.info('second');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [, request] = fetchMock.mock.calls[0];
+    expect(request.headers).toEqual({ 'Content-Type': 'application/x-ndjson' });
+    const lines = request.body.trimEnd().split('\n').map((line: string) => JSON.parse(line).message);
+    expect(lines).toEqual(['first', 'second']);
+  });
+
+  it('should keep custom HTTP headers and the JSON payload of unformatted HTTP outputs', () => {
+    LogEngine.configure({
+      enhancedOutputs: [
+        { type: 'http', config: { url: 'https://logs.example.com/text', headers: { 'Content-Type': 'text/x-logfmt' } }, format: 'logfmt' },
+        { type: 'http', config: { url: 'https://logs.example.com/json' } },
+        { type: 'http', config: { url: 'https://logs.example.com/lines', headers: { Authorization: 'Bearer token' } }, format: 'json' }
+      ]
+    });
+
+    LogEngine.info('shipped');
+
+    const [[, textRequest], [, jsonRequest], [, lineRequest]] = fetchMock.mock.calls;
+    expect(textRequest.headers).toEqual({ 'Content-Type': 'text/x-logfmt' });
+    expect(lineRequest.headers).toEqual({ 'Content-Type': 'application/x-ndjson', Authorization: 'Bearer token' });
+    expect(textRequest.body).toMatch(/^timestamp=\S+ level=info message=shipped\n$/);
+    expect(JSON.parse(jsonRequest.body).logs[0]).toMatchObject({ level: 'info', message: 'shipped' });
+  });
+
+  it('should format rate limit summaries like other records', () => {
+    jest.useFakeTimers();
+    try {
+      LogEngine.configure({ enhancedOutputs: [{ type: 'console', format: 'json', rateLimit: { windowMs: 1000 } }] });
+
+      LogEngine.info('retrying');
+      LogEngine.info('retrying');
+      jest.advanceTimersByTime(1000);
+
+      expect(consoleLog.mock.calls.map(call => JSON.parse(call[0]).message)).toEqual(['retrying', 'retrying (repeated 1 times in 1s)']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => LogEngine.configure({
+      enhancedOutputs: [{ type: 'console', format: 'xml' as 'json' }]
+    })).toThrow('Unknown output format: "xml"');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for the output handler registry
+ * Verifies that file/HTTP handlers are created once per configured output and destroyed when replaced
+ */
+
+import { LogEngine, LogMode, HttpOutputConfig } from '../index';
+import * as advancedOutputs from '../logger/advanced-outputs';
+import { sentMessages } from './test-utils';
+
+describe('Output handler registry', () => {
+  let fetchMock: jest.Mock;
+  let createSpy: jest.SpyInstance;
+  const destroyed: string[] = [];
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    destroyed.length = 0;
+    fetchMock = jest.fn().mockResolvedValue({ ok: true });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const create = advancedOutputs.createRecordOutput;
+    createSpy = jest.spyOn(advancedOutputs, 'createRecordOutput').mockImplementation((type, config) => {
+      const output = create(type, config);
+      if (!output) {
+        return output;
+      }
+      return {
+        handler: output.handler,
+        destroy: (): void => {
+          destroyed.push(String(config?.url ?? config?.filePath));
+          output.destroy?.();
+        }
+      };
+    });
+
+    LogEngine.configure({ mode: LogMode.DEBUG, suppressConsoleOutput: true });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      outputs: undefined,
+      enhancedOutputs: undefined,
+      advancedOutputConfig: undefined,
+      suppressConsoleOutput: false
+    });
+    createSpy.mockRestore();
+    global.fetch = originalFetch;
+    jest.useRealTimers();
+  });
+
+  it('should create an enhanced HTTP output once and batch across calls', () => {
+    const http: HttpOutputConfig = { url: 'https://logs.example.com/a', batchSize: 3 };
+    LogEngine.configure({ enhancedOutputs: [{ type: 'http', config: http }] });
+
+    LogEngine.info('one');
+    LogEngine.info('two');
+    LogEngine.info('three');
+    LogEngine.info('four');
+
+    expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(sentMessages(fetchMock)).toEqual([['one', 'two', 'three']]);
+
+    // The remainder is flushed by the handler's timer
+    jest.advanceTimersByTime(1000);
+    expect(sentMessages(fetchMock)).toEqual([['one', 'two', 'three'], ['four']]);
+  });
+
+  it('should reuse the handler configured through advancedOutputConfig', () => {
+    LogEngine.configure({
+      outputs: ['http'],
+      advancedOutputConfig: { http: { url: 'https://logs.example.com/b', batchSize: 2 } }
+    });
+
+    LogEngine.info('one');
+    LogEngine.warn('two');
+
+    expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(sentMessages(fetchMock)).toEqual([['one', 'two']]);
+  });
+
+  it('should keep outputs that are still configured', () => {
+    const output = { type: 'http' as const, config: { url: 'https://logs.example.com/c', batchSize: 10 } };
+    LogEngine.configure({ enhancedOutputs: [output] });
+
+    LogEngine.info('before');
+    LogEngine.configure({ mode: LogMode.INFO });
+    LogEngine.info('after');
+
+    expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(destroyed).toEqual([]);
+  });
+
+  it('should destroy replaced handlers and flush their buffers', () => {
+    LogEngine.configure({ enhancedOutputs: [{ type: 'http', config: { url: 'https://logs.example.com/old', batchSize: 10 } }] });
+    LogEngine.info('buffered');
+
+    LogEngine.configure({ enhancedOutputs: [{ type: 'http', config: { url: 'https://logs.example.com/new', batchSize: 10 } }] });
+
+    expect(destroyed).toEqual(['https://logs.example.com/old']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://logs.example.com/old');
+    expect(sentMessages(fetchMock)).toEqual([['buffered']]);
+  });
+
+  it('should share handlers with child loggers', () => {
+    LogEngine.configure({ enhancedOutputs: [{ type: 'http', config: { url: 'https://logs.example.com/d', batchSize: 2 } }] });
+
+    LogEngine.info('parent');
+    LogEngine.child({ requestId: 'r1' }).info('child');
+
+    expect(createSpy).toHaveBeenCalledTimes(1);
+    expect(sentMessages(fetchMock)).toEqual([['parent', 'child']]);
+  });
+
+  it('should flush per-output rate limit summaries when the output is removed', () => {
+    const handler = jest.fn();
+    LogEngine.configure({ outputs: [{ type: 'record', handler, rateLimit: { windowMs: 60000 } }] });
+
+    LogEngine.info('repeat');
+    LogEngine.info('repeat');
+    LogEngine.configure({ outputs: undefined });
+
+    expect(handler.mock.calls.map(call => call[0].message)).toEqual(['repeat', 'repeat (repeated 1 times in 60s)']);
+  });
+});
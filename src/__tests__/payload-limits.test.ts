@@ -0,0 +1,121 @@
+/**
+ * Tests for payload size budgets
+ * Verifies string, array, key and depth limits, the byte budget, truncation metadata and validation
+ */
+
+import { LogEngine, LogMode, LogRecord, PayloadLimits, StructuredFormatter } from '../index';
+import { PayloadLimiter } from '../logger';
+
+describe('Payload limits', () => {
+  const records: LogRecord[] = [];
+  const recordHandler = jest.fn((record: LogRecord) => {
+    records.push(record);
+  });
+  const lineHandler = jest.fn();
+
+  const logWith = (limits: PayloadLimits, message: string, data?: unknown): LogRecord => {
+    LogEngine.configure({ limits });
+    LogEngine.info(message, data);
+    return records[records.length - 1];
+  };
+
+  beforeEach(() => {
+    records.length = 0;
+    recordHandler.mockClear();
+    lineHandler.mockClear();
+    LogEngine.configure({ mode: LogMode.DEBUG, outputs: [{ type: 'record', handler: recordHandler }, lineHandler] });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, outputs: undefined, limits: undefined });
+  });
+
+  it('should leave records alone without limits or when they fit', () => {
+    LogEngine.info('Order placed', { sku: 'X1' });
+    const fitting = logWith({ maxBytes: 1000, maxStringLength: 50 }, 'Order placed', { sku: 'X1' });
+
+    expect(records[0].truncated).toBeUndefined();
+    expect(fitting.data).toEqual({ sku: 'X1' });
+    expect(fitting.truncated).toBeUndefined();
+  });
+
+  it('should cut long strings, including the message', () => {
+    const record = logWith({ maxStringLength: 5 }, 'Order placed', { note: 'fragile, handle with care', sku: 'X1' });
+
+    expect(record.message).toBe('Order...[7 more characters]');
+    expect(record.data).toEqual({ note: 'fragi...[20 more characters]', sku: 'X1' });
+    expect(record.truncated).toEqual({ paths: ['message', 'data.note'] });
+  });
+
+  it('should cut long arrays, Sets and Maps with a count of the removed items', () => {
+    const record = logWith({ maxArrayLength: 2 }, 'Batch', {
+      items: [1, 2, 3, 4, 5],
+      tags: new Set(['a', 'b', 'c']),
+      totals: new Map([['eur', 1], ['usd', 2], ['gbp', 3]])
+    });
+
+    expect(record.data.items).toEqual([1, 2, '[3 more items]']);
+    expect(Array.from(record.data.tags)).toEqual(['a', 'b', '[1 more items]']);
+    expect(Array.from(record.data.totals)).toEqual([['eur', 1], ['usd', 2], ['...', '[1 more entries]']]);
+    expect(record.truncated?.paths).toEqual(['data.items', 'data.tags', 'data.totals']);
+  });
+
+  it('should cut objects with too many keys and nesting that is too deep', () => {
+    const record = logWith({ maxKeys: 2, maxDepth: 2 }, 'Order placed', {
+      order: { id: 'A-1', customer: { address: { city: 'Berlin' } } },
+      sku: 'X1',
+      qty: 2
+    });
+
+    expect(record.data).toEqual({
+      order: { id: 'A-1', customer: '[Max Depth Exceeded]' },
+      sku: 'X1',
+      '...': '[1 more keys]'
+    });
+    expect(record.truncated?.paths).toEqual(['data.order.customer', 'data']);
+  });
+
+  it('should not modify the logged objects', () => {
+    const data = { items: [1, 2, 3], note: 'fragile, handle with care' };
+    logWith({ maxArrayLength: 1, maxStringLength: 3 }, 'Order placed', data);
+
+    expect(data).toEqual({ items: [1, 2, 3], note: 'fragile, handle with care' });
+  });
+
+  it('should shorten strings and then replace the data to fit maxBytes', () => {
+    const response = logWith({ maxBytes: 300 }, 'Response received', { status: 200, html: 'x'.repeat(10000) });
+    const rows = logWith({ maxBytes: 300 }, 'Rows loaded', { rows: Array.from({ length: 200 }, (_, id) => ({ id })) });
+
+    expect(response.data.status).toBe(200);
+    expect(response.data.html).toMatch(/^x+\.\.\.\[\d+ more characters\]$/);
+    expect(PayloadLimiter.measure(response)).toBeLessThanOrEqual(300);
+    expect(response.truncated).toEqual({ paths: ['data.html'], originalBytes: PayloadLimiter.measure({ message: 'Response received', data: { status: 200, html: 'x'.repeat(10000) } }) });
+    expect(rows.data).toBe('[Data truncated: record exceeded 300 bytes]');
+    expect(rows.truncated?.paths).toEqual(['data']);
+  });
+
+  it('should cut the message when data and context are not enough', () => {
+    const record = logWith({ maxBytes: 200 }, 'y'.repeat(1000), { sku: 'X1' });
+
+    expect(PayloadLimiter.measure(record)).toBeLessThanOrEqual(200);
+    expect(record.message).toMatch(/^y+\.\.\.\[\d+ more characters\]$/);
+    expect(record.truncated?.paths).toEqual(['data', 'message']);
+  });
+
+  it('should apply limits before every output and report them in JSON lines', () => {
+    const record = logWith({ maxStringLength: 4 }, 'Order placed', { sku: 'X1-LONG' });
+
+    expect(lineHandler.mock.calls[0][1]).toContain('Orde...[8 more characters]');
+    expect(lineHandler.mock.calls[0][1]).toContain('X1-L...[3 more characters]');
+    expect(JSON.parse(StructuredFormatter.toJSON(record)).truncated).toEqual({ paths: ['message', 'data.sku'] });
+  });
+
+  it('should reject invalid limits', () => {
+    const configure = (limits: unknown): void => LogEngine.configure({ limits: limits as PayloadLimits });
+
+    expect(() => configure({ maxBytes: 0 })).toThrow('Invalid payload limit maxBytes: 0. It must be a positive integer.');
+    expect(() => configure({ maxDepth: -1 })).toThrow('Invalid payload limit maxDepth: -1. It must be a non-negative integer.');
+    expect(() => configure({ maxItems: 5 })).toThrow('Unknown payload limit: "maxItems"');
+    expect(() => configure({ maxDepth: 0, maxKeys: 10 })).not.toThrow();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for pretty data rendering
+ * Verifies indentation, depth and length limits, special object types, colors and the prettyData option
+ */
+
+import { LogEngine, LogMode, PrettyDataConfig, DataInspector, ColorSupport, Themes } from '../index';
+import { MessageFormatter, colors } from '../formatter';
+import { createRecord } from './test-utils';
+
+describe('Pretty data', () => {
+  const inspect = (value: unknown, options: PrettyDataConfig = {}): string =>
+    ColorSupport.strip(DataInspector.inspect(value, DataInspector.resolveOptions(options)));
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, format: undefined });
+    jest.restoreAllMocks();
+  });
+
+  it('should keep short values on one line and indent long ones', () => {
+    expect(inspect({ sku: 'X1', total: 42, paid: true, note: null })).toBe('{ sku: \'X1\', total: 42, paid: true, note: null }');
+    expect(inspect({ order: { sku: 'X1', lines: [1, 2] } }, { breakLength: 20 })).toBe(
+      '{\n  order: {\n    sku: \'X1\',\n    lines: [ 1, 2 ]\n  }\n}'
+    );
+    expect(inspect({ 'content-type': 'json', it: 'isn\'t' })).toBe('{ \'content-type\': \'json\', it: \'isn\\\'t\' }');
+  });
+
+  it('should cut deep objects, long arrays and long strings', () => {
+    expect(inspect({ a: { b: { c: [1] } } }, { depth: 1 })).toBe('{ a: { b: [Object] } }');
+    expect(inspect(Array.from({ length: 25 }, (_, i) => i), { maxArrayLength: 3 })).toBe('[ 0, 1, 2, ... 22 more items ]');
+    expect(inspect({ text: 'abcdefgh' }, { maxStringLength: 3 })).toBe('{ text: \'abc\'... 5 more characters }');
+    expect(inspect('abcdefgh', { maxStringLength: 3 })).toBe('abc ... 5 more characters');
+  });
+
+  it('should show Dates, Maps, Sets, Buffers and class names', () => {
+    class Order {
+      constructor(public sku: string) {}
+    }
+
+    expect(inspect(new Date('2025-06-01T12:00:00.000Z'))).toBe('2025-06-01T12:00:00.000Z');
+    expect(inspect(new Map<string, unknown>([['sku', 'X1'], ['total', 42]]))).toBe('Map(2) { \'sku\' => \'X1\', \'total\' => 42 }');
+    expect(inspect(new Set([1, 2]))).toBe('Set(2) { 1, 2 }');
+    expect(inspect(Buffer.from('hello'), { maxArrayLength: 3 })).toBe('<Buffer 68 65 6c ... 2 more bytes>');
+    expect(inspect(new Order('X1'))).toBe('Order { sku: \'X1\' }');
+    expect(inspect({ handler: function onOrder(): void {}, type: Order, id: 10n })).toBe('{ handler: [Function: onOrder], type: [class Order], id: 10n }');
+  });
+
+  it('should mark circular references', () => {
+    const order: Record<string, unknown> = { sku: 'X1' };
+    order.self = order;
+
+    expect(inspect(order)).toBe('{ sku: \'X1\', self: [Circular] }');
+  });
+
+  it('should color keys and values with the theme or the default palette', () => {
+    const line = DataInspector.inspect({ sku: 'X1', total: 42 });
+    const monochrome = DataInspector.inspect({ sku: 'X1' }, DataInspector.resolveOptions(true), Themes.resolve('monochrome'));
+
+    expect(line).toBe(`{ sku: ${colors.green}'X1'${colors.reset}, total: ${colors.yellow}42${colors.reset} }`);
+    expect(monochrome).toBe('{ \x1b[1msku\x1b[0m: \'X1\' }');
+    expect(MessageFormatter.formatRecord(createRecord({ data: { sku: 'X1' } }), { prettyData: true, theme: 'solarized' }))
+      .toContain('\x1b[38;2;38;139;210msku\x1b[0m: \x1b[38;2;42;161;152m\'X1\'');
+  });
+
+  it('should render data pretty in text lines and templates only when enabled', () => {
+    const data = { order: { sku: 'X1', lines: [{ qty: 1 }, { qty: 2 }] } };
+    const pretty = ColorSupport.strip(MessageFormatter.formatRecord(createRecord({ data }), { prettyData: { breakLength: 30 } }));
+    const template = ColorSupport.strip(MessageFormatter.formatRecord(createRecord({ data }), { prettyData: true, template: '{message} {data}' }));
+
+    expect(pretty).toContain(': Order placed {\n  order: {\n    sku: \'X1\',\n    lines: [ { qty: 1 }, { qty: 2 } ]\n  }\n}');
+    expect(template).toBe('Order placed { order: { sku: \'X1\', lines: [ { qty: 1 }, { qty: 2 } ] } }');
+    expect(MessageFormatter.formatRecord(createRecord({ data }))).toContain('{"order":{"sku":"X1","lines":[{"qty":1},{"qty":2}]}}');
+  });
+
+  it('should keep Dates, Maps and class names through redaction', () => {
+    class Invoice {
+      constructor(public total: number, public password: string) {}
+    }
+    const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    LogEngine.configure({ format: { prettyData: true } });
+
+    LogEngine.info('Invoice sent', {
+      invoice: new Invoice(42, 'hunter2'),
+      sentAt: new Date('2025-06-01T12:00:00.000Z'),
+      headers: new Map([['token', 'abc'], ['accept', 'json']])
+    });
+
+    const line = consoleLog.mock.calls[0][0] as string;
+    expect(line).toContain('invoice: Invoice { total: 42, password: \'[REDACTED]\' }');
+    expect(line).toContain('sentAt: 2025-06-01T12:00:00.000Z');
+    expect(line).toContain('headers: Map(2) { \'token\' => \'[REDACTED]\', \'accept\' => \'json\' }');
+  });
+
+  it('should reject invalid prettyData options', () => {
+    const configure = (prettyData: unknown): void => LogEngine.configure({ format: { prettyData: prettyData as boolean } });
+
+    expect(() => configure('yes')).toThrow('format.prettyData must be a boolean or an object.');
+    expect(() => configure({ depth: -1 })).toThrow('prettyData.depth must be a non-negative integer, got -1.');
+    expect(() => configure({ colors: true })).toThrow('Unknown prettyData option: "colors".');
+    expect(() => configure({ depth: 2, indent: 4 })).not.toThrow();
+  });
+});
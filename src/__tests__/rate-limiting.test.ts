@@ -0,0 +1,148 @@
+/**
+ * Tests for duplicate suppression and rate limiting
+ * Verifies window summaries, custom fingerprints, per-output limits and validation
+ */
+
+import { LogEngine, LogMode, LogRecord } from '../index';
+import { stripAnsi } from './test-utils';
+
+describe('Rate limiting', () => {
+  const mockOutputHandler = jest.fn();
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockOutputHandler.mockClear();
+    LogEngine.configure({
+      mode: LogMode.DEBUG,
+      rateLimit: undefined,
+      outputs: undefined,
+      outputHandler: mockOutputHandler,
+      suppressConsoleOutput: true
+    });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      rateLimit: undefined,
+      outputs: undefined,
+      outputHandler: undefined,
+      suppressConsoleOutput: false
+    });
+    jest.useRealTimers();
+  });
+
+  const loggedMessages = (): string[] => mockOutputHandler.mock.calls.map(call => stripAnsi(call[1]).split(': ').slice(1).join(': ').replace(/ \{.*\}$/, ''));
+
+  it('should suppress repeats and emit a summary when the window closes', () => {
+    LogEngine.configure({ rateLimit: { windowMs: 10000 } });
+
+    for (let i = 0; i < 4212; i++) {
+      LogEngine.warn('Connection refused');
+    }
+    LogEngine.warn('Different message');
+
+    expect(loggedMessages()).toEqual(['Connection refused', 'Different message']);
+
+    jest.advanceTimersByTime(10000);
+
+    expect(loggedMessages()[2]).toBe('Connection refused (repeated 4,211 times in 10s)');
+    expect(mockOutputHandler.mock.calls[2][0]).toBe('warn');
+    expect(mockOutputHandler.mock.calls[2][2]).toEqual({ repeated: 4211, windowMs: 10000 });
+    expect(mockOutputHandler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should key on level as well as message', () => {
+    LogEngine.configure({ rateLimit: {} });
+
+    LogEngine.info('Same text');
+    LogEngine.error('Same text');
+    LogEngine.info('Same text');
+
+    expect(mockOutputHandler.mock.calls.map(call => call[0])).toEqual(['info', 'error']);
+  });
+
+  it('should start a new window after the previous one closes', () => {
+    LogEngine.configure({ rateLimit: { windowMs: 1000 } });
+
+    LogEngine.info('Tick');
+    jest.advanceTimersByTime(1000);
+    LogEngine.info('Tick');
+
+    expect(loggedMessages()).toEqual(['Tick', 'Tick']);
+  });
+
+  it('should let maxPerWindow records through before suppressing', () => {
+    LogEngine.configure({ rateLimit: { windowMs: 500, maxPerWindow: 3 } });
+
+    for (let i = 0; i < 5; i++) {
+      LogEngine.info('Retrying');
+    }
+    jest.advanceTimersByTime(500);
+
+    expect(loggedMessages()).toEqual(['Retrying', 'Retrying', 'Retrying', 'Retrying (repeated 2 times in 500ms)']);
+  });
+
+  it('should group records by a custom fingerprint', () => {
+    LogEngine.configure({
+      rateLimit: { fingerprint: (record: LogRecord) => String((record.data as { code?: string })?.code) }
+    });
+
+    LogEngine.error('Request 1 failed', { code: 'ETIMEDOUT' });
+    LogEngine.error('Request 2 failed', { code: 'ETIMEDOUT' });
+    LogEngine.error('Request 3 failed', { code: 'ECONNRESET' });
+    jest.advanceTimersByTime(10000);
+
+    expect(loggedMessages()).toEqual([
+      'Request 1 failed',
+      'Request 3 failed',
+      'Request 1 failed (repeated 1 times in 10s)'
+    ]);
+  });
+
+  it('should share the limiter with child loggers', () => {
+    LogEngine.configure({ rateLimit: {} });
+
+    LogEngine.info('Shared');
+    LogEngine.child({ requestId: 'r1' }).info('Shared');
+
+    expect(mockOutputHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flush pending summaries when the configuration changes', () => {
+    LogEngine.configure({ rateLimit: {} });
+
+    LogEngine.info('Flushed');
+    LogEngine.info('Flushed');
+    LogEngine.configure({ rateLimit: { windowMs: 1000 } });
+    LogEngine.info('Next');
+
+    expect(loggedMessages()).toEqual(['Flushed', 'Flushed (repeated 1 times in 10s)', 'Next']);
+  });
+
+  it('should limit a single output without affecting the others', () => {
+    const limited = jest.fn();
+    const unlimited = jest.fn();
+    LogEngine.configure({
+      outputs: [
+        { type: 'record', handler: limited, rateLimit: { windowMs: 2000 } },
+        { type: 'record', handler: unlimited }
+      ]
+    });
+
+    LogEngine.info('Polling');
+    LogEngine.info('Polling');
+    LogEngine.info('Polling');
+    jest.advanceTimersByTime(2000);
+
+    const limitedMessages = limited.mock.calls.map(call => (call[0] as LogRecord).message);
+    expect(limitedMessages).toEqual(['Polling', 'Polling (repeated 2 times in 2s)']);
+    expect(unlimited).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => LogEngine.configure({ rateLimit: { windowMs: 0 } })).toThrow('Invalid rate limit windowMs');
+    expect(() => LogEngine.configure({ rateLimit: { windowMs: Infinity } })).toThrow('Invalid rate limit windowMs');
+    expect(() => LogEngine.configure({ rateLimit: { maxPerWindow: 1.5 } })).toThrow('Invalid rate limit maxPerWindow');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for rule-based routing
+ * Verifies match conditions, continue/stop semantics, the default route and validation
+ */
+
+import { LogEngine, LogMode, LogRecord, RoutingConfig } from '../index';
+
+describe('Routing', () => {
+  const consoleOut = jest.fn();
+  const payments = jest.fn();
+  const audit = jest.fn();
+  const errors = jest.fn();
+
+  const messagesOf = (handler: jest.Mock): string[] => handler.mock.calls.map(call => (call[0] as LogRecord).message);
+
+  const outputs: RoutingConfig['outputs'] = {
+    console: { type: 'record', handler: consoleOut },
+    payments: { type: 'record', handler: payments },
+    audit: { type: 'record', handler: audit },
+    errors: { type: 'record', handler: errors }
+  };
+
+  beforeEach(() => {
+    [consoleOut, payments, audit, errors].forEach(handler => handler.mockClear());
+    LogEngine.configure({ mode: LogMode.DEBUG, suppressConsoleOutput: true });
+  });
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, routing: undefined, outputs: undefined, suppressConsoleOutput: false });
+  });
+
+  it('should route by namespace and fall back to the default route', () => {
+    LogEngine.configure({
+      routing: {
+        outputs,
+        rules: [{ match: { namespace: 'payments*' }, outputs: ['payments'] }],
+        default: ['console']
+      }
+    });
+
+    LogEngine.namespace('payments').info('charged');
+    LogEngine.namespace('payments').namespace('refunds').info('refunded');
+    LogEngine.namespace('auth').info('logged in');
+    LogEngine.info('root');
+
+    expect(messagesOf(payments)).toEqual(['charged', 'refunded']);
+    expect(messagesOf(consoleOut)).toEqual(['logged in', 'root']);
+  });
+
+  it('should stop at the first matching rule by default', () => {
+    LogEngine.configure({
+      routing: {
+        outputs,
+        rules: [
+          { match: { data: { audit: true } }, outputs: ['audit'] },
+          { match: {}, outputs: ['console'] }
+        ]
+      }
+    });
+
+    LogEngine.info('Role changed', { audit: true, userId: 7 });
+    LogEngine.info('Page viewed', { audit: false });
+
+    expect(messagesOf(audit)).toEqual(['Role changed']);
+    expect(messagesOf(consoleOut)).toEqual(['Page viewed']);
+  });
+
+  it('should keep evaluating rules marked continue', () => {
+    LogEngine.configure({
+      routing: {
+        outputs,
+        rules: [
+          { match: { minLevel: 'error' }, outputs: ['errors'], continue: true },
+          { match: { namespace: 'payments' }, outputs: ['payments'] }
+        ],
+        default: ['console']
+      }
+    });
+
+    LogEngine.namespace('payments').error('declined');
+    LogEngine.error('crashed');
+    LogEngine.info('ok');
+
+    expect(messagesOf(errors)).toEqual(['declined', 'crashed']);
+    expect(messagesOf(payments)).toEqual(['declined']);
+    // A continue rule that matched still counts as a match, so the default route isn't used
+    expect(messagesOf(consoleOut)).toEqual(['ok']);
+  });
+
+  it('should match levels and messages', () => {
+    LogEngine.configure({
+      routing: {
+        outputs,
+        rules: [
+          { match: { level: ['warn', 'error'], message: /timeout/i }, outputs: ['errors'] }
+        ],
+        default: ['console']
+      }
+    });
+
+    LogEngine.warn('Upstream Timeout');
+    LogEngine.info('timeout while idle');
+    LogEngine.error('disk full');
+
+    expect(messagesOf(errors)).toEqual(['Upstream Timeout']);
+    expect(messagesOf(consoleOut)).toEqual(['timeout while idle', 'disk full']);
+  });
+
+  it('should match nested data paths with values, patterns and predicates', () => {
+    LogEngine.configure({
+      routing: {
+        outputs,
+        rules: [
+          { match: { data: { 'user.role': 'admin', 'order.total': (total: unknown) => Number(total) > 1000 } }, outputs: ['audit'] },
+          { match: { data: { 'user.team': /^platform-/ } }, outputs: ['payments'] }
+        ]
+      }
+    });
+
+    LogEngine.info('big admin order', { user: { role: 'admin' }, order: { total: 5000 } });
+    LogEngine.info('small admin order', { user: { role: 'admin' }, order: { total: 5 } });
+    LogEngine.info('internal user', { user: { team: 'platform-infra' } });
+    LogEngine.info('no data');
+
+    expect(messagesOf(audit)).toEqual(['big admin order']);
+    expect(messagesOf(payments)).toEqual(['internal user']);
+  });
+
+  it('should match context keys and values', () => {
+    LogEngine.configure({
+      routing: {
+        outputs,
+        rules: [
+          { match: { context: { tenant: 'acme' } }, outputs: ['audit'] },
+          { match: { context: ['requestId'] }, outputs: ['payments'] }
+        ]
+      }
+    });
+
+    LogEngine.runWithContext({ tenant: 'acme', requestId: 'r1' }, () => LogEngine.info('acme request'));
+    LogEngine.child({ requestId: 'r2' }).info('other request');
+    LogEngine.info('background job');
+
+    expect(messagesOf(audit)).toEqual(['acme request']);
+    expect(messagesOf(payments)).toEqual(['other request']);
+  });
+
+  it('should drop unmatched records when there is no default route', () => {
+    LogEngine.configure({
+      routing: { outputs, rules: [{ match: { namespace: 'payments' }, outputs: ['payments'] }] }
+    });
+
+    LogEngine.info('nowhere');
+
+    [consoleOut, payments, audit, errors].forEach(handler => expect(handler).not.toHaveBeenCalled());
+  });
+
+  it('should take priority over outputs', () => {
+    const plain = jest.fn();
+    LogEngine.configure({
+      outputs: [{ type: 'record', handler: plain }],
+      routing: { outputs, rules: [], default: ['console'] }
+    });
+
+    LogEngine.info('routed');
+
+    expect(plain).not.toHaveBeenCalled();
+    expect(messagesOf(consoleOut)).toEqual(['routed']);
+  });
+
+  it('should apply the per-output settings of routed outputs', () => {
+    const handler = jest.fn();
+    LogEngine.configure({
+      routing: { outputs: { important: { type: 'record', handler, minLevel: 'warn' } }, rules: [], default: ['important'] }
+    });
+
+    LogEngine.info('skipped');
+    LogEngine.warn('kept');
+
+    expect(messagesOf(handler)).toEqual(['kept']);
+  });
+
+  it('should reject invalid routing tables', () => {
+    expect(() => LogEngine.configure({
+      routing: { outputs, rules: [{ match: {}, outputs: ['missing'] }] }
+    })).toThrow('Unknown routing output "missing"');
+    expect(() => LogEngine.configure({
+      routing: { outputs, rules: [], default: ['nope'] }
+    })).toThrow('Unknown routing output "nope" in default route');
+    expect(() => LogEngine.configure({
+      routing: { outputs, rules: [{ match: { minLevel: 'verbose' }, outputs: ['console'] }] }
+    })).toThrow('Unknown log level in routing rule 0');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for safe value serialization
+ * Verifies special values, registered serializers and their use by the formatters, the redactor and file outputs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogEngine, LogMode, SafeSerializer, StructuredFormatter, DataRedactor } from '../index';
+import { formatData } from '../formatter';
+import { createRecord } from './test-utils';
+
+describe('Safe serializer', () => {
+  let testDir: string;
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-engine-serializer-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    SafeSerializer.clear();
+    LogEngine.configure({ mode: LogMode.INFO, enhancedOutputs: undefined });
+    jest.restoreAllMocks();
+  });
+
+  it('should convert primitives JSON cannot represent', () => {
+    expect(SafeSerializer.toJSONValue({ id: 10n, tag: Symbol('sku'), handler: function onOrder(): void {}, arrow: (): void => {} })).toEqual({
+      id: '10',
+      tag: 'Symbol(sku)',
+      handler: '[Function: onOrder]',
+      arrow: '[Function: arrow]'
+    });
+    expect(SafeSerializer.toJSONValue([undefined, 1])).toEqual([null, 1]);
+    expect(formatData(12345678901234567890n)).toBe('12345678901234567890');
+  });
+
+  it('should convert built-in objects', () => {
+    const value = SafeSerializer.toJSONValue({
+      at: new Date('2025-06-01T12:00:00.000Z'),
+      invalid: new Date('nope'),
+      pattern: /^sku-\d+$/i,
+      totals: new Map<unknown, unknown>([['eur', 42], [1, 'one']]),
+      tags: new Set(['gift', 'express']),
+      bytes: new Uint8Array([1, 2]),
+      buffer: Buffer.from('hi'),
+      url: new URL('https://example.com/orders?page=2'),
+      boxed: [Object(3), Object('x'), Object(true)]
+    });
+
+    expect(value).toEqual({
+      at: '2025-06-01T12:00:00.000Z',
+      invalid: 'Invalid Date',
+      pattern: '/^sku-\\d+$/i',
+      totals: { eur: 42, 1: 'one' },
+      tags: ['gift', 'express'],
+      bytes: [1, 2],
+      buffer: { type: 'Buffer', base64: 'aGk=' },
+      url: 'https://example.com/orders?page=2',
+      boxed: [3, 'x', true]
+    });
+  });
+
+  it('should survive getters and toJSON methods that throw', () => {
+    const order = {
+      sku: 'X1',
+      get total(): number {
+        throw new Error('not loaded');
+      }
+    };
+    const broken = { toJSON: (): never => {
+      throw new Error('bad state');
+    } };
+
+    expect(SafeSerializer.toJSONValue(order)).toEqual({ sku: 'X1', total: '[Getter threw: not loaded]' });
+    expect(SafeSerializer.toJSONValue({ broken, ok: { toJSON: (): string => 'ok' } })).toEqual({ broken: '[Serializer threw: bad state]', ok: 'ok' });
+  });
+
+  it('should survive getters that throw when logging', () => {
+    const lineHandler = jest.fn();
+    const order = {
+      sku: 'X1',
+      get total(): number {
+        throw new Error('not loaded');
+      }
+    };
+    LogEngine.configure({ outputs: [lineHandler] });
+
+    LogEngine.info('Order placed', order);
+    LogEngine.configure({ format: { style: 'json' } });
+    LogEngine.infoRaw('Order placed', { order });
+    LogEngine.configure({ outputs: undefined, format: undefined });
+
+    expect(lineHandler.mock.calls[0][1]).toContain('{"sku":"X1","total":"[Getter threw: not loaded]"}');
+    expect(JSON.parse(lineHandler.mock.calls[1][1]).data).toEqual({ order: { sku: 'X1', total: '[Getter threw: not loaded]' } });
+  });
+
+  it('should mark circular references and serialize errors', () => {
+    const order: Record<string, unknown> = { sku: 'X1', error: new TypeError('bad sku') };
+    order.self = order;
+
+    const value = SafeSerializer.toJSONValue(order);
+    expect(value.self).toBe('[Circular]');
+    expect(value.error).toMatchObject({ name: 'TypeError', message: 'bad sku' });
+  });
+
+  it('should use registered serializers by constructor, including subclasses', () => {
+    class Money {
+      constructor(public cents: bigint, public currency: string) {}
+    }
+    class Refund extends Money {}
+    SafeSerializer.register(Money, money => `${money.cents} ${money.currency}`);
+    SafeSerializer.register(Date, date => date.getTime());
+
+    expect(SafeSerializer.toJSONValue({ price: new Money(450n, 'EUR'), refund: new Refund(10n, 'EUR') })).toEqual({ price: '450 EUR', refund: '10 EUR' });
+    expect(SafeSerializer.stringify(new Date(0))).toBe('0');
+    expect(SafeSerializer.unregister(Date)).toBe(true);
+    expect(SafeSerializer.stringify(new Date(0))).toBe('"1970-01-01T00:00:00.000Z"');
+  });
+
+  it('should reject invalid registrations', () => {
+    expect(() => SafeSerializer.register('Money' as unknown as typeof Date, () => 0)).toThrow('Serializer type must be a class or constructor function.');
+    expect(() => SafeSerializer.register(Date, 'iso' as unknown as () => string)).toThrow('Serializer for Date must be a function.');
+  });
+
+  it('should write special values in text, JSON and logfmt lines', () => {
+    const data = { id: 10n, tags: new Set(['gift']), totals: new Map([['eur', 42]]) };
+
+    expect(formatData(data)).toBe('{"id":"10","tags":["gift"],"totals":{"eur":42}}');
+    expect(JSON.parse(StructuredFormatter.toJSON(createRecord({ data }))).data).toEqual({ id: '10', tags: ['gift'], totals: { eur: 42 } });
+    expect(StructuredFormatter.toLogfmt(createRecord({ data }))).toContain('id=10 tags="[\\"gift\\"]" totals.eur=42');
+  });
+
+  it('should redact the serialized form of registered types', () => {
+    class Credentials {
+      constructor(public user: string, private secret: string) {}
+      get value(): string {
+        return this.secret;
+      }
+    }
+    SafeSerializer.register(Credentials, credentials => ({ user: credentials.user, password: credentials.value }));
+
+    expect(DataRedactor.redactData({ login: new Credentials('ops', 'hunter2') })).toEqual({ login: { user: 'ops', password: '[REDACTED]' } });
+  });
+
+  it('should write special values to file outputs', () => {
+    const filePath = path.join(testDir, 'orders.log');
+    LogEngine.configure({ enhancedOutputs: [{ type: 'file', config: { filePath } }] });
+
+    LogEngine.info('Order placed', { id: 10n, tags: new Set(['gift']) });
+
+    expect(fs.readFileSync(filePath, 'utf8')).toContain('Order placed {"id":"10","tags":["gift"]}');
+  });
+});
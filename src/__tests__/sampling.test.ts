@@ -0,0 +1,143 @@
+/**
+ * Tests for per-level log sampling
+ * Verifies random and key-based sampling, rule validation and sampling statistics
+ */
+
+import { LogEngine, LogMode, createLogger } from '../index';
+
+describe('Log sampling', () => {
+  const mockOutputHandler = jest.fn();
+
+  beforeEach(() => {
+    mockOutputHandler.mockClear();
+    LogEngine.configure({
+      mode: LogMode.DEBUG,
+      sampling: undefined,
+      outputHandler: mockOutputHandler,
+      suppressConsoleOutput: true
+    });
+    LogEngine.resetSamplingStats();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      sampling: undefined,
+      outputHandler: undefined,
+      suppressConsoleOutput: false
+    });
+  });
+
+  it('should keep every record when no sampling is configured', () => {
+    for (let i = 0; i < 20; i++) {
+      LogEngine.info(`Message ${i}`);
+    }
+
+    expect(mockOutputHandler).toHaveBeenCalledTimes(20);
+    expect(LogEngine.getSamplingStats()).toEqual({ kept: 0, dropped: 0, byLevel: {} });
+  });
+
+  it('should sample randomly per level', () => {
+    const random = jest.spyOn(Math, 'random');
+    random.mockReturnValueOnce(0.05).mockReturnValueOnce(0.5).mockReturnValueOnce(0.95);
+    LogEngine.configure({ sampling: { info: 0.1, error: 1 } });
+
+    LogEngine.info('Kept');
+    LogEngine.info('Dropped');
+    LogEngine.info('Dropped too');
+    LogEngine.error('Always kept');
+    LogEngine.warn('Not sampled');
+
+    expect(mockOutputHandler.mock.calls.map(call => call[0])).toEqual(['info', 'error', 'warn']);
+    expect(LogEngine.getSamplingStats()).toEqual({
+      kept: 2,
+      dropped: 2,
+      byLevel: {
+        info: { kept: 1, dropped: 2 },
+        error: { kept: 1, dropped: 0 }
+      }
+    });
+  });
+
+  it('should keep or drop all records of a request together', () => {
+    LogEngine.configure({ sampling: { info: { rate: 0.5, key: 'requestId' }, debug: { rate: 0.5, key: 'requestId' } } });
+
+    const keptPerRequest: number[] = [];
+    for (let i = 0; i < 40; i++) {
+      mockOutputHandler.mockClear();
+      LogEngine.runWithContext({ requestId: `req-${i}` }, () => {
+        LogEngine.info('Received');
+        LogEngine.debug('Parsed');
+        LogEngine.info('Stored');
+      });
+      keptPerRequest.push(mockOutputHandler.mock.calls.length);
+    }
+
+    expect(keptPerRequest.every(count => count === 0 || count === 3)).toBe(true);
+    expect(keptPerRequest).toContain(0);
+    expect(keptPerRequest).toContain(3);
+  });
+
+  it('should read the key from bindings and call data', () => {
+    LogEngine.configure({ sampling: { info: { rate: 0.5, key: 'jobId' } } });
+    const fromBinding: boolean[] = [];
+    const fromData: boolean[] = [];
+
+    for (let i = 0; i < 10; i++) {
+      mockOutputHandler.mockClear();
+      LogEngine.child({ jobId: i }).info('Bound');
+      fromBinding.push(mockOutputHandler.mock.calls.length === 1);
+
+      mockOutputHandler.mockClear();
+      LogEngine.info('Data', { jobId: i });
+      fromData.push(mockOutputHandler.mock.calls.length === 1);
+    }
+
+    expect(fromData).toEqual(fromBinding);
+  });
+
+  it('should fall back to random sampling when the key is missing', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.99);
+    LogEngine.configure({ sampling: { info: { rate: 0.5, key: 'requestId' } } });
+
+    LogEngine.info('No request id');
+
+    expect(mockOutputHandler).not.toHaveBeenCalled();
+  });
+
+  it('should not evaluate lazy arguments for sampled-out records', () => {
+    LogEngine.configure({ sampling: { info: 0 } });
+    const message = jest.fn(() => 'expensive');
+
+    LogEngine.info(message);
+
+    expect(message).not.toHaveBeenCalled();
+    expect(LogEngine.getSamplingStats().dropped).toBe(1);
+  });
+
+  it('should support custom level names', () => {
+    LogEngine.registerLevel({ name: 'chatty', severity: 0.5 });
+    LogEngine.configure({ sampling: { chatty: 0 } });
+
+    LogEngine.logAt('chatty', 'Dropped');
+
+    expect(mockOutputHandler).not.toHaveBeenCalled();
+    expect(LogEngine.getSamplingStats().byLevel.chatty).toEqual({ kept: 0, dropped: 1 });
+  });
+
+  it('should keep statistics per independent logger', () => {
+    const logger = createLogger({ mode: LogMode.DEBUG, outputHandler: jest.fn(), sampling: { info: 0 } });
+
+    logger.info('Dropped');
+
+    expect(logger.getSamplingStats().dropped).toBe(1);
+    expect(LogEngine.getSamplingStats().dropped).toBe(0);
+  });
+
+  it('should reject invalid rates', () => {
+    expect(() => LogEngine.configure({ sampling: { info: 1.5 } })).toThrow('Invalid sampling rate');
+    expect(() => LogEngine.configure({ sampling: { info: { rate: -0.1 } } })).toThrow('Invalid sampling rate');
+    expect(() => LogEngine.configure({ sampling: { info: NaN } })).toThrow('Invalid sampling rate');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for graceful shutdown
+ * Verifies flush(), close(), flush timeouts and the opt-in flushOnExit process hooks
+ */
+
+import { LogEngine, LogMode } from '../index';
+import * as advancedOutputs from '../logger/advanced-outputs';
+import { sentMessages } from './test-utils';
+
+describe('Graceful shutdown', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let resolveRequests: Array<() => void>;
+
+  beforeEach(() => {
+    resolveRequests = [];
+    // Requests stay in flight until the test resolves them
+    fetchMock = jest.fn(() => new Promise(resolve => {
+      resolveRequests.push(() => resolve({ ok: true }));
+    }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    LogEngine.configure({
+      mode: LogMode.DEBUG,
+      enhancedOutputs: [{ type: 'http', config: { url: 'https://logs.example.com/shutdown', batchSize: 100 } }],
+      suppressConsoleOutput: true
+    });
+  });
+
+  afterEach(async () => {
+    LogEngine.configure({
+      mode: LogMode.INFO,
+      enhancedOutputs: undefined,
+      outputs: undefined,
+      rateLimit: undefined,
+      flushOnExit: false,
+      suppressConsoleOutput: false
+    });
+    resolveRequests.forEach(resolve => resolve());
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should send buffered logs and wait for in-flight requests', async () => {
+    LogEngine.info('buffered one');
+    LogEngine.info('buffered two');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    let settled = false;
+    const flushed = LogEngine.flush().then(result => {
+      settled = true;
+      return result;
+    });
+
+    await Promise.resolve();
+    expect(sentMessages(fetchMock)).toEqual([['buffered one', 'buffered two']]);
+    expect(settled).toBe(false);
+
+    resolveRequests.forEach(resolve => resolve());
+    await expect(flushed).resolves.toBe(true);
+  });
+
+  it('should resolve false when the timeout elapses first', async () => {
+    LogEngine.info('stuck');
+
+    await expect(LogEngine.flush(20)).resolves.toBe(false);
+  });
+
+  it('should resolve immediately when nothing is pending', async () => {
+    await expect(LogEngine.flush(1000)).resolves.toBe(true);
+  });
+
+  it('should write pending rate limit summaries', async () => {
+    const handler = jest.fn();
+    LogEngine.configure({ enhancedOutputs: undefined, outputs: [{ type: 'record', handler }], rateLimit: { windowMs: 60000 } });
+
+    LogEngine.warn('retrying');
+    LogEngine.warn('retrying');
+    await LogEngine.flush();
+
+    expect(handler.mock.calls.map(call => call[0].message)).toEqual(['retrying', 'retrying (repeated 1 times in 60s)']);
+  });
+
+  it('should release handlers on close and recreate them for later logs', async () => {
+    const createSpy = jest.spyOn(advancedOutputs, 'createRecordOutput');
+
+    LogEngine.info('before close');
+    const closed = LogEngine.close();
+    await Promise.resolve();
+    resolveRequests.forEach(resolve => resolve());
+    await expect(closed).resolves.toBe(true);
+
+    LogEngine.info('after close');
+
+    expect(sentMessages(fetchMock)).toEqual([['before close']]);
+    expect(createSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should be reachable from child loggers', async () => {
+    LogEngine.child({ requestId: 'r1' }).info('from child');
+
+    const flushed = LogEngine.flush();
+    await Promise.resolve();
+    resolveRequests.forEach(resolve => resolve());
+
+    await expect(flushed).resolves.toBe(true);
+    expect(sentMessages(fetchMock)).toEqual([['from child']]);
+  });
+
+  describe('flushOnExit', () => {
+    let savedListeners: NodeJS.SignalsListener[];
+
+    beforeEach(() => {
+      // Start from a process without SIGTERM listeners so re-raising can be observed
+      savedListeners = process.listeners('SIGTERM');
+      process.removeAllListeners('SIGTERM');
+    });
+
+    afterEach(() => {
+      savedListeners.forEach(listener => process.on('SIGTERM', listener));
+    });
+
+    it('should install and remove the process hooks', () => {
+      const beforeExitCount = process.listenerCount('beforeExit');
+
+      LogEngine.configure({ flushOnExit: true });
+      LogEngine.configure({ flushOnExit: true });
+      expect(process.listenerCount('SIGTERM')).toBe(1);
+      expect(process.listenerCount('beforeExit')).toBe(beforeExitCount + 1);
+
+      LogEngine.configure({ flushOnExit: false });
+      expect(process.listenerCount('SIGTERM')).toBe(0);
+      expect(process.listenerCount('beforeExit')).toBe(beforeExitCount);
+    });
+
+    it('should flush on beforeExit', async () => {
+      LogEngine.configure({ flushOnExit: true });
+      LogEngine.info('exiting');
+
+      process.emit('beforeExit', 0);
+      await Promise.resolve();
+
+      expect(sentMessages(fetchMock)).toEqual([['exiting']]);
+    });
+
+    it('should close on SIGTERM and re-raise the signal', async () => {
+      const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+      LogEngine.configure({ flushOnExit: { timeoutMs: 50 } });
+      LogEngine.info('terminating');
+
+      process.emit('SIGTERM', 'SIGTERM');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(sentMessages(fetchMock)).toEqual([['terminating']]);
+      expect(process.listenerCount('SIGTERM')).toBe(0);
+      expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM');
+    });
+
+    it('should leave exiting to the application when it listens for SIGTERM', async () => {
+      const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+      const appListener = jest.fn();
+      process.on('SIGTERM', appListener);
+      LogEngine.configure({ flushOnExit: { timeoutMs: 50 } });
+
+      process.emit('SIGTERM', 'SIGTERM');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(appListener).toHaveBeenCalled();
+      expect(kill).not.toHaveBeenCalled();
+      process.removeListener('SIGTERM', appListener);
+    });
+
+    it('should reject an invalid timeout', () => {
+      expect(() => LogEngine.configure({ flushOnExit: { timeoutMs: -1 } })).toThrow('Invalid flushOnExit timeoutMs');
+    });
+  });
+});
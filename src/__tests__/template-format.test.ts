@@ -0,0 +1,113 @@
+/**
+ * Tests for template-string formatting
+ * Verifies tokens, padding, time patterns, per-token colors, conditional sections and custom tokens
+ */
+
+import { LogEngine, LogMode, LogRecord } from '../index';
+import { MessageFormatter, colors, formatTimePattern } from '../formatter';
+import { createRecord, stripAnsi } from './test-utils';
+
+describe('Template format', () => {
+  // Local time, so time patterns render the same in every timezone
+  const timestamp = new Date(2025, 5, 1, 9, 5, 7, 42);
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, format: undefined });
+    jest.restoreAllMocks();
+  });
+
+  const render = (template: string, overrides: Partial<LogRecord> = {}, tokens?: Record<string, (record: LogRecord) => unknown>): string =>
+    MessageFormatter.formatRecord(createRecord({ timestamp, message: 'Server started', emoji: '🚀', ...overrides }), { template, tokens });
+
+  it('should render the built-in tokens', () => {
+    const line = render('{time:HH:mm:ss.SSS} {level:5} {emoji} {namespace} › {message} {data}', {
+      namespace: 'http',
+      context: { requestId: 'r1' },
+      data: { port: 3000 }
+    });
+
+    expect(stripAnsi(line)).toBe('09:05:07.042 INFO  🚀 http › Server started {"requestId":"r1","port":3000}');
+  });
+
+  it('should pad tokens to the left or right', () => {
+    expect(stripAnsi(render('[{level:7}]'))).toBe('[INFO   ]');
+    expect(stripAnsi(render('[{level:>7}]'))).toBe('[   INFO]');
+    expect(stripAnsi(render('[{message:3}]'))).toBe('[Server started]');
+  });
+
+  it('should support time patterns and the other timestamp tokens', () => {
+    expect(formatTimePattern(timestamp, 'YYYY-MM-DD hh:mm A')).toBe('2025-06-01 09:05 AM');
+    expect(formatTimePattern(new Date(2025, 0, 2, 15, 4), 'YY/MM/DD h[h]:mm a')).toBe('25/01/02 hh:04 pm');
+    expect(formatTimePattern(timestamp, 'Z')).toMatch(/^[+-]\d{2}:\d{2}$/);
+    expect(stripAnsi(render('{iso}'))).toBe(timestamp.toISOString());
+    expect(stripAnsi(render('{time}'))).toBe(timestamp.toISOString());
+    expect(stripAnsi(render('{localTime}'))).toMatch(/^9:05AM$/);
+  });
+
+  it('should color tokens with their defaults or the color given in the template', () => {
+    expect(render('{level}')).toBe(`${colors.blue}INFO${colors.reset}`);
+    expect(render('{message|red}')).toBe(`${colors.red}Server started${colors.reset}`);
+    expect(render('{level|none} {message}')).toBe('INFO Server started');
+    expect(render('{namespace:6|yellow}.', { namespace: 'db' })).toBe(`${colors.yellow}db    ${colors.reset}.`);
+  });
+
+  it('should render conditional sections only when their token has a value', () => {
+    const template = '{level|none}{if namespace} [{namespace|none}]{end}: {message}{if data} {data|none}{end}';
+
+    expect(render(template)).toBe('INFO: Server started');
+    expect(render(template, { namespace: 'db', data: { pool: 5 } })).toBe('INFO [db]: Server started {"pool":5}');
+    expect(render('{if namespace}{if source}{source|none}@{end}{namespace|none}: {end}{message}', { namespace: 'db', source: 'pool' }))
+      .toBe('pool@db: Server started');
+  });
+
+  it('should use custom token providers', () => {
+    const tokens = {
+      pid: (): number => 4242,
+      requestId: (outputRecord: LogRecord): unknown => outputRecord.context?.requestId
+    };
+    const template = '{pid:>6} {if requestId}<{requestId}> {end}{message|none}';
+
+    expect(render(template, { context: { requestId: 'r1' } }, tokens)).toBe('  4242 <r1> Server started');
+    expect(render(template, {}, tokens)).toBe('  4242 Server started');
+  });
+
+  it('should mark tokens whose provider throws instead of failing the log call', () => {
+    const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const tokens = {
+      user: (): string => {
+        throw new Error('no session');
+      }
+    };
+    LogEngine.configure({ mode: LogMode.DEBUG, format: { template: '{user} {message}', tokens } });
+
+    expect(render('{user} {message|none}', {}, tokens)).toBe('[token error] Server started');
+    expect(() => LogEngine.info('compact')).not.toThrow();
+    expect(consoleLog.mock.calls[0][0]).toBe('[token error] compact');
+  });
+
+  it('should keep escaped braces as text', () => {
+    expect(render('{{json}} {message|none}')).toBe('{json} Server started');
+  });
+
+  it('should format log calls with the configured template', () => {
+    const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+    LogEngine.configure({ mode: LogMode.DEBUG, format: { template: '{level:5|none} {if namespace}{namespace|none} › {end}{message}', includeEmoji: false } });
+
+    LogEngine.info('compact');
+    LogEngine.namespace('cli').child({}, { format: { template: '{level|none}: {message} ({namespace|none})' } }).info('verbose');
+
+    expect(consoleLog.mock.calls.map(call => call[0])).toEqual(['INFO  compact', 'INFO: verbose (cli)']);
+  });
+
+  it('should reject invalid templates', () => {
+    const configure = (template: string): void => LogEngine.configure({ format: { template } });
+
+    expect(() => configure('{hostname} {message}')).toThrow('Unknown template token: {hostname}');
+    expect(() => configure('{message|purple}')).toThrow('Unknown color for template token {message}');
+    expect(() => configure('{level:wide}')).toThrow('Invalid width for template token {level}');
+    expect(() => configure('{if namespace}{namespace}')).toThrow('is missing its {end}');
+    expect(() => configure('{message}{end}')).toThrow('{end} without a matching {if}');
+    expect(() => LogEngine.configure({ format: { template: '{pid}', tokens: { pid: 'nope' as unknown as () => string } } }))
+      .toThrow('Template token "pid" must be a function');
+  });
+});
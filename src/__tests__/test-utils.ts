@@ -3,6 +3,8 @@
  * Provides consistent console mocking and cleanup functionality across all test suites
  */
 
+import { LogLevel, LogRecord } from '../index';
+
 /**
  * Interface for managing console method mocks during testing
  * Groups all console spy instances for easy setup and cleanup
@@ -57,3 +59,34 @@ export const setupConsoleBeforeEach = (): ConsoleMocks => {
 export const restoreConsoleAfterEach = (mocks: ConsoleMocks): void => {
   restoreConsoleMocks(mocks);
 };
+
+/**
+ * Creates a log record for formatter and output tests
+ * Defaults to an info record logged at 2025-06-01T12:00:00.000Z
+ * @param overrides - Record fields to replace
+ * @returns The log record
+ */
+export const createRecord = (overrides: Partial<LogRecord> = {}): LogRecord => ({
+  timestamp: new Date('2025-06-01T12:00:00.000Z'),
+  level: LogLevel.INFO,
+  levelName: 'info',
+  message: 'Order placed',
+  emoji: '',
+  ...overrides
+});
+
+/**
+ * Removes ANSI color codes from formatted output
+ * @param text - Text that may contain color codes
+ * @returns Text without color codes
+ */
+// eslint-disable-next-line no-control-regex
+export const stripAnsi = (text: string): string => text.replace(/\x1b\[[0-9;]*m/g, '');
+
+/**
+ * Lists the messages of each request sent by HTTP outputs with the default payload format
+ * @param fetchMock - Jest mock installed as global.fetch
+ * @returns One array of messages per request, in order
+ */
+export const sentMessages = (fetchMock: jest.Mock): string[][] =>
+  fetchMock.mock.calls.map(call => JSON.parse(call[1].body).logs.map((log: { message: string }) => log.message));
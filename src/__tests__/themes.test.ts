@@ -0,0 +1,107 @@
+/**
+ * Tests for color themes
+ * Verifies the built-in themes, custom themes, data highlighting and theme validation
+ */
+
+import { LogEngine, LogMode, LogLevel, LogRecord, LevelRegistry, ColorSupport, Themes } from '../index';
+import { MessageFormatter, colors } from '../formatter';
+import { createRecord } from './test-utils';
+
+describe('Color themes', () => {
+  const record = (overrides: Partial<LogRecord> = {}): LogRecord =>
+    createRecord({ level: LogLevel.ERROR, levelName: 'error', message: 'Payment failed', ...overrides });
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, format: undefined });
+    jest.restoreAllMocks();
+  });
+
+  it('should keep the classic colors with the default theme', () => {
+    const line = MessageFormatter.formatRecord(record({ data: { attempts: 3 } }));
+
+    expect(MessageFormatter.formatRecord(record({ data: { attempts: 3 } }), { theme: 'default' })).toBe(line);
+    expect(line).toContain(`${colors.red}[ERROR]`);
+    expect(line).toContain(`${colors.dim}{"attempts":3}${colors.reset}`);
+  });
+
+  it('should use the colors of the built-in themes', () => {
+    const solarized = MessageFormatter.formatRecord(record(), { theme: 'solarized' });
+    const highContrast = MessageFormatter.formatRecord(record(), { theme: 'high-contrast' });
+
+    expect(solarized).toContain('\x1b[38;2;220;50;47m[ERROR]');
+    expect(solarized).toContain('\x1b[38;2;88;110;117m[');
+    expect(highContrast).toContain('\x1b[1m\x1b[7m\x1b[38;2;213;94;0m[ERROR]');
+    expect(ColorSupport.apply(solarized, 1)).toContain(`${colors.red}[ERROR]`);
+  });
+
+  it('should not use hues in the monochrome theme', () => {
+    const line = MessageFormatter.formatRecord(record({ namespace: 'billing', data: { attempts: 3 } }), { theme: 'monochrome' });
+
+    // eslint-disable-next-line no-control-regex
+    expect(line).not.toMatch(/\x1b\[(?:3|4|9)\d/);
+    expect(line).toContain('\x1b[1m\x1b[7m[ERROR]');
+  });
+
+  it('should apply custom themes on top of a base theme', () => {
+    const theme = { extends: 'solarized' as const, timestamp: 'none', levels: { error: 'bold magenta' } };
+    const line = MessageFormatter.formatRecord(record({ namespace: 'billing' }), { theme });
+
+    expect(line).toContain(`\x1b[1m${colors.magenta}[ERROR]`);
+    expect(line).toContain('\x1b[38;2;38;139;210m[billing]');
+    expect(line.startsWith('[2025-06-01T12:00:00.000Z]')).toBe(true);
+  });
+
+  it('should color the keys, strings, numbers and booleans of data', () => {
+    const theme = { key: 'cyan', string: 'green', number: 'yellow', boolean: '#f0f' };
+    const line = MessageFormatter.formatRecord(record({ data: { sku: 'X1', total: -4.5, paid: false, note: null } }), { theme });
+    const { dim, reset } = colors;
+
+    expect(line).toContain(
+      `${dim}{${colors.cyan}"sku"${reset}${dim}:${colors.green}"X1"${reset}${dim},` +
+      `${colors.cyan}"total"${reset}${dim}:${colors.yellow}-4.5${reset}${dim},` +
+      `${colors.cyan}"paid"${reset}${dim}:\x1b[38;2;255;0;255mfalse${reset}${dim},`
+    );
+    expect(line).toContain(`\x1b[38;2;255;0;255mnull${reset}${dim}}${reset}`);
+    expect(MessageFormatter.formatRecord(record({ data: 'retry 3 of 5' }), { theme })).toContain(`${dim}retry 3 of 5${reset}`);
+  });
+
+  it('should color custom levels by name and keep their registered color otherwise', () => {
+    LogEngine.registerLevel({ name: 'audit', severity: 1, color: 'gray' });
+    const level = LevelRegistry.getByName('audit')?.value as LogLevel;
+    const audit = (theme?: { levels: Record<string, string> }): string =>
+      MessageFormatter.formatRecord(record({ level, levelName: 'audit' }), { theme });
+
+    expect(audit()).toContain(`${colors.gray}[AUDIT]`);
+    expect(audit({ levels: { audit: 'cyan' } })).toContain(`${colors.cyan}[AUDIT]`);
+  });
+
+  it('should use the theme in templates and system messages', () => {
+    const theme = { namespace: 'yellow', data: 'white', key: 'cyan', system: 'bold' };
+
+    expect(MessageFormatter.formatRecord(record({ namespace: 'billing', data: { attempts: 3 } }), { theme, template: '{namespace} {data}' }))
+      .toBe(`${colors.yellow}billing${colors.reset} ${colors.white}{${colors.cyan}"attempts"${colors.reset}${colors.white}:3}${colors.reset}`);
+    expect(MessageFormatter.formatSystemMessage('notice', { theme, includeIsoTimestamp: false, includeLocalTime: false }))
+      .toBe(`\x1b[1m[LOG ENGINE]${colors.reset}: \x1b[1mnotice${colors.reset}`);
+  });
+
+  it('should write log calls with the configured theme', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    LogEngine.configure({ format: { theme: 'high-contrast', colors: 'always' } });
+
+    LogEngine.error('Payment failed');
+
+    expect(consoleError.mock.calls[0][0]).toContain('[ERROR]');
+    expect(consoleError.mock.calls[0][0]).toContain('\x1b[7m');
+  });
+
+  it('should reject unknown themes and colors', () => {
+    const configure = (theme: unknown): void => LogEngine.configure({ format: { theme: theme as 'default' } });
+
+    expect(() => configure('dracula')).toThrow('Unknown theme: "dracula"');
+    expect(() => configure({ extends: 'dracula' })).toThrow('Unknown theme: "dracula"');
+    expect(() => configure({ number: 'chartreuse' })).toThrow('Unknown theme color for "number": "chartreuse"');
+    expect(() => configure({ levels: { error: '#12345' } })).toThrow('Unknown theme color for "levels.error"');
+    expect(() => configure({ labels: 'red' })).toThrow('Unknown theme color: "labels"');
+    expect(Themes.getNames()).toEqual(['default', 'solarized', 'high-contrast', 'monochrome']);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for configurable timestamps
+ * Verifies timestamp formats, timezones and locales across text, template, JSON, logfmt, file and HTTP outputs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogEngine, LogMode, StructuredFormatter } from '../index';
+import { MessageFormatter, formatLocalTime, formatRecordTimestamp, formatTimePattern, getTimestampValue } from '../formatter';
+import { createRecord, stripAnsi } from './test-utils';
+
+describe('Timestamp formats', () => {
+  const originalFetch = global.fetch;
+  let consoleLog: jest.SpyInstance;
+  let testDir: string;
+
+  // 14:05:09.042 in Berlin (UTC+2 in summer) and 20:05:09.042 in Manila (UTC+8)
+  const timestamp = new Date('2025-06-01T12:05:09.042Z');
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-engine-timestamp-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    LogEngine.configure({ mode: LogMode.INFO, format: undefined, enhancedOutputs: undefined });
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should keep ISO timestamps and US English local time by default', () => {
+    const line = stripAnsi(MessageFormatter.formatRecord(createRecord({ timestamp }), { timestamp: { timeZone: 'UTC' } }));
+
+    expect(line).toMatch(/^\[2025-06-01T12:05:09\.042Z\]\[12:05PM\]/);
+  });
+
+  it('should show the local time in the configured timezone and locale', () => {
+    expect(formatLocalTime(timestamp, { timeZone: 'Europe/Berlin', locale: 'de-DE' })).toBe('14:05');
+    expect(formatLocalTime(timestamp, { timeZone: 'Asia/Manila' })).toBe('8:05PM');
+    expect(formatLocalTime(timestamp, { timeZone: 'Asia/Manila', hour12: false })).toBe('20:05');
+  });
+
+  it('should format RFC 3339 timestamps with the timezone offset', () => {
+    expect(formatRecordTimestamp(createRecord({ timestamp }), { format: 'rfc3339', timeZone: 'Europe/Berlin' })).toBe('2025-06-01T14:05:09.042+02:00');
+    expect(formatRecordTimestamp(createRecord({ timestamp }), { format: 'rfc3339', timeZone: 'Asia/Manila' })).toBe('2025-06-01T20:05:09.042+08:00');
+    expect(formatRecordTimestamp(createRecord({ timestamp: new Date('2025-01-15T12:00:00.000Z') }), { format: 'rfc3339', timeZone: 'America/New_York' }))
+      .toBe('2025-01-15T07:00:00.000-05:00');
+  });
+
+  it('should apply patterns in the configured timezone', () => {
+    expect(formatTimePattern(timestamp, 'YYYY-MM-DD HH:mm:ss.SSS', 'Asia/Manila')).toBe('2025-06-01 20:05:09.042');
+    expect(formatTimePattern(new Date('2025-06-01T23:30:00.000Z'), 'DD hh:mm a Z', 'Asia/Manila')).toBe('02 07:30 am +08:00');
+    expect(formatRecordTimestamp(createRecord({ timestamp }), { format: 'HH:mm:ss', timeZone: 'Europe/Berlin' })).toBe('14:05:09');
+  });
+
+  it('should write epoch and uptime timestamps as numbers in JSON lines', () => {
+    expect(getTimestampValue(createRecord({ timestamp }), { format: 'epoch' })).toBe(timestamp.getTime());
+    expect(getTimestampValue(createRecord({ timestamp, uptime: 1234.56789 }), { format: 'uptime' })).toBe(1234.568);
+    expect(formatRecordTimestamp(createRecord({ timestamp, uptime: 1234.5 }), { format: 'uptime' })).toBe('1234.500ms');
+
+    const line = JSON.parse(StructuredFormatter.toJSON(createRecord({ timestamp }), {}, { format: 'epoch' }));
+    expect(line.timestamp).toBe(timestamp.getTime());
+  });
+
+  it('should stamp records with a monotonic uptime', () => {
+    LogEngine.configure({ mode: LogMode.DEBUG, format: { style: 'json', timestamp: { format: 'uptime' } } });
+
+    LogEngine.info('first');
+    LogEngine.info('second');
+
+    const [first, second] = consoleLog.mock.calls.map(call => JSON.parse(call[0]).timestamp);
+    expect(typeof first).toBe('number');
+    expect(first).toBeGreaterThan(0);
+    expect(second).toBeGreaterThanOrEqual(first);
+  });
+
+  it('should use the timestamp settings in text lines and templates', () => {
+    const format = { timestamp: { format: 'rfc3339', timeZone: 'Asia/Manila', hour12: false } };
+
+    expect(stripAnsi(MessageFormatter.formatRecord(createRecord({ timestamp }), format))).toMatch(/^\[2025-06-01T20:05:09\.042\+08:00\]\[20:05\]/);
+    expect(stripAnsi(MessageFormatter.formatRecord(createRecord({ timestamp }), { ...format, template: '{time} {time:HH:mm} {localTime} {iso}' })))
+      .toBe('2025-06-01T20:05:09.042+08:00 20:05 20:05 2025-06-01T12:05:09.042Z');
+  });
+
+  it('should use the timestamp settings in logfmt, file and HTTP outputs', async () => {
+    const fetchMock = jest.fn(() => Promise.resolve({ ok: true }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const textPath = path.join(testDir, 'orders.log');
+    const logfmtPath = path.join(testDir, 'orders.logfmt');
+    LogEngine.configure({
+      mode: LogMode.DEBUG,
+      format: { timestamp: { format: 'YYYY-MM-DD HH:mm:ss', timeZone: 'Europe/Berlin' } },
+      enhancedOutputs: [
+        { type: 'file', config: { filePath: textPath } },
+        { type: 'file', config: { filePath: logfmtPath }, format: 'logfmt' },
+        { type: 'http', config: { url: 'https://logs.example.com/orders' } }
+      ]
+    });
+
+    LogEngine.info('Order placed');
+    await LogEngine.flush();
+
+    const expected = formatTimePattern(new Date(), 'YYYY-MM-DD', 'Europe/Berlin');
+    expect(fs.readFileSync(textPath, 'utf8')).toMatch(new RegExp(`^${expected} \\d{2}:\\d{2}:\\d{2} \\[INFO\\] Order placed`));
+    expect(fs.readFileSync(logfmtPath, 'utf8')).toMatch(new RegExp(`^timestamp="${expected} \\d{2}:\\d{2}:\\d{2}" level=info`));
+    const body = JSON.parse(((fetchMock.mock.calls[0] as unknown[])[1] as { body: string }).body);
+    expect(body.logs[0].timestamp).toMatch(new RegExp(`^${expected} \\d{2}:\\d{2}:\\d{2}$`));
+  });
+
+  it('should use the writing logger\'s timestamp settings in a shared file output', () => {
+    const filePath = path.join(testDir, 'shared.log');
+    LogEngine.configure({ enhancedOutputs: [{ type: 'file', config: { filePath } }] });
+    const child = LogEngine.child({ svc: 'a' }, { format: { timestamp: { format: 'epoch' } } });
+
+    child.info('from child');
+    LogEngine.info('from root');
+    child.info('from child again');
+
+    const lines = fs.readFileSync(filePath, 'utf8').trimEnd().split('\n');
+    expect(lines[0]).toMatch(/^\d{13} \[INFO\] from child/);
+    expect(lines[1]).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z \[INFO\] from root/);
+    expect(lines[2]).toMatch(/^\d{13} \[INFO\] from child again/);
+  });
+
+  it('should reject invalid timestamp settings', () => {
+    const configure = (timestamp: object): void => LogEngine.configure({ format: { timestamp } });
+
+    expect(() => configure({ format: '' })).toThrow('Invalid timestamp format');
+    expect(() => configure({ timeZone: 'Mars/Olympus_Mons' })).toThrow('Unknown timeZone: "Mars/Olympus_Mons"');
+    expect(() => configure({ locale: 'not a locale!' })).toThrow('Invalid locale');
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Terminal color support
+ * Detects how many colors an output stream can show and adapts ANSI escape codes to it
+ */
+
+import { ColorMode, LogData } from '../types';
+import { SafeSerializer } from '../serialization';
+
+/**
+ * Number of colors a destination can show: 0 none, 1 basic 16 colors, 2 256 colors, 3 truecolor
+ */
+export type ColorDepth = 0 | 1 | 2 | 3;
+
+/**
+ * Stream whose terminal capabilities are checked, e.g. process.stdout
+ */
+export interface ColorStream {
+  isTTY?: boolean;
+}
+
+/**
+ * RGB values of the basic 16 colors (xterm defaults), indexed like SGR 30-37 and 90-97
+ */
+const BASIC_PALETTE: ReadonlyArray<readonly [number, number, number]> = [
+  [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0], [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+  [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0], [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255]
+];
+
+/**
+ * Channel values of the 6x6x6 color cube of the 256-color palette
+ */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * Color capability detection and escape code adaptation
+ * Formatters write colors at full depth; outputs adapt each line to what their destination can show
+ */
+export class ColorSupport {
+  // eslint-disable-next-line no-control-regex
+  private static readonly SGR_PATTERN = /\x1b\[([0-9;]*)m/g;
+  // eslint-disable-next-line no-control-regex
+  private static readonly ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+  /**
+     * Validate a color mode
+     * @param mode - Color mode from the format configuration
+     */
+  static validate(mode: ColorMode): void {
+    if (mode !== 'auto' && mode !== 'always' && mode !== 'never') {
+      throw new Error(`Unknown colors mode: ${JSON.stringify(mode)}. Use 'auto', 'always' or 'never'.`);
+    }
+  }
+
+  /**
+     * Get the color depth to use for a destination
+     * 'auto' honors FORCE_COLOR, NO_COLOR, TERM=dumb and whether the stream is a terminal;
+     * 'always' keeps colors even for pipes, files and custom handlers; 'never' removes them
+     * @param mode - Color mode from the format configuration (defaults to 'auto')
+     * @param stream - Destination stream; destinations without one (files, HTTP, custom handlers) only get colors with 'always'
+     * @param env - Environment variables to read (defaults to process.env)
+     * @returns The color depth
+     */
+  static resolve(mode: ColorMode = 'auto', stream?: ColorStream, env: NodeJS.ProcessEnv = process.env): ColorDepth {
+    if (mode === 'never') {
+      return 0;
+    }
+    const terminalDepth = ColorSupport.getTerminalDepth(env);
+    if (mode === 'always') {
+      return terminalDepth;
+    }
+    if (!stream) {
+      return 0;
+    }
+
+    // FORCE_COLOR wins over everything else: 0/false disables colors, 1-3 sets the minimum depth
+    const force = env.FORCE_COLOR;
+    if (force !== undefined) {
+      if (force === '0' || force === 'false') {
+        return 0;
+      }
+      const forced = force === '2' || force === '3' ? Number(force) as ColorDepth : 1;
+      return Math.max(forced, terminalDepth) as ColorDepth;
+    }
+    if (env.NO_COLOR) {
+      return 0;
+    }
+    if (!stream.isTTY || env.TERM === 'dumb') {
+      return 0;
+    }
+    return terminalDepth;
+  }
+
+  /**
+     * Adapt the escape codes of a line to a color depth
+     * 256-color and truecolor codes are mapped to the nearest color the depth supports; depth 0 removes all codes
+     * @param text - Line with ANSI escape codes
+     * @param depth - Color depth of the destination
+     * @returns The adapted line
+     */
+  static apply(text: string, depth: ColorDepth): string {
+    if (depth === 3 || !text.includes('\x1b')) {
+      return text;
+    }
+    if (depth === 0) {
+      return ColorSupport.strip(text);
+    }
+    return text.replace(ColorSupport.SGR_PATTERN, (sequence: string, params: string) => {
+      return params.includes('8;') ? `\x1b[${ColorSupport.downsample(params.split(';').map(Number), depth)}m` : sequence;
+    });
+  }
+
+  /**
+     * Remove ANSI escape codes (colors, cursor movement and terminal titles) from text
+     * @param text - Text that may contain escape codes
+     * @returns Text without escape codes
+     */
+  static strip(text: string): string {
+    return text.includes('\x1b') ? text.replace(ColorSupport.ANSI_PATTERN, '') : text;
+  }
+
+  /**
+     * Remove ANSI escape codes from the strings of a value, including those nested in arrays and plain objects
+     * @param value - Value that may contain escape codes
+     * @param visited - Objects on the current path (prevents circular references)
+     * @returns The value, or a copy with the codes removed if any were found
+     */
+  static stripData(value: LogData, visited: WeakSet<object> = new WeakSet()): LogData {
+    if (typeof value === 'string') {
+      return ColorSupport.strip(value);
+    }
+    if (value === null || typeof value !== 'object' || visited.has(value)) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      visited.add(value);
+      const result = value.map(item => ColorSupport.stripData(item, visited));
+      visited.delete(value);
+      return result.some((item, index) => item !== value[index]) ? result : value;
+    }
+    if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) {
+      // Class instances are passed on as they are
+      return value;
+    }
+
+    visited.add(value);
+    const entries = SafeSerializer.entries(value);
+    const result = entries.map(([key, item]): [string, LogData] => [key, ColorSupport.stripData(item, visited)]);
+    visited.delete(value);
+    return result.some(([, item], index) => item !== entries[index][1]) ? Object.fromEntries(result) : value;
+  }
+
+  /**
+     * Get the color depth the terminal advertises through COLORTERM and TERM
+     * @param env - Environment variables
+     * @returns 3 for truecolor terminals, 2 for 256-color terminals, 1 otherwise
+     */
+  private static getTerminalDepth(env: NodeJS.ProcessEnv): ColorDepth {
+    if (env.COLORTERM === 'truecolor' || env.COLORTERM === '24bit' || env.WT_SESSION) {
+      return 3;
+    }
+    if (env.TERM && /-256(color)?$/i.test(env.TERM)) {
+      return 2;
+    }
+    return 1;
+  }
+
+  /**
+     * Rewrite the extended colors of an SGR parameter list for a lower depth
+     * @param params - SGR parameters, e.g. [1, 38, 2, 255, 135, 0]
+     * @param depth - Target depth (1 or 2)
+     * @returns The rewritten parameters joined with ';'
+     */
+  private static downsample(params: number[], depth: ColorDepth): string {
+    const result: number[] = [];
+    for (let i = 0; i < params.length; i++) {
+      const code = params[i];
+      if ((code !== 38 && code !== 48) || (params[i + 1] !== 5 && params[i + 1] !== 2)) {
+        result.push(code);
+        continue;
+      }
+
+      const isBackground = code === 48;
+      let rgb: [number, number, number];
+      if (params[i + 1] === 5) {
+        const index = params[i + 2] ?? 0;
+        i += 2;
+        if (depth === 2) {
+          result.push(code, 5, index);
+          continue;
+        }
+        rgb = ColorSupport.ansi256ToRgb(index);
+      } else {
+        rgb = [params[i + 2] ?? 0, params[i + 3] ?? 0, params[i + 4] ?? 0];
+        i += 4;
+      }
+
+      if (depth === 2) {
+        result.push(code, 5, ColorSupport.rgbToAnsi256(rgb));
+      } else {
+        const basic = ColorSupport.rgbToBasic(rgb);
+        result.push((basic < 8 ? 30 + basic : 82 + basic) + (isBackground ? 10 : 0));
+      }
+    }
+    return result.join(';');
+  }
+
+  /**
+     * Get the RGB value of a 256-color palette entry
+     * @param index - Palette index (0-255)
+     * @returns RGB channels
+     */
+  private static ansi256ToRgb(index: number): [number, number, number] {
+    if (index < 16) {
+      const [r, g, b] = BASIC_PALETTE[index] ?? BASIC_PALETTE[0];
+      return [r, g, b];
+    }
+    if (index >= 232) {
+      const gray = 8 + (index - 232) * 10;
+      return [gray, gray, gray];
+    }
+    const cube = index - 16;
+    return [CUBE_LEVELS[Math.floor(cube / 36)], CUBE_LEVELS[Math.floor(cube / 6) % 6], CUBE_LEVELS[cube % 6]];
+  }
+
+  /**
+     * Get the nearest 256-color palette entry of an RGB value
+     * @param rgb - RGB channels
+     * @returns Palette index in the color cube or the gray ramp
+     */
+  private static rgbToAnsi256([r, g, b]: [number, number, number]): number {
+    if (r === g && g === b) {
+      if (r < 8) {
+        return 16;
+      }
+      if (r > 248) {
+        return 231;
+      }
+      return 232 + Math.round((r - 8) / 247 * 24);
+    }
+    const level = (channel: number): number => Math.round(channel / 255 * 5);
+    return 16 + 36 * level(r) + 6 * level(g) + level(b);
+  }
+
+  /**
+     * Get the nearest basic color of an RGB value
+     * @param rgb - RGB channels
+     * @returns Index into the basic palette (0-15)
+     */
+  private static rgbToBasic([r, g, b]: [number, number, number]): number {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    BASIC_PALETTE.forEach(([pr, pg, pb], index) => {
+      const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+}
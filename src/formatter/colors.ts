@@ -23,11 +23,13 @@ export const colors = {
 /**
  * Color scheme configuration
  * Maps semantic meanings to specific colors for consistent theming
+ * These are the colors of the 'default' theme; format.theme selects other themes
  */
 export const colorScheme = {
   timestamp: colors.gray,
   timeString: colors.cyan,
   system: colors.yellow,
+  namespace: colors.cyan,
   data: colors.dim,
   reset: colors.reset
 } as const;
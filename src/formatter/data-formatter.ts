@@ -3,12 +3,38 @@
  * Handles serialization and formatting of data objects in log messages
  */
 
-import { LogData } from '../types';
+import { LogData, LogContext } from '../types';
+import { SafeSerializer } from '../serialization';
+
+/**
+ * Combines a record's context and data into the single data value shown by string-based outputs.
+ *
+ * Plain-object data is merged over the context (data wins on conflicts); any other value is kept under a `data` key.
+ *
+ * @param context - Request context and bindings of the record, if any
+ * @param data - The record's call data
+ * @returns The merged data value
+ */
+export function mergeContextData(context: LogContext | undefined, data: LogData): LogData {
+  if (!context || Object.keys(context).length === 0) {
+    return data;
+  }
+
+  if (data === undefined) {
+    return { ...context };
+  }
+
+  if (data !== null && typeof data === 'object' && Object.getPrototypeOf(data) === Object.prototype) {
+    return { ...context, ...data };
+  }
+
+  return { ...context, data };
+}
 
 /**
  * Converts input data to a readable string suitable for log output.
  *
- * Returns 'null' for `null`, an empty string for `undefined`, the value itself for strings, and string representations for numbers and booleans. For other types, attempts JSON serialization; if serialization fails, returns '[Object]'.
+ * Returns 'null' for `null`, an empty string for `undefined`, the value itself for strings, and string representations for numbers, booleans and BigInts. Other values are serialized to JSON with `SafeSerializer`, which converts errors, Dates, Maps, Sets, Buffers and other special objects and never throws.
  *
  * @param data - The value to format for logging
  * @returns The formatted string representation of the input data
@@ -26,7 +52,7 @@ export function formatData(data: LogData): string {
     return data;
   }
 
-  if (typeof data === 'number' || typeof data === 'boolean') {
+  if (typeof data === 'number' || typeof data === 'boolean' || typeof data === 'bigint') {
     return String(data);
   }
 
@@ -34,12 +60,8 @@ export function formatData(data: LogData): string {
     return data.toString();
   }
 
-  try {
-    return JSON.stringify(data, null, 0);
-  } catch {
-    // Fallback for objects that can't be stringified (e.g., circular references)
-    return '[Object]';
-  }
+  // BigInts, Maps, Sets, Buffers, errors and circular references are converted instead of failing
+  return SafeSerializer.stringify(data);
 }
 
 /**
@@ -56,3 +78,30 @@ export function styleData(dataString: string, colors: { data: string; reset: str
 
   return ` ${colors.data}${dataString}${colors.reset}`;
 }
+
+/**
+ * Colors the keys, strings, numbers, booleans and nulls of a JSON data string.
+ *
+ * Token colors are applied inside the data color, which is restored after each token. Tokens whose color is empty are left as they are.
+ *
+ * @param dataString - JSON text produced by `formatData` for an object or array
+ * @param colors - Token colors, the surrounding `data` color and the `reset` sequence
+ * @returns The highlighted string, or the input when no token colors are set
+ */
+export function highlightData(
+  dataString: string,
+  colors: { data: string; key: string; string: string; number: string; boolean: string; reset: string }
+): string {
+  if (!colors.key && !colors.string && !colors.number && !colors.boolean) {
+    return dataString;
+  }
+
+  const paint = (color: string, text: string): string => color ? `${color}${text}${colors.reset}${colors.data}` : text;
+  return dataString.replace(/("(?:[^"\\]|\\.)*")(\s*:)?|\b(true|false|null)\b|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g,
+    (token: string, quoted?: string, colon?: string, literal?: string) => {
+      if (quoted !== undefined) {
+        return colon !== undefined ? `${paint(colors.key, quoted)}${colon}` : paint(colors.string, quoted);
+      }
+      return paint(literal !== undefined ? colors.boolean : colors.number, token);
+    });
+}
@@ -0,0 +1,298 @@
+/**
+ * Pretty data rendering
+ * Renders log data as indented, syntax-highlighted text for reading in a terminal during development
+ */
+
+import { PrettyDataConfig, SanitizeConfig } from '../types';
+import { colors } from './colors';
+import { ColorSupport } from './color-support';
+import { ResolvedTheme } from './themes';
+import { TextSanitizer } from './sanitizer';
+
+/**
+ * Colors of the value kinds shown by the inspector
+ */
+interface InspectPalette {
+  key: string;
+  string: string;
+  number: string;
+  boolean: string;
+  date: string;
+  special: string;
+}
+
+/**
+ * State shared while rendering one value
+ */
+interface InspectContext {
+  options: Required<PrettyDataConfig>;
+  palette: InspectPalette;
+  visited: Set<object>;
+  sanitize?: Required<SanitizeConfig>;
+}
+
+/**
+ * Inspector-style renderer for log data
+ * Objects that fit within breakLength stay on one line; longer ones are split over indented lines
+ */
+export class DataInspector {
+  private static readonly DEFAULT_OPTIONS: Required<PrettyDataConfig> = {
+    depth: 4,
+    maxArrayLength: 20,
+    maxStringLength: 200,
+    indent: 2,
+    breakLength: 80
+  };
+
+  /**
+   * Colors used when the theme doesn't color data keys and values, similar to Node's util.inspect
+   */
+  private static readonly DEFAULT_PALETTE: InspectPalette = {
+    key: '',
+    string: colors.green,
+    number: colors.yellow,
+    boolean: colors.yellow,
+    date: colors.magenta,
+    special: colors.gray
+  };
+
+  /**
+     * Validate the prettyData option
+     * @param prettyData - true, false or rendering limits
+     */
+  static validate(prettyData: boolean | PrettyDataConfig): void {
+    if (typeof prettyData === 'boolean') {
+      return;
+    }
+    if (prettyData === null || typeof prettyData !== 'object') {
+      throw new Error('format.prettyData must be a boolean or an object.');
+    }
+    for (const [name, value] of Object.entries(prettyData)) {
+      if (!Object.prototype.hasOwnProperty.call(DataInspector.DEFAULT_OPTIONS, name)) {
+        throw new Error(`Unknown prettyData option: "${name}".`);
+      }
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`prettyData.${name} must be a non-negative integer, got ${JSON.stringify(value)}.`);
+      }
+    }
+  }
+
+  /**
+     * Get the rendering limits of the prettyData option
+     * @param prettyData - The prettyData option
+     * @returns Limits with defaults applied, or undefined when pretty data is off
+     */
+  static resolveOptions(prettyData: boolean | PrettyDataConfig | undefined): Required<PrettyDataConfig> | undefined {
+    if (!prettyData) {
+      return undefined;
+    }
+    if (prettyData === true) {
+      return DataInspector.DEFAULT_OPTIONS;
+    }
+    const defined = Object.fromEntries(Object.entries(prettyData).filter(([, value]) => value !== undefined));
+    return { ...DataInspector.DEFAULT_OPTIONS, ...defined };
+  }
+
+  /**
+     * Render a value
+     * Top-level strings are shown without quotes, like the single-line data format
+     * @param value - The data to render
+     * @param options - Rendering limits
+     * @param theme - Color theme; its key, string, number and boolean colors are used when it sets any
+     * @param sanitize - Sanitization applied to strings and keys, so they can't break the layout
+     * @returns The rendered text, possibly spanning several lines
+     */
+  static inspect(value: unknown, options: Required<PrettyDataConfig> = DataInspector.DEFAULT_OPTIONS, theme?: ResolvedTheme, sanitize?: Required<SanitizeConfig>): string {
+    const context: InspectContext = { options, palette: DataInspector.getPalette(theme), visited: new Set(), sanitize };
+    if (typeof value === 'string') {
+      return DataInspector.truncateString(value, context, false);
+    }
+    return DataInspector.render(value, context, 0);
+  }
+
+  /**
+     * Get the colors of the value kinds from a theme
+     * @param theme - Color theme
+     * @returns The theme's data colors, or the default palette when it colors no data tokens
+     */
+  private static getPalette(theme?: ResolvedTheme): InspectPalette {
+    if (!theme || (!theme.key && !theme.string && !theme.number && !theme.boolean)) {
+      return DataInspector.DEFAULT_PALETTE;
+    }
+    return { key: theme.key, string: theme.string, number: theme.number, boolean: theme.boolean, date: theme.timestamp, special: theme.data };
+  }
+
+  /**
+     * Render a value at a nesting depth
+     * @param value - The value
+     * @param context - Limits, colors and the objects on the current path
+     * @param depth - Current nesting depth
+     * @returns Rendered text
+     */
+  private static render(value: unknown, context: InspectContext, depth: number): string {
+    const { palette } = context;
+    switch (typeof value) {
+    case 'string': return DataInspector.truncateString(value, context, true);
+    case 'number': return DataInspector.paint(palette.number, Object.is(value, -0) ? '-0' : String(value));
+    case 'bigint': return DataInspector.paint(palette.number, `${value}n`);
+    case 'boolean': return DataInspector.paint(palette.boolean, String(value));
+    case 'undefined': return DataInspector.paint(palette.special, 'undefined');
+    case 'symbol': return DataInspector.paint(palette.string, value.toString());
+    case 'function': {
+      const isClass = /^class[\s{]/.test(Function.prototype.toString.call(value));
+      return DataInspector.paint(palette.special, isClass ? `[class ${value.name || '(anonymous)'}]` : `[Function: ${value.name || '(anonymous)'}]`);
+    }
+    }
+    if (value === null) {
+      return DataInspector.paint(palette.boolean, 'null');
+    }
+
+    const object = value as object;
+    if (object instanceof Date) {
+      return DataInspector.paint(palette.date, isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString());
+    }
+    if (object instanceof RegExp) {
+      return DataInspector.paint(palette.date, String(object));
+    }
+    if (context.visited.has(object)) {
+      return DataInspector.paint(palette.special, '[Circular]');
+    }
+    if (depth > context.options.depth) {
+      const name = Array.isArray(object) ? 'Array' : DataInspector.getClassName(object) ?? 'Object';
+      return DataInspector.paint(palette.special, `[${name}]`);
+    }
+
+    context.visited.add(object);
+    try {
+      return DataInspector.renderObject(object, context, depth);
+    } finally {
+      context.visited.delete(object);
+    }
+  }
+
+  /**
+     * Render an object, array, Map, Set or Buffer
+     * @param object - The object
+     * @param context - Limits, colors and the objects on the current path
+     * @param depth - Current nesting depth
+     * @returns Rendered text
+     */
+  private static renderObject(object: object, context: InspectContext, depth: number): string {
+    const { options, palette } = context;
+    const child = (item: unknown): string => DataInspector.render(item, context, depth + 1);
+    const more = (count: number): string[] =>
+      count > 0 ? [DataInspector.paint(palette.special, `... ${count} more item${count === 1 ? '' : 's'}`)] : [];
+
+    if (typeof Buffer !== 'undefined' && Buffer.isBuffer(object)) {
+      const shown = Array.from(object.subarray(0, options.maxArrayLength), byte => byte.toString(16).padStart(2, '0'));
+      const rest = object.length - shown.length;
+      return DataInspector.paint(palette.special, `<Buffer${shown.length > 0 ? ` ${shown.join(' ')}` : ''}${rest > 0 ? ` ... ${rest} more bytes` : ''}>`);
+    }
+
+    if (Array.isArray(object) || ArrayBuffer.isView(object)) {
+      const items = Array.isArray(object) ? object : Array.from(object as unknown as ArrayLike<unknown>);
+      const entries = items.slice(0, options.maxArrayLength).map(child);
+      const prefix = Array.isArray(object) ? '' : `${object.constructor.name}(${items.length}) `;
+      return DataInspector.layout(prefix, '[', [...entries, ...more(items.length - entries.length)], ']', context);
+    }
+
+    if (object instanceof Map) {
+      const entries = Array.from(object).slice(0, options.maxArrayLength).map(([key, item]) => `${child(key)} => ${child(item)}`);
+      return DataInspector.layout(`Map(${object.size}) `, '{', [...entries, ...more(object.size - entries.length)], '}', context);
+    }
+
+    if (object instanceof Set) {
+      const entries = Array.from(object).slice(0, options.maxArrayLength).map(child);
+      return DataInspector.layout(`Set(${object.size}) `, '{', [...entries, ...more(object.size - entries.length)], '}', context);
+    }
+
+    const entries = Object.entries(object).map(([key, item]) => `${DataInspector.formatKey(key, context)}: ${child(item)}`);
+    const className = DataInspector.getClassName(object);
+    const prefix = Object.getPrototypeOf(object) === null ? '[Object: null prototype] ' : className ? `${className} ` : '';
+    return DataInspector.layout(prefix, '{', entries, '}', context);
+  }
+
+  /**
+     * Join rendered entries on one line when they fit, or on indented lines otherwise
+     * @param prefix - Type name shown before the brackets, e.g. 'Map(2) '
+     * @param open - Opening bracket
+     * @param entries - Rendered entries
+     * @param close - Closing bracket
+     * @param context - Limits and colors
+     * @returns Rendered text
+     */
+  private static layout(prefix: string, open: string, entries: string[], close: string, context: InspectContext): string {
+    if (entries.length === 0) {
+      return `${prefix}${open}${close}`;
+    }
+
+    const singleLine = `${prefix}${open} ${entries.join(', ')} ${close}`;
+    if (!entries.some(entry => entry.includes('\n')) && ColorSupport.strip(singleLine).length <= context.options.breakLength) {
+      return singleLine;
+    }
+
+    const indent = ' '.repeat(context.options.indent);
+    const lines = entries.map(entry => indent + entry.split('\n').join(`\n${indent}`));
+    return `${prefix}${open}\n${lines.join(',\n')}\n${close}`;
+  }
+
+  /**
+     * Render a string, cut to maxStringLength
+     * @param value - The string
+     * @param context - Limits and colors
+     * @param quoted - Whether to quote and escape the string
+     * @returns Rendered text, followed by the number of characters cut
+     */
+  private static truncateString(value: string, context: InspectContext, quoted: boolean): string {
+    const { options, palette } = context;
+    const shown = value.length > options.maxStringLength ? value.slice(0, options.maxStringLength) : value;
+    const rest = value.length - shown.length;
+    const text = TextSanitizer.sanitize(quoted ? DataInspector.quote(shown) : shown, context.sanitize);
+    const suffix = rest > 0 ? DataInspector.paint(palette.special, `... ${rest} more character${rest === 1 ? '' : 's'}`) : '';
+    return quoted ? `${DataInspector.paint(palette.string, text)}${suffix}` : `${text}${suffix ? ` ${suffix}` : ''}`;
+  }
+
+  /**
+     * Render an object key, quoting keys that aren't identifiers
+     * @param key - The key
+     * @param context - Colors and sanitization
+     * @returns Rendered key
+     */
+  private static formatKey(key: string, context: InspectContext): string {
+    const text = /^[A-Za-z_$][\w$]*$/.test(key) ? key : TextSanitizer.sanitize(DataInspector.quote(key), context.sanitize);
+    return DataInspector.paint(context.palette.key, text);
+  }
+
+  /**
+     * Quote a string with single quotes, escaping line breaks and control characters like JSON does
+     * @param text - The string
+     * @returns Quoted string
+     */
+  private static quote(text: string): string {
+    return `'${JSON.stringify(text).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, '\\\'')}'`;
+  }
+
+  /**
+     * Get the class name of a class instance
+     * @param object - The object
+     * @returns The constructor name, or undefined for plain and null-prototype objects
+     */
+  private static getClassName(object: object): string | undefined {
+    const prototype = Object.getPrototypeOf(object);
+    if (prototype === null || prototype === Object.prototype) {
+      return undefined;
+    }
+    const name = prototype.constructor?.name;
+    return typeof name === 'string' && name !== '' && name !== 'Object' ? name : undefined;
+  }
+
+  /**
+     * Wrap text in a color
+     * @param color - ANSI color code, or '' for none
+     * @param text - Text to color
+     * @returns Colored text
+     */
+  private static paint(color: string, text: string): string {
+    return color ? `${color}${text}${colors.reset}` : text;
+  }
+}
@@ -5,6 +5,7 @@
 
 import { LogLevel, LogData, EmojiConfig } from '../types';
 import { EMOJI_MAPPINGS, FALLBACK_EMOJI } from './emoji-data';
+import { LevelRegistry } from '../levels/registry';
 
 /**
  * Compiled emoji mapping with precompiled regex for performance
@@ -20,36 +21,76 @@ interface CompiledEmojiMapping {
 /**
  * Emoji selector class
  * Provides context-aware emoji selection for log messages
+ *
+ * Each instance keeps its own mappings and regex cache so independent loggers don't share emoji state.
+ * The static methods operate on a shared instance used by the default LogEngine export.
  */
 export class EmojiSelector {
-  private static config: EmojiConfig = {
+  /** Shared instance backing the static API and the default LogEngine */
+  static readonly shared: EmojiSelector = new EmojiSelector();
+
+  private config: EmojiConfig = {
     customMappings: [],
     customFallbacks: {},
     useCustomOnly: false
   };
 
   // Cache for precompiled regex patterns
-  private static compiledMappings: CompiledEmojiMapping[] | null = null;
+  private compiledMappings: CompiledEmojiMapping[] | null = null;
 
   /**
-   * Configure the emoji selector
+   * Configure the shared emoji selector
    * @param config - Configuration options
    */
   static configure(config: Partial<EmojiConfig>): void {
-    EmojiSelector.config = {
-      ...EmojiSelector.config,
+    EmojiSelector.shared.configure(config);
+  }
+
+  /**
+   * Get the shared emoji selector configuration
+   * @returns Current emoji configuration
+   */
+  static getConfig(): EmojiConfig {
+    return EmojiSelector.shared.getConfig();
+  }
+
+  /**
+   * Reset the shared emoji selector configuration to defaults
+   */
+  static reset(): void {
+    EmojiSelector.shared.reset();
+  }
+
+  /**
+   * Select an emoji using the shared emoji selector
+   * @param level - Log level
+   * @param message - Log message
+   * @param data - Optional log data
+   * @returns Selected emoji or empty string
+   */
+  static selectEmoji(level: LogLevel, message: string, data?: LogData): string {
+    return EmojiSelector.shared.selectEmoji(level, message, data);
+  }
+
+  /**
+   * Configure the emoji selector
+   * @param config - Configuration options
+   */
+  configure(config: Partial<EmojiConfig>): void {
+    this.config = {
+      ...this.config,
       ...config
     };
     // Invalidate compiled cache when config changes
-    EmojiSelector.compiledMappings = null;
+    this.compiledMappings = null;
   }
 
   /**
    * Get current configuration
    * @returns Current emoji configuration
    */
-  static getConfig(): EmojiConfig {
-    const { customMappings = [], customFallbacks = {}, ...rest } = EmojiSelector.config;
+  getConfig(): EmojiConfig {
+    const { customMappings = [], customFallbacks = {}, ...rest } = this.config;
 
     return {
       ...rest,
@@ -61,29 +102,29 @@ export class EmojiSelector {
   /**
    * Reset configuration to defaults
    */
-  static reset(): void {
-    EmojiSelector.config = {
+  reset(): void {
+    this.config = {
       customMappings: [],
       customFallbacks: {},
       useCustomOnly: false
     };
     // Clear compiled cache
-    EmojiSelector.compiledMappings = null;
+    this.compiledMappings = null;
   }
 
   /**
    * Get compiled emoji mappings with precompiled regex patterns
    * This is cached to avoid recompiling regex on every log line
    */
-  private static getCompiledMappings(): CompiledEmojiMapping[] {
-    if (EmojiSelector.compiledMappings) {
-      return EmojiSelector.compiledMappings;
+  private getCompiledMappings(): CompiledEmojiMapping[] {
+    if (this.compiledMappings) {
+      return this.compiledMappings;
     }
 
-    const { customMappings = [], useCustomOnly } = EmojiSelector.config;
+    const { customMappings = [], useCustomOnly } = this.config;
     const mappings = useCustomOnly ? customMappings : [...customMappings, ...EMOJI_MAPPINGS];
 
-    EmojiSelector.compiledMappings = mappings.map(mapping => ({
+    this.compiledMappings = mappings.map(mapping => ({
       ...mapping,
       regexes: mapping.keywords.map(keyword => {
         // Escape regex metacharacters to prevent ReDoS and invalid patterns
@@ -94,7 +135,7 @@ export class EmojiSelector {
       })
     }));
 
-    return EmojiSelector.compiledMappings;
+    return this.compiledMappings;
   }
 
   /**
@@ -104,15 +145,15 @@ export class EmojiSelector {
    * @param data - Optional log data
    * @returns Selected emoji or empty string
    */
-  static selectEmoji(level: LogLevel, message: string, data?: LogData): string {
+  selectEmoji(level: LogLevel, message: string, data?: LogData): string {
     // Try to find context-aware emoji
-    const contextEmoji = EmojiSelector.findContextEmoji(message, data);
+    const contextEmoji = this.findContextEmoji(message, data);
     if (contextEmoji) {
       return contextEmoji;
     }
 
     // Fall back to level-based emoji
-    return EmojiSelector.getFallbackEmoji(level);
+    return this.getFallbackEmoji(level);
   }
 
   /**
@@ -121,13 +162,13 @@ export class EmojiSelector {
    * @param data - Optional log data
    * @returns Emoji if match found, null otherwise
    */
-  private static findContextEmoji(message: string, data?: LogData): string | null {
-    const searchText = EmojiSelector.prepareSearchText(message, data);
-    const compiledMappings = EmojiSelector.getCompiledMappings();
+  private findContextEmoji(message: string, data?: LogData): string | null {
+    const searchText = this.prepareSearchText(message, data);
+    const compiledMappings = this.getCompiledMappings();
 
     // Search through compiled mappings for keyword matches
     for (const mapping of compiledMappings) {
-      if (EmojiSelector.matchesWithCompiledRegexes(searchText, mapping.regexes)) {
+      if (this.matchesWithCompiledRegexes(searchText, mapping.regexes)) {
         return mapping.emoji;
       }
     }
@@ -141,7 +182,7 @@ export class EmojiSelector {
    * @param data - Optional log data
    * @returns Lowercase combined text
    */
-  private static prepareSearchText(message: string, data?: LogData): string {
+  private prepareSearchText(message: string, data?: LogData): string {
     let text = message.toLowerCase();
 
     // If data is provided and is an object, include only keys for analysis
@@ -166,7 +207,7 @@ export class EmojiSelector {
    * @param regexes - Precompiled regex patterns
    * @returns true if any regex matches
    */
-  private static matchesWithCompiledRegexes(searchText: string, regexes: RegExp[]): boolean {
+  private matchesWithCompiledRegexes(searchText: string, regexes: RegExp[]): boolean {
     return regexes.some(regex => regex.test(searchText));
   }
 
@@ -175,15 +216,15 @@ export class EmojiSelector {
    * @param level - Log level
    * @returns Fallback emoji for the level
    */
-  private static getFallbackEmoji(level: LogLevel): string {
-    const levelName = EmojiSelector.getLevelName(level);
+  private getFallbackEmoji(level: LogLevel): string {
+    const levelName = this.getLevelName(level);
 
-    // Explicitly handle unknown levels: no emoji by default
+    // Levels outside the built-in set: registered custom levels, or no emoji when unknown
     if (levelName === 'UNKNOWN') {
-      return '';
+      return this.getCustomLevelFallbackEmoji(level);
     }
 
-    const { customFallbacks = {} } = EmojiSelector.config;
+    const { customFallbacks = {} } = this.config;
 
     // Check custom fallbacks first using safe property access
     if (Object.prototype.hasOwnProperty.call(customFallbacks, levelName)) {
@@ -221,12 +262,28 @@ export class EmojiSelector {
     }
   }
 
+  /**
+   * Get fallback emoji for a registered custom level
+   * A customFallbacks entry for the level label (e.g. TRACE) overrides the registered emoji
+   * @param level - Custom log level
+   * @returns Fallback emoji, or '' for unknown levels
+   */
+  private getCustomLevelFallbackEmoji(level: LogLevel): string {
+    const info = LevelRegistry.get(level);
+    if (!info) {
+      return '';
+    }
+
+    const customFallback = Object.entries(this.config.customFallbacks ?? {}).find(([label]) => label === info.label);
+    return customFallback ? customFallback[1] ?? '' : info.emoji;
+  }
+
   /**
    * Convert LogLevel enum to string
    * @param level - Log level
    * @returns Level name as string
    */
-  private static getLevelName(level: LogLevel): 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'LOG' | 'UNKNOWN' {
+  private getLevelName(level: LogLevel): 'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'LOG' | 'UNKNOWN' {
     switch (level) {
     case LogLevel.DEBUG: return 'DEBUG';
     case LogLevel.INFO: return 'INFO';
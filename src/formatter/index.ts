@@ -5,8 +5,16 @@
 
 export { MessageFormatter } from './message-formatter';
 export { colors, colorScheme } from './colors';
-export { getTimestampComponents, formatTimestamp } from './timestamp';
-export { formatData, styleData } from './data-formatter';
+export { ColorSupport } from './color-support';
+export type { ColorDepth, ColorStream } from './color-support';
+export { Themes } from './themes';
+export type { ResolvedTheme } from './themes';
+export { DataInspector } from './data-inspector';
+export { TextSanitizer } from './sanitizer';
+export { getTimestampComponents, formatTimestamp, formatTimePattern, formatLocalTime, formatRecordTimestamp, getTimestampValue, validateTimestampConfig } from './timestamp';
+export { formatData, styleData, highlightData, mergeContextData } from './data-formatter';
+export { StructuredFormatter } from './structured-formatter';
+export { TemplateFormatter } from './template-formatter';
 export { EmojiSelector } from './emoji-selector';
 export { EMOJI_MAPPINGS, FALLBACK_EMOJI } from './emoji-data';
 
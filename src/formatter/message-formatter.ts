@@ -3,11 +3,17 @@
  * Handles the main log message formatting with colors, timestamps, and levels
  */
 
-import { LogLevel, LogData, LogFormatConfig, LogCallOptions } from '../types';
-import { colors, colorScheme } from './colors';
-import { getTimestampComponents, formatTimestamp } from './timestamp';
-import { formatData, styleData } from './data-formatter';
+import { LogLevel, LogData, LogFormatConfig, LogCallOptions, LogRecord } from '../types';
+import { colors } from './colors';
+import { formatTimestamp, formatRecordTimestamp, formatLocalTime } from './timestamp';
+import { formatData, styleData, highlightData, mergeContextData } from './data-formatter';
 import { EmojiSelector } from './emoji-selector';
+import { TemplateFormatter } from './template-formatter';
+import { ColorSupport } from './color-support';
+import { Themes, ResolvedTheme } from './themes';
+import { DataInspector } from './data-inspector';
+import { TextSanitizer } from './sanitizer';
+import { LevelRegistry } from '../levels/registry';
 
 /**
  * Core message formatter class
@@ -20,7 +26,8 @@ export class MessageFormatter {
   private static readonly DEFAULT_FORMAT_CONFIG: LogFormatConfig = {
     includeIsoTimestamp: true,
     includeLocalTime: true,
-    includeEmoji: true
+    includeEmoji: true,
+    includeNamespace: true
   };
 
   /**
@@ -31,67 +38,124 @@ export class MessageFormatter {
      * @param data - Optional data object to include in the log output
      * @param formatConfig - Optional format configuration to control element inclusion
      * @param options - Optional per-call options (e.g., emoji override)
+     * @param emojiSelector - Emoji selector to use for auto-detection (defaults to the shared selector)
      * @returns Formatted string with ANSI colors and timestamps
      */
-  static format(level: LogLevel, message: string, data?: LogData, formatConfig?: LogFormatConfig, options?: LogCallOptions): string {
+  static format(
+    level: LogLevel,
+    message: string,
+    data?: LogData,
+    formatConfig?: LogFormatConfig,
+    options?: LogCallOptions,
+    emojiSelector: EmojiSelector = EmojiSelector.shared
+  ): string {
+    // Note: EmojiSelector configuration is handled at the Logger.configure() level
+    // to avoid invalidating the compiled regex cache on every log call.
+    // This preserves the performance optimization of regex precompilation.
+
+    // Select emoji based on context if includeEmoji is true (default)
+    // Use override emoji from options if provided (including empty string to suppress), otherwise use EmojiSelector
+    let emoji = '';
+    if (formatConfig?.includeEmoji !== false) {
+      if (options?.emoji !== undefined) {
+        // Use override emoji (even if empty string)
+        emoji = options.emoji;
+      } else {
+        // Auto-select emoji
+        emoji = emojiSelector.selectEmoji(level, message, data);
+      }
+    }
+
+    return MessageFormatter.formatRecord({
+      timestamp: new Date(),
+      level,
+      levelName: MessageFormatter.getLevelName(level).toLowerCase(),
+      message,
+      data,
+      emoji,
+      ...(options?.sanitize === false ? { sanitize: false } : {})
+    }, formatConfig);
+  }
+
+  /**
+     * Formats a structured log record as a colorized text line
+     * Uses the record's own timestamp and emoji so every output shows the same values
+     * A configured template replaces the default layout
+     * Creates a structured log entry: [ISO_TIMESTAMP][LOCAL_TIME][LEVEL][EMOJI][NAMESPACE]: message [data]
+     * @param record - The log record to format
+     * @param formatConfig - Optional format configuration to control element inclusion
+     * @returns Formatted string with ANSI colors and timestamps
+     */
+  static formatRecord(record: LogRecord, formatConfig?: LogFormatConfig): string {
     // Merge provided format configuration with the default configuration
     const config: LogFormatConfig = {
       ...MessageFormatter.DEFAULT_FORMAT_CONFIG,
       ...formatConfig
     };
 
-    // Note: EmojiSelector configuration is handled at the Logger.configure() level
-    // to avoid invalidating the compiled regex cache on every log call.
-    // This preserves the performance optimization of regex precompilation.
+    const theme = Themes.resolve(config.theme);
 
-    // Build timestamp string conditionally
+    // A template replaces the bracketed layout
+    if (config.template !== undefined) {
+      const line = TemplateFormatter.format(record, config.template, {
+        label: MessageFormatter.getLevelName(record.level),
+        color: MessageFormatter.getLevelColor(record.level, theme)
+      }, config);
+      return config.colors === 'never' ? ColorSupport.strip(line) : line;
+    }
+
+    // Build timestamp string conditionally, in the configured timestamp format and locale
     let timestamp = '';
     if (config.includeIsoTimestamp || config.includeLocalTime) {
-      const { isoTimestamp, timeString } = getTimestampComponents();
+      const isoTimestamp = formatRecordTimestamp(record, config.timestamp);
+      const timeString = formatLocalTime(record.timestamp, config.timestamp);
 
       if (config.includeIsoTimestamp && config.includeLocalTime) {
         // Both timestamps included
-        timestamp = formatTimestamp(isoTimestamp, timeString, colorScheme);
+        timestamp = formatTimestamp(isoTimestamp, timeString, theme);
       } else if (config.includeIsoTimestamp) {
         // Only ISO timestamp
-        timestamp = `${colorScheme.timestamp}[${isoTimestamp}]${colors.reset}`;
+        timestamp = `${theme.timestamp}[${isoTimestamp}]${colors.reset}`;
       } else if (config.includeLocalTime) {
         // Only local time
-        timestamp = `${colorScheme.timeString}[${timeString}]${colors.reset}`;
+        timestamp = `${theme.timeString}[${timeString}]${colors.reset}`;
       }
     }
 
-    const levelName = MessageFormatter.getLevelName(level);
-    const levelColor = MessageFormatter.getLevelColor(level);
+    const levelName = MessageFormatter.getLevelName(record.level);
+    const levelColor = MessageFormatter.getLevelColor(record.level, theme);
     const coloredLevel = `${levelColor}[${levelName}]${colors.reset}`;
 
-    // Select emoji based on context if includeEmoji is true (default)
-    // Use override emoji from options if provided (including empty string to suppress), otherwise use EmojiSelector
-    let emoji = '';
-    if (config.includeEmoji !== false) {
-      if (options?.emoji !== undefined) {
-        // Use override emoji (even if empty string)
-        emoji = options.emoji;
-      } else {
-        // Auto-select emoji
-        emoji = EmojiSelector.selectEmoji(level, message, data);
-      }
-    }
-    const emojiPart = emoji ? `[${emoji}]` : '';
+    // User content is sanitized before any colors are added, so it can't forge lines or escape codes
+    const sanitize = record.sanitize === false ? undefined : TextSanitizer.resolveOptions(config.sanitize);
 
-    // Format the base message (level is always included as per requirements)
-    // Format: [TIMESTAMP][LEVEL][EMOJI]: message
-    let formattedMessage = `${timestamp}${coloredLevel}${emojiPart}: ${message}`;
+    const emojiPart = config.includeEmoji !== false && record.emoji ? `[${TextSanitizer.sanitize(record.emoji, sanitize)}]` : '';
+
+    const namespacePart = config.includeNamespace !== false && record.namespace
+      ? `${theme.namespace}[${TextSanitizer.sanitize(record.namespace, sanitize)}]${colors.reset}`
+      : '';
 
-    // Append data if provided
-    if (data !== undefined) {
-      const dataString = formatData(data);
-      const styledData = styleData(dataString, colorScheme);
+    // Format the base message (level is always included as per requirements)
+    // Format: [TIMESTAMP][LEVEL][EMOJI][NAMESPACE]: message
+    let formattedMessage = `${timestamp}${coloredLevel}${emojiPart}${namespacePart}: ${TextSanitizer.sanitize(record.message, sanitize)}`;
+
+    // Append data (merged with any context) if provided
+    const data = mergeContextData(record.context, record.data);
+    const prettyData = DataInspector.resolveOptions(config.prettyData);
+    if (data !== undefined && prettyData) {
+      // Pretty data is indented over several lines with its own colors
+      formattedMessage += ` ${DataInspector.inspect(data, prettyData, theme, sanitize)}`;
+    } else if (data !== undefined) {
+      const dataString = TextSanitizer.sanitize(formatData(data), sanitize);
+      // Objects and arrays get the theme's key, string, number and boolean colors
+      const highlighted = data !== null && typeof data === 'object' ? highlightData(dataString, theme) : dataString;
+      const styledData = styleData(highlighted, theme);
       formattedMessage += styledData;
     }
 
-    // Always reset colors at the end of the entire log line
-    return formattedMessage + colors.reset;
+    // Reset colors at the end of the entire log line; outputs adapt the codes to their destination,
+    // and colors 'never' removes them here already
+    return config.colors === 'never' ? ColorSupport.strip(formattedMessage) : formattedMessage + colors.reset;
   }
 
   /**
@@ -108,31 +172,37 @@ export class MessageFormatter {
       ...formatConfig
     };
 
+    const theme = Themes.resolve(config.theme);
+
     // Build timestamp string conditionally
     let timestamp = '';
     if (config.includeIsoTimestamp || config.includeLocalTime) {
-      const { isoTimestamp, timeString } = getTimestampComponents();
+      const now = new Date();
+      const isoTimestamp = formatRecordTimestamp({ timestamp: now }, config.timestamp);
+      const timeString = formatLocalTime(now, config.timestamp);
 
       if (config.includeIsoTimestamp && config.includeLocalTime) {
         // Both timestamps included
-        timestamp = formatTimestamp(isoTimestamp, timeString, colorScheme);
+        timestamp = formatTimestamp(isoTimestamp, timeString, theme);
       } else if (config.includeIsoTimestamp) {
         // Only ISO timestamp
-        timestamp = `${colorScheme.timestamp}[${isoTimestamp}]${colors.reset}`;
+        timestamp = `${theme.timestamp}[${isoTimestamp}]${colors.reset}`;
       } else if (config.includeLocalTime) {
         // Only local time
-        timestamp = `${colorScheme.timeString}[${timeString}]${colors.reset}`;
+        timestamp = `${theme.timeString}[${timeString}]${colors.reset}`;
       }
     }
 
-    const coloredLogEngine = `${colorScheme.system}[LOG ENGINE]${colors.reset}`;
-    const coloredMessage = `${colorScheme.system}${message}${colors.reset}`;
+    const coloredLogEngine = `${theme.system}[LOG ENGINE]${colors.reset}`;
+    const coloredMessage = `${theme.system}${message}${colors.reset}`;
 
-    return `${timestamp}${coloredLogEngine}: ${coloredMessage}`;
+    const line = `${timestamp}${coloredLogEngine}: ${coloredMessage}`;
+    return config.colors === 'never' ? ColorSupport.strip(line) : line;
   }
 
   /**
      * Converts LogLevel enum to human-readable string
+     * Custom levels use their registered label (e.g. 'TRACE')
      * @param level - The LogLevel to convert
      * @returns String representation of the log level
      */
@@ -143,24 +213,23 @@ export class MessageFormatter {
     case LogLevel.WARN: return 'WARN';
     case LogLevel.ERROR: return 'ERROR';
     case LogLevel.LOG: return 'LOG';
-    default: return 'UNKNOWN';
+    default: return LevelRegistry.get(level)?.label ?? 'UNKNOWN';
     }
   }
 
   /**
      * Maps LogLevel to appropriate ANSI color code
      * Colors help quickly identify message severity in console output
+     * The theme sets the built-in level colors; custom levels use their registered color unless the theme lists them
      * @param level - The LogLevel to get color for
+     * @param theme - The resolved color theme
      * @returns ANSI color escape sequence
      */
-  private static getLevelColor(level: LogLevel): string {
-    switch (level) {
-    case LogLevel.DEBUG: return colors.magenta;  // Purple for debug info
-    case LogLevel.INFO: return colors.blue;      // Blue for general info
-    case LogLevel.WARN: return colors.yellow;    // Yellow for warnings
-    case LogLevel.ERROR: return colors.red;      // Red for errors
-    case LogLevel.LOG: return colors.green;      // Green for always-on log messages
-    default: return colors.white;                // White for unknown levels
+  private static getLevelColor(level: LogLevel, theme: ResolvedTheme): string {
+    const info = LevelRegistry.get(level);
+    if (info && Object.prototype.hasOwnProperty.call(theme.levels, info.name)) {
+      return theme.levels[info.name];
     }
+    return info?.color ?? colors.white; // Registered color, or white for unknown levels
   }
 }
@@ -0,0 +1,116 @@
+/**
+ * Log injection protection
+ * Neutralizes line breaks, control characters and ANSI escape sequences in user-supplied text
+ */
+
+import { SanitizeAction, SanitizeConfig } from '../types';
+
+/**
+ * Escapes or strips characters that could forge log lines or take over a terminal
+ * Formatters sanitize user content before adding their own colors and line breaks
+ */
+export class TextSanitizer {
+  private static readonly DEFAULT_OPTIONS: Required<SanitizeConfig> = {
+    newlines: 'escape',
+    ansi: 'escape',
+    controlChars: 'escape'
+  };
+
+  private static readonly ACTIONS: SanitizeAction[] = ['escape', 'strip', 'keep'];
+  private static readonly NEWLINE_PATTERN = /\r\n|[\r\n\u2028\u2029]/g;
+  // CSI sequences (ESC [ or the C1 CSI character), OSC sequences ending in BEL or ST, and two-character ESC sequences
+  // eslint-disable-next-line no-control-regex
+  private static readonly ANSI_PATTERN = /(?:\x1b\[|\x9b)[0-?]*[ -/]*[@-~]|(?:\x1b\]|\x9d)[^\x07\x1b\x9c]*(?:\x07|\x1b\\|\x9c)?|\x1b[@-Z\\-_]/g;
+  // C0 controls except tab, line feed and carriage return; DEL; C1 controls
+  // eslint-disable-next-line no-control-regex
+  private static readonly CONTROL_PATTERN = /[\x00-\x08\x0b\x0c\x0e-\x1f\x7f-\x9f]/g;
+  private static readonly ANSI_OR_CONTROL_PATTERN = new RegExp(`${TextSanitizer.ANSI_PATTERN.source}|${TextSanitizer.CONTROL_PATTERN.source}`, 'g');
+
+  /**
+     * Validate the sanitize option
+     * @param sanitize - true, false or per-kind actions
+     */
+  static validate(sanitize: boolean | SanitizeConfig): void {
+    if (typeof sanitize === 'boolean') {
+      return;
+    }
+    if (sanitize === null || typeof sanitize !== 'object') {
+      throw new Error('format.sanitize must be a boolean or an object.');
+    }
+    for (const [name, action] of Object.entries(sanitize)) {
+      if (!Object.prototype.hasOwnProperty.call(TextSanitizer.DEFAULT_OPTIONS, name)) {
+        throw new Error(`Unknown sanitize option: "${name}". Use newlines, ansi or controlChars.`);
+      }
+      if (action !== undefined && !TextSanitizer.ACTIONS.includes(action)) {
+        throw new Error(`Invalid sanitize action for ${name}: ${JSON.stringify(action)}. Use 'escape', 'strip' or 'keep'.`);
+      }
+    }
+  }
+
+  /**
+     * Get the actions of the sanitize option
+     * @param sanitize - The sanitize option (defaults to true)
+     * @returns Actions with defaults applied, or undefined when sanitization is off
+     */
+  static resolveOptions(sanitize: boolean | SanitizeConfig = true): Required<SanitizeConfig> | undefined {
+    if (sanitize === false) {
+      return undefined;
+    }
+    if (sanitize === true) {
+      return TextSanitizer.DEFAULT_OPTIONS;
+    }
+    const defined = Object.fromEntries(Object.entries(sanitize).filter(([, action]) => action !== undefined));
+    return { ...TextSanitizer.DEFAULT_OPTIONS, ...defined };
+  }
+
+  /**
+     * Sanitize a piece of user content
+     * @param text - Message, string data or other user-supplied text
+     * @param options - Actions from resolveOptions(); undefined leaves the text as it is
+     * @returns The sanitized text
+     */
+  static sanitize(text: string, options: Required<SanitizeConfig> | undefined): string {
+    // Fast path for the common case of plain printable text
+    // eslint-disable-next-line no-control-regex
+    if (!options || !/[\x00-\x08\x0a-\x1f\x7f-\x9f\u2028\u2029]/.test(text)) {
+      return text;
+    }
+
+    let result = text;
+    if (options.newlines !== 'keep') {
+      result = result.replace(TextSanitizer.NEWLINE_PATTERN, match => options.newlines === 'strip' ? ' ' : TextSanitizer.escape(match));
+    }
+    if (options.ansi !== 'keep') {
+      result = result.replace(TextSanitizer.ANSI_PATTERN, match => options.ansi === 'strip' ? '' : TextSanitizer.escape(match));
+    }
+    if (options.controlChars !== 'keep') {
+      // Kept ANSI sequences are matched as a whole so their ESC characters stay intact
+      const pattern = options.ansi === 'keep' ? TextSanitizer.ANSI_OR_CONTROL_PATTERN : TextSanitizer.CONTROL_PATTERN;
+      result = result.replace(pattern, match => {
+        if (match.length > 1) {
+          return match;
+        }
+        return options.controlChars === 'strip' ? '' : TextSanitizer.escape(match);
+      });
+    }
+    return result;
+  }
+
+  /**
+     * Write the control characters of a match as visible escapes
+     * @param text - Matched characters
+     * @returns Text such as '\n' or '\x1b[31m'
+     */
+  private static escape(text: string): string {
+    return text.replace(/[\s\S]/g, char => {
+      switch (char) {
+      case '\n': return '\\n';
+      case '\r': return '\\r';
+      case '\u2028': return '\\u2028';
+      case '\u2029': return '\\u2029';
+      }
+      const code = char.charCodeAt(0);
+      return code < 0x20 || (code >= 0x7f && code <= 0x9f) ? `\\x${code.toString(16).padStart(2, '0')}` : char;
+    });
+  }
+}
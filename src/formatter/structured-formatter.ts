@@ -0,0 +1,289 @@
+/**
+ * Structured record formatting
+ * Serializes log records as JSON lines or logfmt for machine-readable outputs
+ */
+
+import { JsonFormatConfig, JsonFormatKeys, LogFormatConfig, LogRecord, OutputFormat, TimestampConfig } from '../types';
+import { SafeSerializer } from '../serialization';
+import { mergeContextData } from './data-formatter';
+import { MessageFormatter } from './message-formatter';
+import { formatRecordTimestamp, getTimestampValue } from './timestamp';
+
+/**
+ * Formatter for the non-colorized output formats
+ * Lines never contain ANSI escape codes or raw newlines
+ */
+export class StructuredFormatter {
+  private static readonly MAX_DEPTH = 10;
+  private static readonly FORMATS = ['pretty', 'json', 'logfmt'];
+  private static readonly DEFAULT_JSON_KEYS: Required<JsonFormatKeys> = {
+    timestamp: 'timestamp',
+    level: 'level',
+    message: 'message',
+    namespace: 'namespace',
+    source: 'source',
+    context: 'context',
+    data: 'data',
+    truncated: 'truncated'
+  };
+
+  /**
+     * Validate an output format
+     * @param format - Format name or custom format function
+     */
+  static validate(format: OutputFormat): void {
+    if (typeof format !== 'function' && !StructuredFormatter.FORMATS.includes(format)) {
+      throw new Error(`Unknown output format: ${JSON.stringify(format)}. Use 'pretty', 'json', 'logfmt' or a function.`);
+    }
+  }
+
+  /**
+     * Validate the style and JSON settings of a format configuration
+     * @param formatConfig - Format configuration
+     */
+  static validateFormatConfig(formatConfig: LogFormatConfig): void {
+    if (formatConfig.style !== undefined && formatConfig.style !== 'pretty' && formatConfig.style !== 'json') {
+      throw new Error(`Unknown format style: ${JSON.stringify(formatConfig.style)}. Use 'pretty' or 'json'.`);
+    }
+
+    const keys = Object.values(StructuredFormatter.getJsonKeys(formatConfig.json));
+    for (const key of keys) {
+      if (typeof key !== 'string' || key === '') {
+        throw new Error(`Invalid JSON key name: ${JSON.stringify(key)}. Key names must be non-empty strings.`);
+      }
+    }
+    if (new Set(keys).size !== keys.length) {
+      throw new Error('JSON key names must be distinct.');
+    }
+  }
+
+  /**
+     * Get the line formatter for an output format
+     * @param format - Format name or custom format function
+     * @param formatConfig - The logger's format configuration (JSON keys, timestamp settings, and the style 'pretty' differs from)
+     * @returns Function turning a record into a line, or undefined when the logger's own line is already in this format
+     */
+  static resolve(format: OutputFormat, formatConfig?: LogFormatConfig): ((record: LogRecord) => string) | undefined {
+    StructuredFormatter.validate(format);
+    switch (format) {
+    case 'pretty':
+      return formatConfig?.style === 'json' ? (record: LogRecord): string => MessageFormatter.formatRecord(record, formatConfig) : undefined;
+    case 'json': {
+      const json = formatConfig?.json;
+      const timestamp = formatConfig?.timestamp;
+      return (record: LogRecord): string => StructuredFormatter.toJSON(record, json, timestamp);
+    }
+    case 'logfmt': {
+      const timestamp = formatConfig?.timestamp;
+      return (record: LogRecord): string => StructuredFormatter.toLogfmt(record, timestamp);
+    }
+    default: return format;
+    }
+  }
+
+  /**
+     * Get the content type of a format's lines, used by HTTP outputs
+     * @param format - Format name or custom format function
+     * @returns MIME type of newline-delimited lines in this format
+     */
+  static getContentType(format: OutputFormat): string {
+    return format === 'json' ? 'application/x-ndjson' : 'text/plain; charset=utf-8';
+  }
+
+  /**
+     * Format a record as a single-line JSON object
+     * Context and data are kept under their own keys unless flattenData is set; errors are serialized with their stack and cause
+     * @param record - The log record
+     * @param config - Key names and data placement
+     * @param timestamp - Timestamp settings; 'epoch' and 'uptime' are written as numbers
+     * @returns JSON text without a trailing newline
+     */
+  static toJSON(record: LogRecord, config: JsonFormatConfig = {}, timestamp?: TimestampConfig): string {
+    const keys = StructuredFormatter.getJsonKeys(config);
+    const context = record.context && Object.keys(record.context).length > 0 ? SafeSerializer.toJSONValue(record.context) : undefined;
+    const data = SafeSerializer.toJSONValue(record.data);
+
+    const entry: Record<string, unknown> = {
+      [keys.timestamp]: getTimestampValue(record, timestamp),
+      [keys.level]: record.levelName,
+      [keys.message]: record.message
+    };
+    if (record.namespace !== undefined) {
+      entry[keys.namespace] = record.namespace;
+    }
+    if (record.source !== undefined) {
+      entry[keys.source] = record.source;
+    }
+
+    if (config.flattenData) {
+      StructuredFormatter.addFlattenedFields(entry, mergeContextData(context, data), keys);
+    } else {
+      if (context !== undefined) {
+        entry[keys.context] = context;
+      }
+      if (data !== undefined) {
+        entry[keys.data] = data;
+      }
+    }
+    if (record.truncated !== undefined) {
+      entry[keys.truncated] = record.truncated;
+    }
+
+    // Context and data are already JSON-safe, so stringifying can't fail
+    const line = JSON.stringify(entry);
+
+    // JSON.stringify escapes control characters; also escape the line separators some line readers split on
+    return line.replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+  }
+
+  /**
+     * Format a record as logfmt key=value pairs
+     * Context and data are merged and nested objects are flattened to dotted keys (e.g. user.id=7)
+     * @param record - The log record
+     * @param timestamp - Timestamp settings
+     * @returns logfmt line without a trailing newline
+     */
+  static toLogfmt(record: LogRecord, timestamp?: TimestampConfig): string {
+    const pairs: string[] = [
+      `timestamp=${StructuredFormatter.logfmtValue(formatRecordTimestamp(record, timestamp))}`,
+      `level=${StructuredFormatter.logfmtValue(record.levelName)}`,
+      `message=${StructuredFormatter.logfmtValue(record.message)}`
+    ];
+    if (record.namespace !== undefined) {
+      pairs.push(`namespace=${StructuredFormatter.logfmtValue(record.namespace)}`);
+    }
+    if (record.source !== undefined) {
+      pairs.push(`source=${StructuredFormatter.logfmtValue(record.source)}`);
+    }
+
+    const merged = mergeContextData(record.context, record.data);
+    const data = StructuredFormatter.isPlainObject(merged) ? merged : SafeSerializer.toJSONValue(merged);
+    if (data !== null && typeof data === 'object' && !Array.isArray(data)) {
+      StructuredFormatter.flatten(data, '', pairs, new WeakSet(), 0);
+    } else if (data !== undefined) {
+      pairs.push(`data=${StructuredFormatter.logfmtValue(data)}`);
+    }
+    return pairs.join(' ');
+  }
+
+  /**
+     * Get the JSON key names with defaults applied
+     * @param config - JSON line configuration
+     * @returns Key name of every standard field
+     */
+  private static getJsonKeys(config: JsonFormatConfig = {}): Required<JsonFormatKeys> {
+    const keys = { ...StructuredFormatter.DEFAULT_JSON_KEYS };
+    for (const [field, key] of Object.entries(config.keys ?? {})) {
+      if (key !== undefined && Object.prototype.hasOwnProperty.call(keys, field)) {
+        keys[field as keyof JsonFormatKeys] = key;
+      }
+    }
+    return keys;
+  }
+
+  /**
+     * Add merged context and data fields to the top level of a JSON entry
+     * Fields colliding with a standard key, and data that isn't a plain object, go under the data key
+     * @param entry - JSON entry with the standard fields set
+     * @param fields - Context merged with the record's data
+     * @param keys - Key names of the standard fields
+     */
+  private static addFlattenedFields(entry: Record<string, unknown>, fields: unknown, keys: Required<JsonFormatKeys>): void {
+    if (fields === undefined) {
+      return;
+    }
+    if (fields === null || typeof fields !== 'object' || Array.isArray(fields)) {
+      entry[keys.data] = fields;
+      return;
+    }
+
+    const standardKeys = new Set<string>(Object.values(keys));
+    const nested: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) {
+      if (standardKeys.has(key)) {
+        nested[key] = value;
+      } else {
+        entry[key] = value;
+      }
+    }
+    if (Object.keys(nested).length > 0) {
+      entry[keys.data] = nested;
+    }
+  }
+
+  /**
+     * Append the leaves of an object as logfmt pairs
+     * @param value - Object to flatten
+     * @param prefix - Dotted key of the object
+     * @param pairs - Pairs collected so far
+     * @param visited - Objects on the current path (prevents circular references)
+     * @param depth - Current nesting depth
+     */
+  private static flatten(value: object, prefix: string, pairs: string[], visited: WeakSet<object>, depth: number): void {
+    visited.add(value);
+    for (const [key, entry] of SafeSerializer.entries(value)) {
+      const path = prefix + StructuredFormatter.logfmtKey(key);
+      // Plain objects are walked so circular references can be marked; Maps, Dates, arrays and other objects are converted first
+      const child = StructuredFormatter.isPlainObject(entry) ? entry : SafeSerializer.toJSONValue(entry);
+      if (child === undefined) {
+        continue;
+      }
+      if (child !== null && typeof child === 'object' && !Array.isArray(child)) {
+        if (visited.has(child)) {
+          pairs.push(`${path}="[Circular]"`);
+        } else if (depth + 1 >= StructuredFormatter.MAX_DEPTH) {
+          pairs.push(`${path}="[Max Depth Exceeded]"`);
+        } else {
+          StructuredFormatter.flatten(child, `${path}.`, pairs, visited, depth + 1);
+        }
+        continue;
+      }
+      pairs.push(`${path}=${StructuredFormatter.logfmtValue(child)}`);
+    }
+    visited.delete(value);
+  }
+
+  /**
+     * Check whether a value is an object literal or a null-prototype object
+     * @param value - Any value
+     * @returns true for plain objects
+     */
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== 'object') {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  /**
+     * Make a key safe for logfmt by replacing spaces, quotes and '=' with underscores
+     * @param key - Object key
+     * @returns logfmt key
+     */
+  private static logfmtKey(key: string): string {
+    return key.replace(/[\s="\\]/g, '_') || '_';
+  }
+
+  /**
+     * Format a value for logfmt, quoting and escaping it when needed
+     * @param value - Primitive, Date or array
+     * @returns logfmt value
+     */
+  private static logfmtValue(value: unknown): string {
+    let text: string;
+    if (value instanceof Date) {
+      text = value.toISOString();
+    } else if (typeof value === 'string') {
+      text = value;
+    } else if (typeof value === 'object' && value !== null) {
+      text = SafeSerializer.stringify(value);
+    } else {
+      text = String(value);
+    }
+
+    // Quote empty values and values with spaces, quotes, '=' or control characters; JSON escaping handles newlines
+    // eslint-disable-next-line no-control-regex
+    return text === '' || /[\s"=\\\u0000-\u001f\u007f]/.test(text) ? JSON.stringify(text) : text;
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Template-based text formatting
+ * Renders log records through layouts such as '{time:HH:mm:ss.SSS} {level:5} {message} {data}'
+ */
+
+import { LogFormatConfig, LogRecord, PrettyDataConfig, SanitizeConfig, TemplateTokenProvider, TimestampConfig } from '../types';
+import { colors } from './colors';
+import { formatLocalTime, formatRecordTimestamp, formatTimePattern } from './timestamp';
+import { formatData, highlightData, mergeContextData } from './data-formatter';
+import { Themes, ResolvedTheme } from './themes';
+import { DataInspector } from './data-inspector';
+import { TextSanitizer } from './sanitizer';
+
+/**
+ * Parsed template element
+ */
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'token'; name: string; arg?: string; color?: string }
+  | { kind: 'if'; name: string; body: TemplateNode[] };
+
+/**
+ * Values shared by every token of one rendered line
+ */
+interface RenderContext {
+  record: LogRecord;
+  tokens: Record<string, TemplateTokenProvider>;
+  level: TemplateLevel;
+  timestamp: TimestampConfig;
+  theme: ResolvedTheme;
+  prettyData?: Required<PrettyDataConfig>;
+  sanitize?: Required<SanitizeConfig>;
+}
+
+/**
+ * Level label and color resolved by the message formatter
+ */
+export interface TemplateLevel {
+  label: string;
+  color: string;
+}
+
+/**
+ * Template compiler and renderer
+ * Tokens are written as {name}, {name:arg} and {name|color}; {if name}...{end} renders only when the token isn't empty
+ */
+export class TemplateFormatter {
+  private static readonly BUILT_IN_TOKENS = ['time', 'iso', 'localTime', 'level', 'emoji', 'namespace', 'source', 'message', 'data'];
+  private static readonly MAX_CACHED_TEMPLATES = 50;
+  private static readonly compiled = new Map<string, TemplateNode[]>();
+
+  /**
+     * Validate a template and the tokens it uses
+     * @param template - Template string
+     * @param tokens - Custom token providers
+     */
+  static validate(template: string, tokens: Record<string, TemplateTokenProvider> = {}): void {
+    if (typeof template !== 'string') {
+      throw new Error('Format template must be a string.');
+    }
+    for (const [name, provider] of Object.entries(tokens)) {
+      if (typeof provider !== 'function') {
+        throw new Error(`Template token "${name}" must be a function.`);
+      }
+    }
+    TemplateFormatter.validateNodes(TemplateFormatter.compile(template), tokens);
+  }
+
+  /**
+     * Render a record through a template
+     * @param record - The log record
+     * @param template - Template string
+     * @param level - Label and color of the record's level
+     * @param formatConfig - Format configuration with custom tokens and timestamp settings
+     * @returns The rendered line
+     */
+  static format(record: LogRecord, template: string, level: TemplateLevel, formatConfig: LogFormatConfig = {}): string {
+    const context: RenderContext = {
+      record,
+      tokens: formatConfig.tokens ?? {},
+      level,
+      timestamp: formatConfig.timestamp ?? {},
+      theme: Themes.resolve(formatConfig.theme),
+      prettyData: DataInspector.resolveOptions(formatConfig.prettyData),
+      sanitize: record.sanitize === false ? undefined : TextSanitizer.resolveOptions(formatConfig.sanitize)
+    };
+    return TemplateFormatter.render(TemplateFormatter.compile(template), context);
+  }
+
+  /**
+     * Parse a template, reusing the result for templates seen before
+     * @param template - Template string
+     * @returns Parsed nodes
+     */
+  private static compile(template: string): TemplateNode[] {
+    const cached = TemplateFormatter.compiled.get(template);
+    if (cached) {
+      return cached;
+    }
+
+    const root: TemplateNode[] = [];
+    const stack: Array<{ name: string; body: TemplateNode[] }> = [];
+    const current = (): TemplateNode[] => stack.length > 0 ? stack[stack.length - 1].body : root;
+    const pattern = /\{\{|\}\}|\{([^{}]*)\}/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    const addText = (text: string): void => {
+      if (text) {
+        current().push({ kind: 'text', text });
+      }
+    };
+
+    while ((match = pattern.exec(template)) !== null) {
+      addText(template.slice(lastIndex, match.index));
+      lastIndex = pattern.lastIndex;
+
+      if (match[0] === '{{' || match[0] === '}}') {
+        addText(match[0][0]);
+        continue;
+      }
+
+      const body = match[1].trim();
+      const condition = /^if\s+(\S+)$/.exec(body);
+      if (condition) {
+        stack.push({ name: condition[1], body: [] });
+      } else if (body === 'end') {
+        const section = stack.pop();
+        if (!section) {
+          throw new Error('Format template has an {end} without a matching {if}.');
+        }
+        current().push({ kind: 'if', name: section.name, body: section.body });
+      } else {
+        current().push(TemplateFormatter.parseToken(body));
+      }
+    }
+    addText(template.slice(lastIndex));
+
+    if (stack.length > 0) {
+      throw new Error(`Format template section {if ${stack[stack.length - 1].name}} is missing its {end}.`);
+    }
+
+    if (TemplateFormatter.compiled.size >= TemplateFormatter.MAX_CACHED_TEMPLATES) {
+      TemplateFormatter.compiled.clear();
+    }
+    TemplateFormatter.compiled.set(template, root);
+    return root;
+  }
+
+  /**
+     * Parse the inside of a token: name, then an optional :arg and |color
+     * @param body - Token text without braces, e.g. 'time:HH:mm|gray'
+     * @returns Token node
+     */
+  private static parseToken(body: string): TemplateNode {
+    let rest = body;
+    let color: string | undefined;
+    const pipe = rest.lastIndexOf('|');
+    if (pipe !== -1) {
+      color = rest.slice(pipe + 1).trim();
+      rest = rest.slice(0, pipe);
+    }
+
+    const colon = rest.indexOf(':');
+    const name = (colon === -1 ? rest : rest.slice(0, colon)).trim();
+    const arg = colon === -1 ? undefined : rest.slice(colon + 1);
+    return { kind: 'token', name, arg, color };
+  }
+
+  /**
+     * Check token names, padding widths and colors of parsed nodes
+     * @param nodes - Parsed nodes
+     * @param tokens - Custom token providers
+     */
+  private static validateNodes(nodes: TemplateNode[], tokens: Record<string, TemplateTokenProvider>): void {
+    const isKnown = (name: string): boolean =>
+      TemplateFormatter.BUILT_IN_TOKENS.includes(name) || Object.prototype.hasOwnProperty.call(tokens, name);
+
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        continue;
+      }
+      if (!isKnown(node.name)) {
+        throw new Error(`Unknown template token: {${node.name}}. Register it in format.tokens.`);
+      }
+      if (node.kind === 'if') {
+        TemplateFormatter.validateNodes(node.body, tokens);
+        continue;
+      }
+      if (node.arg !== undefined && node.name !== 'time' && !/^[<>]?\d+$/.test(node.arg.trim())) {
+        throw new Error(`Invalid width for template token {${node.name}}: ${JSON.stringify(node.arg)}.`);
+      }
+      if (node.color !== undefined && node.color !== 'none' && !TemplateFormatter.isColorName(node.color)) {
+        throw new Error(`Unknown color for template token {${node.name}}: ${JSON.stringify(node.color)}.`);
+      }
+    }
+  }
+
+  /**
+     * Render parsed nodes for a record
+     * @param nodes - Parsed nodes
+     * @param context - Record, tokens, level and timestamp settings of the line
+     * @returns Rendered text
+     */
+  private static render(nodes: TemplateNode[], context: RenderContext): string {
+    let output = '';
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        output += node.text;
+      } else if (node.kind === 'if') {
+        if (TemplateFormatter.getValue(node.name, undefined, context) !== '') {
+          output += TemplateFormatter.render(node.body, context);
+        }
+      } else {
+        output += TemplateFormatter.renderToken(node, context);
+      }
+    }
+    return output;
+  }
+
+  /**
+     * Render a single token with its padding and color
+     * Padding is applied before coloring so escape codes don't count towards the width
+     * @param node - Token node
+     * @param context - Record, tokens, level and timestamp settings of the line
+     * @returns Rendered token
+     */
+  private static renderToken(node: Extract<TemplateNode, { kind: 'token' }>, context: RenderContext): string {
+    const { record, tokens, level, theme, prettyData } = context;
+    const isTime = node.name === 'time' && !Object.prototype.hasOwnProperty.call(tokens, 'time');
+    let value = TemplateFormatter.getValue(node.name, isTime ? node.arg : undefined, context);
+
+    if (node.arg !== undefined && !isTime) {
+      const width = node.arg.trim();
+      const size = parseInt(width.replace(/^[<>]/, ''), 10);
+      value = width.startsWith('>') ? value.padStart(size) : value.padEnd(size);
+    }
+
+    const isData = node.name === 'data' && node.color === undefined && !Object.prototype.hasOwnProperty.call(tokens, 'data');
+    if (isData && prettyData) {
+      // Pretty data brings its own colors
+      return value;
+    }
+    const color = node.color !== undefined ? TemplateFormatter.getColor(node.color) : TemplateFormatter.getDefaultColor(node.name, level, tokens, theme);
+    if (isData) {
+      // Objects and arrays get the theme's key, string, number and boolean colors
+      const data = mergeContextData(record.context, record.data);
+      if (data !== null && typeof data === 'object') {
+        value = highlightData(value, { ...theme, data: color });
+      }
+    }
+    return color && value.trim() ? `${color}${value}${colors.reset}` : value;
+  }
+
+  /**
+     * Get the text of a token
+     * {time} follows the configured timestamp format; {time:pattern} and {localTime} use the configured timezone
+     * @param name - Token name
+     * @param arg - Time pattern for the time token
+     * @param context - Record, tokens, level and timestamp settings of the line
+     * @returns Token text, '' when the token has no value
+     */
+  private static getValue(name: string, arg: string | undefined, context: RenderContext): string {
+    const { record, tokens, level, timestamp, theme, prettyData, sanitize } = context;
+    if (Object.prototype.hasOwnProperty.call(tokens, name)) {
+      try {
+        const value = tokens[name](record);
+        return value === undefined || value === null ? '' : TextSanitizer.sanitize(String(value), sanitize);
+      } catch {
+        // A failing provider marks its token instead of failing the log call
+        return '[token error]';
+      }
+    }
+
+    switch (name) {
+    case 'time': return arg !== undefined ? formatTimePattern(record.timestamp, arg, timestamp.timeZone) : formatRecordTimestamp(record, timestamp);
+    case 'iso': return record.timestamp.toISOString();
+    case 'localTime': return formatLocalTime(record.timestamp, timestamp);
+    case 'level': return level.label;
+    case 'emoji': return TextSanitizer.sanitize(record.emoji, sanitize);
+    case 'namespace': return TextSanitizer.sanitize(record.namespace ?? '', sanitize);
+    case 'source': return TextSanitizer.sanitize(record.source ?? '', sanitize);
+    case 'message': return TextSanitizer.sanitize(record.message, sanitize);
+    case 'data': {
+      const data = mergeContextData(record.context, record.data);
+      return prettyData && data !== undefined ? DataInspector.inspect(data, prettyData, theme, sanitize) : TextSanitizer.sanitize(formatData(data), sanitize);
+    }
+    default: return '';
+    }
+  }
+
+  /**
+     * Get the color a built-in token uses unless the template sets one
+     * @param name - Token name
+     * @param level - Label and color of the record's level
+     * @param tokens - Custom token providers (custom tokens are uncolored)
+     * @param theme - The resolved color theme
+     * @returns ANSI color code, or '' for none
+     */
+  private static getDefaultColor(name: string, level: TemplateLevel, tokens: Record<string, TemplateTokenProvider>, theme: ResolvedTheme): string {
+    if (Object.prototype.hasOwnProperty.call(tokens, name)) {
+      return '';
+    }
+    switch (name) {
+    case 'time':
+    case 'iso': return theme.timestamp;
+    case 'localTime': return theme.timeString;
+    case 'level': return level.color;
+    case 'namespace': return theme.namespace;
+    case 'data': return theme.data;
+    default: return '';
+    }
+  }
+
+  /**
+     * Resolve a color name used in a template
+     * @param name - Color name from the colors table, or 'none'
+     * @returns ANSI color code, or '' for none
+     */
+  private static getColor(name: string): string {
+    return TemplateFormatter.isColorName(name) ? colors[name] : '';
+  }
+
+  /**
+     * Check whether a name refers to a color
+     * @param name - Color name
+     * @returns true for entries of the colors table other than reset
+     */
+  private static isColorName(name: string): name is Exclude<keyof typeof colors, 'reset'> {
+    return name !== 'reset' && Object.prototype.hasOwnProperty.call(colors, name);
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Color themes
+ * Built-in and custom themes for the colors of text lines
+ */
+
+import { ColorTheme, ThemeName } from '../types';
+import { colors } from './colors';
+
+/**
+ * Theme with every color resolved to an ANSI escape sequence ('' for no color)
+ */
+export interface ResolvedTheme {
+  timestamp: string;
+  timeString: string;
+  system: string;
+  namespace: string;
+  data: string;
+  key: string;
+  string: string;
+  number: string;
+  boolean: string;
+  levels: Record<string, string>;
+  reset: string;
+}
+
+/**
+ * Text styles usable in theme colors next to the names of the colors table
+ */
+const STYLES: Record<string, string> = {
+  bold: '\x1b[1m',
+  italic: '\x1b[3m',
+  underline: '\x1b[4m',
+  inverse: '\x1b[7m'
+};
+
+/**
+ * Built-in themes
+ * Hex colors are written as truecolor codes; outputs degrade them on terminals with fewer colors
+ */
+const BUILT_IN_THEMES: Record<ThemeName, Required<Omit<ColorTheme, 'extends'>>> = {
+  default: {
+    timestamp: 'gray',
+    timeString: 'cyan',
+    system: 'yellow',
+    namespace: 'cyan',
+    data: 'dim',
+    key: 'none',
+    string: 'none',
+    number: 'none',
+    boolean: 'none',
+    levels: { debug: 'magenta', info: 'blue', warn: 'yellow', error: 'red', log: 'green' }
+  },
+  solarized: {
+    timestamp: '#586e75',
+    timeString: '#2aa198',
+    system: '#b58900',
+    namespace: '#268bd2',
+    data: '#839496',
+    key: '#268bd2',
+    string: '#2aa198',
+    number: '#d33682',
+    boolean: '#cb4b16',
+    levels: { debug: '#6c71c4', info: '#268bd2', warn: '#b58900', error: '#dc322f', log: '#859900' }
+  },
+  // Okabe-Ito colors, which stay distinct with red-green color blindness; errors are also inverted
+  'high-contrast': {
+    timestamp: 'white',
+    timeString: 'white',
+    system: 'bold #e69f00',
+    namespace: 'bold #56b4e9',
+    data: 'white',
+    key: '#56b4e9',
+    string: 'white',
+    number: '#e69f00',
+    boolean: '#cc79a7',
+    levels: { debug: '#56b4e9', info: 'bold white', warn: 'bold #e69f00', error: 'bold inverse #d55e00', log: 'bold underline #56b4e9' }
+  },
+  monochrome: {
+    timestamp: 'dim',
+    timeString: 'dim',
+    system: 'bold',
+    namespace: 'underline',
+    data: 'dim',
+    key: 'bold',
+    string: 'none',
+    number: 'none',
+    boolean: 'none',
+    levels: { debug: 'dim', info: 'none', warn: 'bold', error: 'bold inverse', log: 'bold' }
+  }
+};
+
+/**
+ * Theme lookup and color parsing
+ */
+export class Themes {
+  private static readonly resolvedByName = new Map<ThemeName, ResolvedTheme>();
+  private static readonly resolvedCustom = new WeakMap<ColorTheme, ResolvedTheme>();
+
+  /**
+     * Validate a theme name or custom theme
+     * @param theme - Theme from the format configuration
+     */
+  static validate(theme: ThemeName | ColorTheme): void {
+    if (typeof theme === 'string') {
+      Themes.getBuiltIn(theme);
+      return;
+    }
+    if (theme === null || typeof theme !== 'object') {
+      throw new Error('Format theme must be a theme name or a theme object.');
+    }
+    if (theme.extends !== undefined) {
+      Themes.getBuiltIn(theme.extends);
+    }
+    for (const [field, value] of Object.entries(theme)) {
+      if (field === 'extends' || value === undefined) {
+        continue;
+      }
+      if (field === 'levels') {
+        for (const [level, color] of Object.entries(value ?? {})) {
+          Themes.toAnsi(color as string, `levels.${level}`);
+        }
+      } else if (Object.prototype.hasOwnProperty.call(BUILT_IN_THEMES.default, field)) {
+        Themes.toAnsi(value as string, field);
+      } else {
+        throw new Error(`Unknown theme color: "${field}".`);
+      }
+    }
+  }
+
+  /**
+     * Get the escape sequences of a theme, reusing themes resolved before
+     * @param theme - Theme name or custom theme (defaults to 'default')
+     * @returns The resolved theme
+     */
+  static resolve(theme: ThemeName | ColorTheme = 'default'): ResolvedTheme {
+    if (typeof theme === 'string') {
+      let resolved = Themes.resolvedByName.get(theme);
+      if (!resolved) {
+        resolved = Themes.build(Themes.getBuiltIn(theme));
+        Themes.resolvedByName.set(theme, resolved);
+      }
+      return resolved;
+    }
+
+    let resolved = Themes.resolvedCustom.get(theme);
+    if (!resolved) {
+      const base = Themes.getBuiltIn(theme.extends ?? 'default');
+      const defined = Object.fromEntries(Object.entries(theme).filter(([field, color]) => field !== 'extends' && field !== 'levels' && color !== undefined));
+      resolved = Themes.build({ ...base, ...defined, levels: { ...base.levels, ...theme.levels } });
+      Themes.resolvedCustom.set(theme, resolved);
+    }
+    return resolved;
+  }
+
+  /**
+     * Get the names of the built-in themes
+     * @returns Theme names
+     */
+  static getNames(): ThemeName[] {
+    return Object.keys(BUILT_IN_THEMES) as ThemeName[];
+  }
+
+  /**
+     * Convert a theme color to an ANSI escape sequence
+     * @param color - Color names, styles and hex colors separated by spaces, or 'none'
+     * @param field - Theme field the color belongs to, for error messages
+     * @returns The escape sequence, or '' for 'none'
+     */
+  static toAnsi(color: string, field = 'color'): string {
+    if (typeof color !== 'string') {
+      throw new Error(`Invalid theme color for "${field}": ${JSON.stringify(color)}.`);
+    }
+    if (color.startsWith('\x1b[')) {
+      return color;
+    }
+
+    let sequence = '';
+    for (const part of color.trim().split(/\s+/)) {
+      const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(part);
+      if (part === 'none') {
+        continue;
+      } else if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+        const [r, g, b] = [0, 2, 4].map(offset => parseInt(digits.slice(offset, offset + 2), 16));
+        sequence += `\x1b[38;2;${r};${g};${b}m`;
+      } else if (Object.prototype.hasOwnProperty.call(STYLES, part)) {
+        sequence += STYLES[part];
+      } else if (part !== 'reset' && Object.prototype.hasOwnProperty.call(colors, part)) {
+        sequence += colors[part as keyof typeof colors];
+      } else {
+        throw new Error(`Unknown theme color for "${field}": ${JSON.stringify(part)}. Use a color name, a style, a hex color or 'none'.`);
+      }
+    }
+    return sequence;
+  }
+
+  /**
+     * Get a built-in theme
+     * @param name - Theme name
+     * @returns The theme's colors
+     */
+  private static getBuiltIn(name: ThemeName): Required<Omit<ColorTheme, 'extends'>> {
+    if (!Object.prototype.hasOwnProperty.call(BUILT_IN_THEMES, name)) {
+      throw new Error(`Unknown theme: ${JSON.stringify(name)}. Use ${Themes.getNames().map(theme => `'${theme}'`).join(', ')} or a theme object.`);
+    }
+    return BUILT_IN_THEMES[name];
+  }
+
+  /**
+     * Convert every color of a complete theme to escape sequences
+     * @param theme - Theme with all colors set
+     * @returns The resolved theme
+     */
+  private static build(theme: Required<Omit<ColorTheme, 'extends'>>): ResolvedTheme {
+    const levels: Record<string, string> = {};
+    for (const [level, color] of Object.entries(theme.levels)) {
+      if (color !== undefined) {
+        levels[level] = Themes.toAnsi(color, `levels.${level}`);
+      }
+    }
+    return {
+      timestamp: Themes.toAnsi(theme.timestamp, 'timestamp'),
+      timeString: Themes.toAnsi(theme.timeString, 'timeString'),
+      system: Themes.toAnsi(theme.system, 'system'),
+      namespace: Themes.toAnsi(theme.namespace, 'namespace'),
+      data: Themes.toAnsi(theme.data, 'data'),
+      key: Themes.toAnsi(theme.key, 'key'),
+      string: Themes.toAnsi(theme.string, 'string'),
+      number: Themes.toAnsi(theme.number, 'number'),
+      boolean: Themes.toAnsi(theme.boolean, 'boolean'),
+      levels,
+      reset: colors.reset
+    };
+  }
+}
@@ -3,22 +3,22 @@
  * Handles ISO timestamp and local time formatting for log messages
  */
 
+import { performance } from 'perf_hooks';
+import { TimestampConfig } from '../types';
+
 /**
- * Generates the current timestamp as both an ISO 8601 string and a compact US English local time string.
+ * Generates a timestamp as both an ISO 8601 string and a compact local time string.
  *
+ * @param now - The moment to format (defaults to the current time)
+ * @param config - Locale, timezone and clock of the local time (defaults to US English, 12-hour, system timezone)
  * @returns An object containing `isoTimestamp` (ISO 8601 format) and `timeString` (localized time string without spaces)
  */
-export function getTimestampComponents(): {
+export function getTimestampComponents(now: Date = new Date(), config: TimestampConfig = {}): {
     isoTimestamp: string;
     timeString: string;
     } {
-  const now = new Date();
   const isoTimestamp = now.toISOString();
-  const timeString = now.toLocaleTimeString('en-US', {
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true
-  }).replace(/\s+/g, '');
+  const timeString = formatLocalTime(now, config);
 
   return {
     isoTimestamp,
@@ -26,6 +26,82 @@ export function getTimestampComponents(): {
   };
 }
 
+/**
+ * Formats the compact local time shown next to the timestamp (e.g. `4:57PM`, or `16:57` for `de-DE`).
+ *
+ * @param date - The moment to format
+ * @param config - Locale, timezone and clock to use
+ * @returns The local time without spaces
+ */
+export function formatLocalTime(date: Date, config: TimestampConfig = {}): string {
+  const locale = config.locale ?? 'en-US';
+  return date.toLocaleTimeString(locale, {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: config.hour12 ?? (config.locale === undefined ? true : undefined),
+    timeZone: config.timeZone
+  }).replace(/\s+/g, '');
+}
+
+/**
+ * Formats a record's timestamp as configured.
+ *
+ * @param record - The record whose timestamp (and uptime) is formatted
+ * @param config - Timestamp settings (defaults to ISO 8601)
+ * @returns The timestamp text
+ */
+export function formatRecordTimestamp(record: { timestamp: Date; uptime?: number }, config: TimestampConfig = {}): string {
+  const value = getTimestampValue(record, config);
+  return config.format === 'uptime' ? `${(value as number).toFixed(3)}ms` : String(value);
+}
+
+/**
+ * Gets a record's timestamp as configured, keeping numeric formats as numbers for JSON output.
+ *
+ * @param record - The record whose timestamp (and uptime) is formatted
+ * @param config - Timestamp settings (defaults to ISO 8601)
+ * @returns Milliseconds for 'epoch' and 'uptime', text for the other formats
+ */
+export function getTimestampValue(record: { timestamp: Date; uptime?: number }, config: TimestampConfig = {}): string | number {
+  const { timestamp } = record;
+  switch (config.format ?? 'iso') {
+  case 'iso': return timestamp.toISOString();
+  case 'rfc3339': return formatTimePattern(timestamp, 'YYYY-MM-DD[T]HH:mm:ss.SSSZ', config.timeZone);
+  case 'epoch': return timestamp.getTime();
+  case 'uptime': {
+    // Records created outside the logger have no uptime; derive it from the wall clock instead
+    const uptime = record.uptime ?? timestamp.getTime() - performance.timeOrigin;
+    return Math.round(uptime * 1000) / 1000;
+  }
+  default: return formatTimePattern(timestamp, config.format as string, config.timeZone);
+  }
+}
+
+/**
+ * Checks that the timezone and locale of timestamp settings are supported.
+ *
+ * @param config - Timestamp settings
+ */
+export function validateTimestampConfig(config: TimestampConfig): void {
+  if (config.format !== undefined && (typeof config.format !== 'string' || config.format === '')) {
+    throw new Error(`Invalid timestamp format: ${JSON.stringify(config.format)}. Use 'iso', 'rfc3339', 'epoch', 'uptime' or a pattern.`);
+  }
+  if (config.timeZone !== undefined) {
+    try {
+      getZoneFormatter(config.timeZone);
+    } catch {
+      throw new Error(`Unknown timeZone: ${JSON.stringify(config.timeZone)}. Use an IANA timezone such as 'Europe/Berlin'.`);
+    }
+  }
+  if (config.locale !== undefined) {
+    try {
+      new Intl.DateTimeFormat(config.locale);
+    } catch {
+      throw new Error(`Invalid locale: ${JSON.stringify(config.locale)}. Use a BCP 47 tag such as 'de-DE'.`);
+    }
+  }
+}
+
 /**
  * Returns a formatted string combining an ISO timestamp and a local time string, each wrapped with specified color codes for console output.
  *
@@ -44,3 +120,119 @@ export function formatTimestamp(
 
   return `${coloredTimestamp}${coloredTimeString}`;
 }
+
+/**
+ * Formats a date using a pattern such as 'HH:mm:ss.SSS' or 'YYYY-MM-DD hh:mm A'.
+ *
+ * Supported tokens: `YYYY`, `YY`, `MM`, `DD`, `HH` (24-hour), `hh` (12-hour), `mm`, `ss`, `SSS`, `A` (AM/PM), `a` (am/pm) and `Z` (UTC offset such as +02:00). Text in square brackets is kept as is.
+ *
+ * @param date - The moment to format
+ * @param pattern - The pattern to apply
+ * @param timeZone - IANA timezone to show the time in (defaults to the system timezone)
+ * @returns The formatted time
+ */
+export function formatTimePattern(date: Date, pattern: string, timeZone?: string): string {
+  const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+  const parts = getTimeParts(date, timeZone);
+  const offset = parts.offsetMinutes;
+
+  return pattern.replace(/\[([^\]]*)\]|YYYY|YY|MM|DD|HH|hh|mm|ss|SSS|A|a|Z/g, (token: string, literal?: string) => {
+    switch (token) {
+    case 'YYYY': return String(parts.year);
+    case 'YY': return pad(parts.year % 100);
+    case 'MM': return pad(parts.month);
+    case 'DD': return pad(parts.day);
+    case 'HH': return pad(parts.hour);
+    case 'hh': return pad(parts.hour % 12 || 12);
+    case 'mm': return pad(parts.minute);
+    case 'ss': return pad(parts.second);
+    case 'SSS': return pad(date.getMilliseconds(), 3);
+    case 'A': return parts.hour < 12 ? 'AM' : 'PM';
+    case 'a': return parts.hour < 12 ? 'am' : 'pm';
+    case 'Z': return `${offset >= 0 ? '+' : '-'}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+    default: return literal ?? token;
+    }
+  });
+}
+
+/**
+ * Date and time fields of a moment in a timezone
+ */
+interface TimeParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  offsetMinutes: number;
+}
+
+/**
+ * Cached formatters per timezone; creating Intl.DateTimeFormat instances is slow
+ */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Gets the formatter that splits dates into fields in a timezone.
+ *
+ * @param timeZone - IANA timezone
+ * @returns The cached formatter
+ */
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Splits a date into its fields in a timezone.
+ *
+ * @param date - The moment to split
+ * @param timeZone - IANA timezone (defaults to the system timezone)
+ * @returns The date and time fields and the timezone's UTC offset at that moment
+ */
+function getTimeParts(date: Date, timeZone?: string): TimeParts {
+  if (timeZone === undefined) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      offsetMinutes: -date.getTimezoneOffset()
+    };
+  }
+
+  const fields: Record<string, number> = {};
+  for (const part of getZoneFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  const parts = {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second
+  };
+  // The offset is the difference between the zone's wall-clock time read as UTC and the actual moment
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const actual = Math.floor(date.getTime() / 1000) * 1000;
+  return { ...parts, offsetMinutes: Math.round((wallClock - actual) / 60000) };
+}
@@ -21,17 +21,99 @@
  */
 
 import { Logger } from './logger';
-import type { LoggerConfig, RedactionConfig, ILogEngineWithoutRedaction, LogData, LogCallOptions } from './types';
-import { DataRedactor, defaultRedactionConfig } from './redaction';
+import type { LoggerConfig, RedactionConfig, ILogEngine, ILogEngineWithoutRedaction, ILogEngineChild, LogData, LogCallOptions, LogBindings, ChildLoggerOptions, LogContext, LogLevel, LevelDefinition, LevelInfo, LevelMethods, LogMessage, SamplingStats } from './types';
+import { defaultRedactionConfig } from './redaction';
+import { LevelRegistry } from './levels';
 
-// Create a singleton logger instance
-const logger = new Logger();
+/**
+ * Add the generated methods for a custom level to a logger API object
+ * Registering 'trace' adds trace() (with redaction) and traceRaw() (without)
+ * @param target - LogEngine or child logger API object
+ * @param logger - Logger the methods write through
+ * @param level - Registered custom level
+ */
+const attachLevelMethods = (target: object, logger: Logger, level: LevelInfo): void => {
+  Object.assign(target, {
+    [level.name]: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.logAt(level.value, message, data, options),
+    [`${level.name}Raw`]: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.logAtRaw(level.value, message, data, options)
+  });
+};
 
 /**
- * LogEngine - The main interface for logging operations
- * Provides a simple, intuitive API for all logging needs with security-first design
+ * Add the methods of every custom level registered so far
+ * @param target - LogEngine or child logger API object
+ * @param logger - Logger the methods write through
+ * @returns The target, for chaining
  */
-export const LogEngine = {
+const attachCustomLevels = <T extends object>(target: T, logger: Logger): T => {
+  for (const level of LevelRegistry.getCustomLevels()) {
+    attachLevelMethods(target, logger, level);
+  }
+  return target;
+};
+
+/**
+ * Check whether a property name is a generated method of a registered custom level
+ * @param property - Property name, e.g. 'trace' or 'traceRaw'
+ * @returns true for the methods of any custom level registered so far
+ */
+const isLevelMethod = (property: string | symbol): boolean =>
+  typeof property === 'string' && LevelRegistry.getCustomLevels().some(level => property === level.name || property === `${level.name}Raw`);
+
+/**
+ * Add the methods of custom levels to a logger API object, including levels registered after it was created
+ * Levels are registered for the whole process, so methods that are missing when first read are attached then
+ * @param target - LogEngine or child logger API object
+ * @param logger - Logger the methods write through
+ * @returns The target behind a proxy that attaches later levels
+ */
+const withCustomLevels = <T extends object>(target: T, logger: Logger): T => new Proxy(attachCustomLevels(target, logger), {
+  get: (object: T, property: string | symbol, receiver: unknown): unknown => {
+    if (!(property in object) && isLevelMethod(property)) {
+      attachCustomLevels(object, logger);
+    }
+    return Reflect.get(object, property, receiver);
+  },
+  has: (object: T, property: string | symbol): boolean => property in object || isLevelMethod(property)
+});
+
+/**
+ * Wrap a child Logger in the public child logger interface
+ * @param childLogger - Logger created via Logger.child()
+ * @returns Child logger API bound to the given Logger
+ */
+const createChildEngine = (childLogger: Logger): ILogEngineChild => withCustomLevels({
+  debug: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.debug(message, data, options),
+  info: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.info(message, data, options),
+  warn: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.warn(message, data, options),
+  error: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.error(message, data, options),
+  log: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.log(message, data, options),
+  debugRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.debugRaw(message, data, options),
+  infoRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.infoRaw(message, data, options),
+  warnRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.warnRaw(message, data, options),
+  errorRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.errorRaw(message, data, options),
+  logRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.logRaw(message, data, options),
+  withoutRedaction: (): ILogEngineWithoutRedaction => ({
+    debug: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.debugRaw(message, data, options),
+    info: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.infoRaw(message, data, options),
+    warn: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.warnRaw(message, data, options),
+    error: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.errorRaw(message, data, options),
+    log: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.logRaw(message, data, options)
+  }),
+  child: (bindings: LogBindings, options?: ChildLoggerOptions): ILogEngineChild => createChildEngine(childLogger.child(bindings, options)),
+  namespace: (name: string): ILogEngineChild => createChildEngine(childLogger.namespace(name)),
+  logAt: (level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.logAt(level, message, data, options),
+  logAtRaw: (level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void => childLogger.logAtRaw(level, message, data, options),
+  isLevelEnabled: (level: LogLevel | string): boolean => childLogger.isLevelEnabled(level)
+}, childLogger);
+
+/**
+ * Build the public logging API around a Logger instance
+ * Used for both the shared default LogEngine and isolated instances from createLogger()
+ * @param logger - Root Logger that owns configuration, redaction and emoji state
+ * @returns LogEngine API bound to the given Logger
+ */
+const createLogEngine = (logger: Logger): ILogEngine => withCustomLevels({
   /**
      * Configure the logger with new settings
      * @param config - Configuration object containing logger settings
@@ -46,16 +128,18 @@ export const LogEngine = {
   /**
      * Log a debug message with automatic data redaction
      * Only shown in DEVELOPMENT mode
-     * @param message - The debug message to log
-     * @param data - Optional data object to log (sensitive data will be redacted)
+     * Message and data may be functions; they are only called when DEBUG is enabled
+     * @param message - The debug message to log, or a function returning it
+     * @param data - Optional data object to log, or a function returning it (sensitive data will be redacted)
      * @param options - Optional per-call options (e.g., emoji override)
      * @example
      * ```typescript
      * LogEngine.debug('Processing user data', { userId: 123, email: 'user@example.com' });
      * LogEngine.debug('Starting process', undefined, { emoji: '🔍' });
+     * LogEngine.debug(() => `State: ${describeState()}`, () => buildSnapshot());
      * ```
      */
-  debug: (message: string, data?: LogData, options?: LogCallOptions): void => logger.debug(message, data, options),
+  debug: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.debug(message, data, options),
 
   /**
      * Log an info message with automatic data redaction
@@ -69,7 +153,7 @@ export const LogEngine = {
      * LogEngine.info('Database initialized', undefined, { emoji: '✅' });
      * ```
      */
-  info: (message: string, data?: LogData, options?: LogCallOptions): void => logger.info(message, data, options),
+  info: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.info(message, data, options),
 
   /**
      * Log a warning message with automatic data redaction
@@ -83,7 +167,7 @@ export const LogEngine = {
      * LogEngine.warn('Low disk space', undefined, { emoji: '💾' });
      * ```
      */
-  warn: (message: string, data?: LogData, options?: LogCallOptions): void => logger.warn(message, data, options),
+  warn: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.warn(message, data, options),
 
   /**
      * Log an error message with automatic data redaction
@@ -97,7 +181,7 @@ export const LogEngine = {
      * LogEngine.error('Critical failure', undefined, { emoji: '💥' });
      * ```
      */
-  error: (message: string, data?: LogData, options?: LogCallOptions): void => logger.error(message, data, options),
+  error: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.error(message, data, options),
 
   /**
      * Log a critical message with automatic data redaction
@@ -111,7 +195,7 @@ export const LogEngine = {
      * LogEngine.log('System ready', undefined, { emoji: '🚀' });
      * ```
      */
-  log: (message: string, data?: LogData, options?: LogCallOptions): void => logger.log(message, data, options),
+  log: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.log(message, data, options),
 
   // Raw methods that bypass redaction (use with caution)
   /**
@@ -121,7 +205,7 @@ export const LogEngine = {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  debugRaw: (message: string, data?: LogData, options?: LogCallOptions): void => logger.debugRaw(message, data, options),
+  debugRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.debugRaw(message, data, options),
 
   /**
      * Log an info message without redaction (use with caution)
@@ -130,7 +214,7 @@ export const LogEngine = {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  infoRaw: (message: string, data?: LogData, options?: LogCallOptions): void => logger.infoRaw(message, data, options),
+  infoRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.infoRaw(message, data, options),
 
   /**
      * Log a warning message without redaction (use with caution)
@@ -139,7 +223,7 @@ export const LogEngine = {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  warnRaw: (message: string, data?: LogData, options?: LogCallOptions): void => logger.warnRaw(message, data, options),
+  warnRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.warnRaw(message, data, options),
 
   /**
      * Log an error message without redaction (use with caution)
@@ -148,7 +232,7 @@ export const LogEngine = {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  errorRaw: (message: string, data?: LogData, options?: LogCallOptions): void => logger.errorRaw(message, data, options),
+  errorRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.errorRaw(message, data, options),
 
   /**
      * Log a critical message without redaction (use with caution)
@@ -157,56 +241,56 @@ export const LogEngine = {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  logRaw: (message: string, data?: LogData, options?: LogCallOptions): void => logger.logRaw(message, data, options),
+  logRaw: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.logRaw(message, data, options),
 
   // Redaction configuration methods
   /**
      * Configure data redaction settings
      * @param config - Partial redaction configuration to apply
      */
-  configureRedaction: (config: Partial<RedactionConfig>): void => DataRedactor.updateConfig(config),
+  configureRedaction: (config: Partial<RedactionConfig>): void => logger.getRedactor().updateConfig(config),
 
   /**
      * Refresh redaction configuration from environment variables
      * Useful for picking up runtime environment changes
      */
-  refreshRedactionConfig: (): void => DataRedactor.refreshConfig(),
+  refreshRedactionConfig: (): void => logger.getRedactor().refreshConfig(),
 
   /**
      * Reset redaction configuration to defaults
      */
-  resetRedactionConfig: (): void => DataRedactor.updateConfig(defaultRedactionConfig),
+  resetRedactionConfig: (): void => logger.getRedactor().updateConfig(defaultRedactionConfig),
 
   /**
      * Get current redaction configuration
      * @returns Current redaction configuration
      */
-  getRedactionConfig: (): RedactionConfig => DataRedactor.getConfig(),
+  getRedactionConfig: (): RedactionConfig => logger.getRedactor().getConfig(),
 
   // Advanced redaction methods
   /**
      * Add custom regex patterns for advanced field detection
      * @param patterns - Array of regex patterns to add
      */
-  addCustomRedactionPatterns: (patterns: RegExp[]): void => DataRedactor.addCustomPatterns(patterns),
+  addCustomRedactionPatterns: (patterns: RegExp[]): void => logger.getRedactor().addCustomPatterns(patterns),
 
   /**
      * Clear all custom redaction patterns
      */
-  clearCustomRedactionPatterns: (): void => DataRedactor.clearCustomPatterns(),
+  clearCustomRedactionPatterns: (): void => logger.getRedactor().clearCustomPatterns(),
 
   /**
      * Add custom sensitive field names to the existing list
      * @param fields - Array of field names to add
      */
-  addSensitiveFields: (fields: string[]): void => DataRedactor.addSensitiveFields(fields),
+  addSensitiveFields: (fields: string[]): void => logger.getRedactor().addSensitiveFields(fields),
 
   /**
      * Test if a field name would be redacted with current configuration
      * @param fieldName - Field name to test
      * @returns true if field would be redacted, false otherwise
      */
-  testFieldRedaction: (fieldName: string): boolean => DataRedactor.testFieldRedaction(fieldName),
+  testFieldRedaction: (fieldName: string): boolean => logger.getRedactor().testFieldRedaction(fieldName),
 
   /**
      * Temporarily disable redaction for a specific logging call
@@ -218,24 +302,258 @@ export const LogEngine = {
      * ```
      */
   withoutRedaction: (): ILogEngineWithoutRedaction => ({
-    debug: (message: string, data?: LogData, options?: LogCallOptions): void => logger.debugRaw(message, data, options),
-    info: (message: string, data?: LogData, options?: LogCallOptions): void => logger.infoRaw(message, data, options),
-    warn: (message: string, data?: LogData, options?: LogCallOptions): void => logger.warnRaw(message, data, options),
-    error: (message: string, data?: LogData, options?: LogCallOptions): void => logger.errorRaw(message, data, options),
-    log: (message: string, data?: LogData, options?: LogCallOptions): void => logger.logRaw(message, data, options)
-  })
-};
+    debug: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.debugRaw(message, data, options),
+    info: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.infoRaw(message, data, options),
+    warn: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.warnRaw(message, data, options),
+    error: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.errorRaw(message, data, options),
+    log: (message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.logRaw(message, data, options)
+  }),
+
+  /**
+     * Create a child logger with bound context fields
+     * Bound fields are merged into every call's data before redaction runs.
+     * Children inherit the parent's configuration and can override mode and format.
+     * @param bindings - Fields to include with every log call made through the child
+     * @param options - Optional per-child mode and format overrides
+     * @returns Child logger exposing the standard and raw logging methods
+     * @example
+     * ```typescript
+     * const log = LogEngine.child({ service: 'billing', requestId });
+     * log.info('Invoice created', { invoiceId: 42 });
+     * // data: { service: 'billing', requestId: '...', invoiceId: 42 }
+     *
+     * const verbose = log.child({ step: 'charge' }, { mode: LogMode.DEBUG });
+     * ```
+     */
+  child: (bindings: LogBindings, options?: ChildLoggerOptions): ILogEngineChild => createChildEngine(logger.child(bindings, options)),
+
+  /**
+     * Create a named logger
+     * Its mode can be set per namespace with namespaceModes or the LOG_NAMESPACES environment variable;
+     * the most specific wildcard pattern wins. The namespace appears in formatted output and log records.
+     * @param name - Namespace such as 'db:pool'
+     * @returns Named child logger
+     * @example
+     * ```typescript
+     * LogEngine.configure({ namespaceModes: { 'db:*': LogMode.DEBUG, '*': LogMode.WARN } });
+     *
+     * const db = LogEngine.namespace('db:pool');
+     * db.debug('Connection acquired');   // shown
+     * LogEngine.info('Server started');  // hidden, '*' is WARN
+     *
+     * // Same from the environment: LOG_NAMESPACES="db:*=debug,*=warn"
+     * ```
+     */
+  namespace: (name: string): ILogEngineChild => createChildEngine(logger.namespace(name)),
+
+  // Async context methods
+  /**
+     * Run a function with request context attached to every log call made inside it
+     * Built on AsyncLocalStorage, so the context survives awaits, timers and event emitters.
+     * Nested calls merge their context on top of the enclosing one.
+     * @param context - Fields such as requestId, userId or tenant
+     * @param fn - Function to run within the context
+     * @returns The return value of fn (a Promise for async functions)
+     * @example
+     * ```typescript
+     * app.use((req, res, next) => {
+     *   LogEngine.runWithContext({ requestId: req.headers['x-request-id'] }, next);
+     * });
+     *
+     * // Anywhere down the call chain, even after awaits:
+     * LogEngine.info('Order placed', { orderId: 7 });
+     * // data: { requestId: '...', orderId: 7 }
+     * ```
+     */
+  runWithContext: <T>(context: LogContext, fn: () => T): T => logger.runWithContext(context, fn),
+
+  /**
+     * Get the request context active for the current async execution
+     * @returns A copy of the active context, or undefined outside runWithContext()
+     */
+  getContext: (): LogContext | undefined => logger.getContext(),
+
+  // Custom level methods
+  /**
+     * Register a custom log level and generate its logging methods
+     * Levels are process-wide: filtering, formatting, emoji selection and outputs all support them,
+     * and loggers or children created afterwards get the generated methods too.
+     * @param definition - Level name, severity rank, color, fallback emoji and console method
+     * @returns This logger, typed with the generated methods
+     * @example
+     * ```typescript
+     * const log = LogEngine.registerLevel({ name: 'trace', severity: -1, color: 'gray', emoji: '🔬' });
+     * LogEngine.configure({ mode: 'trace' });
+     * log.trace('Entering handler', { args });
+     * ```
+     */
+  registerLevel<N extends string>(definition: LevelDefinition<N>): ILogEngine & LevelMethods<N> {
+    if (!LevelRegistry.getByName(definition.name) && (definition.name in this || `${definition.name}Raw` in this)) {
+      throw new Error(`Cannot register log level "${definition.name}": it conflicts with an existing LogEngine method`);
+    }
+    attachLevelMethods(this, logger, LevelRegistry.register(definition));
+    return this as ILogEngine & LevelMethods<N>;
+  },
+
+  /**
+     * Log a message at a level given by value or name, with automatic data redaction
+     * @param level - Level value or registered level name (e.g. 'fatal')
+     * @param message - The message to log
+     * @param data - Optional data object to log (sensitive data will be redacted)
+     * @param options - Optional per-call options (e.g., emoji override)
+     */
+  logAt: (level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.logAt(level, message, data, options),
+
+  /**
+     * Log a message at a level given by value or name, without redaction
+     * @param level - Level value or registered level name (e.g. 'fatal')
+     * @param message - The message to log
+     * @param data - Optional data object to log (no redaction applied)
+     * @param options - Optional per-call options (e.g., emoji override)
+     */
+  logAtRaw: (level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void => logger.logAtRaw(level, message, data, options),
+
+  /**
+     * Check whether messages at a level would currently be logged
+     * Use it to guard larger blocks of work that only exist to feed a log call
+     * @param level - Level value or name (e.g. LogLevel.DEBUG or 'trace')
+     * @returns true if the level passes the current mode
+     * @example
+     * ```typescript
+     * if (LogEngine.isLevelEnabled(LogLevel.DEBUG)) {
+     *   LogEngine.debug('Cache dump', buildCacheReport());
+     * }
+     * ```
+     */
+  isLevelEnabled: (level: LogLevel | string): boolean => logger.isLevelEnabled(level),
+
+  // Sampling diagnostics
+  /**
+     * Get counts of records kept and sampled out by the sampling rules
+     * @returns Totals plus per-level counts (only levels with a rule are counted)
+     * @example
+     * ```typescript
+     * LogEngine.configure({ sampling: { info: { rate: 0.1, key: 'requestId' }, error: 1 } });
+     * // ...
+     * LogEngine.getSamplingStats(); // { kept: 12, dropped: 108, byLevel: { info: { kept: 12, dropped: 108 } } }
+     * ```
+     */
+  getSamplingStats: (): SamplingStats => logger.getSamplingStats(),
+
+  /**
+     * Reset sampling counts to zero
+     */
+  resetSamplingStats: (): void => logger.resetSamplingStats(),
+
+  /**
+     * Drain every output: pending rate limit summaries, buffered HTTP logs and queued file writes
+     * Resolves once in-flight HTTP requests have completed
+     * @param timeoutMs - Optional maximum time to wait
+     * @returns true when everything was drained, false if the timeout elapsed first
+     * @example
+     * ```typescript
+     * await LogEngine.flush(2000);
+     * ```
+     */
+  flush: (timeoutMs?: number): Promise<boolean> => logger.flush(timeoutMs),
+
+  /**
+     * Flush every output, then release the file and HTTP handlers
+     * Logging after close() creates the handlers again
+     * @param timeoutMs - Optional maximum time to wait for the flush
+     * @returns true when everything was drained, false if the timeout elapsed first
+     * @example
+     * ```typescript
+     * process.on('SIGTERM', async () => {
+     *   await LogEngine.close(5000);
+     *   process.exit(0);
+     * });
+     * ```
+     */
+  close: (timeoutMs?: number): Promise<boolean> => logger.close(timeoutMs)
+}, logger);
+
+/**
+ * LogEngine - The main interface for logging operations
+ * Provides a simple, intuitive API for all logging needs with security-first design
+ * This is a process-wide shared instance; use createLogger() for an isolated one
+ */
+export const LogEngine: ILogEngine = createLogEngine(new Logger());
+
+/**
+ * Create an independent logger instance
+ * The returned logger has its own mode, outputs, redaction rules and emoji configuration,
+ * so libraries sharing a process don't overwrite each other's settings.
+ * @param config - Optional initial logger configuration
+ * @returns An isolated LogEngine API
+ * @example
+ * ```typescript
+ * import { createLogger, LogMode } from '@wgtechlabs/log-engine';
+ *
+ * const logger = createLogger({ mode: LogMode.WARN });
+ * logger.configureRedaction({ redactionText: '***' });
+ * logger.warn('Only this instance uses ***', { password: 'secret' });
+ * ```
+ */
+export function createLogger(config: Partial<LoggerConfig> = {}): ILogEngine {
+  const logger = Logger.createIsolated();
+  logger.configure(config);
+  return createLogEngine(logger);
+}
 
 // Re-export types and utilities for external use
 export { LogMode, LogLevel } from './types';
 export type {
   LoggerConfig,
   LogFormatConfig,
+  JsonFormatConfig,
+  JsonFormatKeys,
+  TemplateTokenProvider,
+  TimestampConfig,
+  ColorMode,
+  ThemeName,
+  ColorTheme,
+  PrettyDataConfig,
+  SanitizeConfig,
+  SanitizeAction,
   RedactionConfig,
+  ValueDetector,
+  BuiltInDetector,
   LogOutputHandler,
   BuiltInOutputHandler,
   OutputTarget,
   LogCallOptions,
+  LogMessage,
+  LogBindings,
+  LogContext,
+  ChildLoggerOptions,
+  ILogEngine,
+  ILogEngineChild,
+  ILogEngineWithoutRedaction,
+  LogRecord,
+  LogRecordHandler,
+  RecordOutputTarget,
+  OutputTargetOptions,
+  OutputFormat,
+  RoutingConfig,
+  RouteRule,
+  RouteMatch,
+  RouteValueMatcher,
+  NamespaceModes,
+  SamplingConfig,
+  SamplingRule,
+  SamplingStats,
+  RateLimitConfig,
+  PayloadLimits,
+  TruncationInfo,
+  FlushOnExitOptions,
+  SerializedError,
+  ValueSerializer,
+  // Custom level types
+  LevelDefinition,
+  LevelInfo,
+  LevelMethods,
+  ConsoleMethod,
   // Advanced types
   FileOutputConfig,
   HttpOutputConfig,
@@ -245,8 +563,11 @@ export type {
   EmojiConfig,
   EmojiMapping
 } from './types';
-export { DataRedactor, defaultRedactionConfig, RedactionController } from './redaction';
-export { EmojiSelector, EMOJI_MAPPINGS, FALLBACK_EMOJI } from './formatter';
+export { DataRedactor, defaultRedactionConfig, RedactionController, builtInDetectors, optInDetectors } from './redaction';
+export { EmojiSelector, EMOJI_MAPPINGS, FALLBACK_EMOJI, StructuredFormatter, ColorSupport, Themes, DataInspector, TextSanitizer } from './formatter';
+export type { ColorDepth } from './formatter';
+export { LevelRegistry } from './levels';
+export { ErrorSerializer, SafeSerializer } from './serialization';
 
 // Default export for convenience
 export default LogEngine;
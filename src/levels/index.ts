@@ -0,0 +1,6 @@
+/**
+ * Levels module exports
+ * Provides access to the built-in and custom log level registry
+ */
+
+export { LevelRegistry } from './registry';
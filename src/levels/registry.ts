@@ -0,0 +1,194 @@
+/**
+ * Log level registry
+ * Holds the built-in levels and any custom levels (e.g. TRACE, FATAL, NOTICE) registered at runtime
+ */
+
+import { LogLevel, LogMode, LevelDefinition, LevelInfo, ConsoleMethod } from '../types';
+import { colors } from '../formatter/colors';
+import { FALLBACK_EMOJI } from '../formatter/emoji-data';
+
+/**
+ * Process-wide registry of log levels
+ * Filtering, formatting, emoji selection and outputs all resolve levels through this registry
+ */
+export class LevelRegistry {
+  // Custom level values start above LOG (99) so they never collide with built-in LogLevel values
+  private static readonly CUSTOM_LEVEL_START = 100;
+
+  // Severity of the LOG level; custom levels must stay below it so SILENT and OFF keep their meaning
+  private static readonly MAX_CUSTOM_SEVERITY = 99;
+
+  // Built-in levels, matching the LogLevel enum
+  private static readonly BUILT_IN_LEVELS: LevelInfo[] = [
+    { value: LogLevel.DEBUG, name: 'debug', label: 'DEBUG', severity: 0, color: colors.magenta, emoji: FALLBACK_EMOJI.DEBUG, consoleMethod: 'log', builtIn: true },
+    { value: LogLevel.INFO, name: 'info', label: 'INFO', severity: 1, color: colors.blue, emoji: FALLBACK_EMOJI.INFO, consoleMethod: 'log', builtIn: true },
+    { value: LogLevel.WARN, name: 'warn', label: 'WARN', severity: 2, color: colors.yellow, emoji: FALLBACK_EMOJI.WARN, consoleMethod: 'warn', builtIn: true },
+    { value: LogLevel.ERROR, name: 'error', label: 'ERROR', severity: 3, color: colors.red, emoji: FALLBACK_EMOJI.ERROR, consoleMethod: 'error', builtIn: true },
+    { value: LogLevel.LOG, name: 'log', label: 'LOG', severity: 99, color: colors.green, emoji: FALLBACK_EMOJI.LOG, consoleMethod: 'log', builtIn: true }
+  ];
+
+  private static readonly levelsByValue = new Map<number, LevelInfo>(LevelRegistry.BUILT_IN_LEVELS.map(level => [level.value, level]));
+  private static readonly levelsByName = new Map<string, LevelInfo>(LevelRegistry.BUILT_IN_LEVELS.map(level => [level.name, level]));
+  private static nextValue = LevelRegistry.CUSTOM_LEVEL_START;
+
+  /**
+     * Register a custom log level
+     * Registering the same definition again is a no-op; a conflicting definition throws
+     * @param definition - Level name, severity, color, fallback emoji and console method
+     * @returns The registered level information
+     */
+  static register(definition: LevelDefinition): LevelInfo {
+    const name = LevelRegistry.validateName(definition.name);
+    LevelRegistry.validateSeverity(name, definition.severity);
+
+    const candidate: Omit<LevelInfo, 'value'> = {
+      name,
+      label: name.toUpperCase(),
+      severity: definition.severity,
+      color: LevelRegistry.resolveColor(definition.color),
+      emoji: definition.emoji ?? '',
+      consoleMethod: LevelRegistry.validateConsoleMethod(name, definition.consoleMethod ?? 'log'),
+      builtIn: false
+    };
+
+    const existing = LevelRegistry.levelsByName.get(name);
+    if (existing) {
+      if (existing.builtIn) {
+        throw new Error(`Cannot redefine built-in log level "${name}"`);
+      }
+      if (!LevelRegistry.isSameDefinition(existing, candidate)) {
+        throw new Error(`Log level "${name}" is already registered with a different definition`);
+      }
+      return existing;
+    }
+
+    const level: LevelInfo = { ...candidate, value: LevelRegistry.nextValue++ as LogLevel };
+    LevelRegistry.add(level);
+    return level;
+  }
+
+  /**
+     * Look up a level by its numeric value
+     * @param level - Level value carried by a log record
+     * @returns Level information, or undefined for unknown values
+     */
+  static get(level: LogLevel): LevelInfo | undefined {
+    return LevelRegistry.levelsByValue.get(level);
+  }
+
+  /**
+     * Look up a level by name (case-insensitive)
+     * @param name - Level name such as 'trace' or 'WARN'
+     * @returns Level information, or undefined for unknown names
+     */
+  static getByName(name: string): LevelInfo | undefined {
+    return LevelRegistry.levelsByName.get(name.trim().toLowerCase());
+  }
+
+  /**
+     * Resolve a level given either by value or by name
+     * @param level - Level value or name
+     * @returns Level information, or undefined when the level is not registered
+     */
+  static resolve(level: LogLevel | string): LevelInfo | undefined {
+    return typeof level === 'string' ? LevelRegistry.getByName(level) : LevelRegistry.get(level);
+  }
+
+  /**
+     * Get all custom (non built-in) levels in registration order
+     * @returns Registered custom levels
+     */
+  static getCustomLevels(): LevelInfo[] {
+    return Array.from(LevelRegistry.levelsByValue.values()).filter(level => !level.builtIn);
+  }
+
+  /**
+     * Check whether a mode value refers to a known LogMode or level name
+     * @param mode - Mode from configuration
+     * @returns true if the mode can be resolved to a threshold
+     */
+  static isValidMode(mode: LogMode | string): boolean {
+    if (typeof mode === 'string') {
+      return LevelRegistry.getByName(mode) !== undefined;
+    }
+    return Object.values(LogMode).includes(mode);
+  }
+
+  /**
+     * Store a level in both lookup maps
+     * @param level - Level to store
+     */
+  private static add(level: LevelInfo): void {
+    LevelRegistry.levelsByValue.set(level.value, level);
+    LevelRegistry.levelsByName.set(level.name, level);
+  }
+
+  /**
+     * Validate a level name
+     * Names become method names, so they must be lowercase identifiers
+     * @param name - Proposed level name
+     * @returns The validated name
+     */
+  private static validateName(name: string): string {
+    if (typeof name !== 'string' || !/^[a-z][a-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid log level name: ${JSON.stringify(name)}. Use lowercase letters, digits and underscores, starting with a letter.`);
+    }
+    return name;
+  }
+
+  /**
+     * Validate a level severity
+     * @param name - Level name (for error messages)
+     * @param severity - Proposed severity rank
+     */
+  private static validateSeverity(name: string, severity: number): void {
+    if (typeof severity !== 'number' || !Number.isFinite(severity) || severity >= LevelRegistry.MAX_CUSTOM_SEVERITY) {
+      throw new Error(`Invalid severity for log level "${name}": ${severity}. Severity must be a finite number below ${LevelRegistry.MAX_CUSTOM_SEVERITY}.`);
+    }
+  }
+
+  /**
+     * Validate a console method name
+     * @param name - Level name (for error messages)
+     * @param method - Proposed console method
+     * @returns The validated console method
+     */
+  private static validateConsoleMethod(name: string, method: ConsoleMethod): ConsoleMethod {
+    switch (method) {
+    case 'log':
+    case 'info':
+    case 'warn':
+    case 'error':
+    case 'debug':
+      return method;
+    default:
+      throw new Error(`Invalid console method for log level "${name}": ${JSON.stringify(method)}`);
+    }
+  }
+
+  /**
+     * Resolve a color name from the built-in palette, or pass an ANSI sequence through
+     * @param color - Color name or ANSI escape sequence
+     * @returns ANSI escape sequence (white when omitted)
+     */
+  private static resolveColor(color?: string): string {
+    if (color === undefined) {
+      return colors.white;
+    }
+    const named = Object.entries(colors).find(([key]) => key === color && key !== 'reset');
+    return named ? named[1] : color;
+  }
+
+  /**
+     * Compare a registered level with a new definition
+     * @param existing - Registered level
+     * @param candidate - Level built from the new definition
+     * @returns true if both describe the same level
+     */
+  private static isSameDefinition(existing: LevelInfo, candidate: Omit<LevelInfo, 'value'>): boolean {
+    return existing.severity === candidate.severity &&
+      existing.color === candidate.color &&
+      existing.emoji === candidate.emoji &&
+      existing.consoleMethod === candidate.consoleMethod;
+  }
+}
@@ -6,7 +6,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import type { FileOutputConfig, HttpOutputConfig } from '../types';
+import type { FileOutputConfig, HttpOutputConfig, LogRecord, LogRecordHandler } from '../types';
+import { mergeContextData } from '../formatter/data-formatter';
+import { SafeSerializer } from '../serialization';
+import { TextSanitizer } from '../formatter/sanitizer';
 
 // Type definitions for HTTP operations
 interface LogEntry {
@@ -14,12 +17,27 @@ interface LogEntry {
   message: string;
   data?: unknown;
   timestamp: string;
+  namespace?: string;
+  /** Pre-formatted line, set when the output has a format */
+  line?: string;
 }
 
 interface HttpPayload {
   logs: LogEntry[];
 }
 
+/**
+ * Settings a logger passes to the file and HTTP outputs it creates
+ */
+export interface RecordOutputOptions {
+  /** Content type of HTTP requests carrying formatted lines */
+  lineContentType?: string;
+  /** Formats the timestamp written by the default file and HTTP formatters (defaults to ISO 8601) */
+  formatTimestamp?: (record: LogRecord) => string;
+  /** Escapes line breaks and control characters in the message and data of the default file formatter (defaults to the built-in sanitizer) */
+  sanitizeText?: (text: string, record?: LogRecord) => string;
+}
+
 interface HttpRequestOptions {
   hostname: string;
   port: number;
@@ -228,9 +246,17 @@ export class FileOutputHandler {
   private config: Required<FileOutputConfig>;
   private currentFileSize: number = 0;
   private rotationInProgress: boolean = false;
-  private writeQueue: Array<{ level: string; message: string; data?: unknown }> = [];
+  private writeQueue: Array<{ level: string; message: string; data?: unknown; record?: LogRecord; line?: string }> = [];
+  private readonly formatTimestamp: (record: LogRecord) => string;
+  private readonly sanitizeText: (text: string, record?: LogRecord) => string;
 
-  constructor(config: FileOutputConfig) {
+  /**
+     * @param config - File output configuration
+     * @param options - Timestamp format and sanitizer of the default formatter
+     */
+  constructor(config: FileOutputConfig, options: RecordOutputOptions = {}) {
+    this.formatTimestamp = options.formatTimestamp ?? ((record: LogRecord): string => record.timestamp.toISOString());
+    this.sanitizeText = options.sanitizeText ?? ((text: string): string => TextSanitizer.sanitize(text, TextSanitizer.resolveOptions()));
     // Set defaults
     this.config = {
       filePath: config.filePath,
@@ -261,11 +287,14 @@ export class FileOutputHandler {
 
   /**
      * Default formatter for file output
+     * Uses the record's timestamp when available so file lines match other outputs
+     * The message and data are sanitized so they can't start a line of their own
      */
-  private defaultFormatter = (level: string, message: string, data?: unknown): string => {
-    const timestamp = new Date().toISOString();
-    const dataStr = data ? ` ${JSON.stringify(data)}` : '';
-    return `${timestamp} [${level.toUpperCase()}] ${message}${dataStr}\n`;
+  private defaultFormatter = (level: string, message: string, data?: unknown, record?: LogRecord): string => {
+    const timestamp = record ? this.formatTimestamp(record) : new Date().toISOString();
+    const namespaceStr = record?.namespace ? ` [${record.namespace}]` : '';
+    const dataStr = data ? ` ${this.sanitizeText(SafeSerializer.stringify(data), record)}` : '';
+    return `${timestamp} [${level.toUpperCase()}]${namespaceStr} ${this.sanitizeText(message, record)}${dataStr}\n`;
   };
 
   /**
@@ -273,27 +302,50 @@ export class FileOutputHandler {
      * Queues writes during rotation to prevent file corruption
      */
   public write = (level: string, message: string, data?: unknown): void => {
+    this.enqueueWrite(level, message, data);
+  };
+
+  /**
+     * Write a structured log record to file
+     * Context is merged into the data and the record's timestamp is used
+     */
+  public writeRecord = (record: LogRecord): void => {
+    this.enqueueWrite(record.levelName, record.message, mergeContextData(record.context, record.data), record);
+  };
+
+  /**
+     * Write a record that was already formatted by the output's format
+     * The line replaces the configured formatter; a newline is appended
+     */
+  public writeLine = (record: LogRecord, line: string): void => {
+    this.enqueueWrite(record.levelName, record.message, mergeContextData(record.context, record.data), record, line);
+  };
+
+  /**
+     * Write immediately, or queue the write while a rotation is in progress
+     */
+  private enqueueWrite(level: string, message: string, data?: unknown, record?: LogRecord, line?: string): void {
     // If rotation is in progress, queue the write
     if (this.rotationInProgress) {
-      this.writeQueue.push({ level, message, data });
+      this.writeQueue.push({ level, message, data, record, line });
       return;
     }
 
     try {
-      this.writeToFile(level, message, data);
+      this.writeToFile(level, message, data, record, line);
     } catch (error) {
       // Fallback to console if file writing fails
       console.error('File output handler failed:', error);
       console.log(`[${level.toUpperCase()}] ${message}`, data);
     }
-  };
+  }
 
   /**
    * Write to file with concurrency protection and rotation check
    * If rotation is in progress, messages are queued to prevent corruption
    */
-  private writeToFile(level: string, message: string, data?: unknown): void {
-    const formattedMessage = this.config.formatter(level, message, data);
+  private writeToFile(level: string, message: string, data?: unknown, record?: LogRecord, line?: string): void {
+    const formattedMessage = line !== undefined ? `${line}\n` : this.config.formatter(level, message, data, record);
 
     // Check if rotation is needed
     if (this.config.maxFileSize > 0 &&
@@ -316,7 +368,7 @@ export class FileOutputHandler {
       const queuedWrite = this.writeQueue.shift();
       if (queuedWrite) {
         try {
-          this.writeToFile(queuedWrite.level, queuedWrite.message, queuedWrite.data);
+          this.writeToFile(queuedWrite.level, queuedWrite.message, queuedWrite.data, queuedWrite.record, queuedWrite.line);
         } catch (error) {
           console.error('Failed to process queued write:', error);
           console.log(`[${queuedWrite.level.toUpperCase()}] ${queuedWrite.message}`, queuedWrite.data);
@@ -369,6 +421,16 @@ export class FileOutputHandler {
     }
   }
 
+  /**
+   * Finish queued writes
+   * File writes are synchronous, so the handler is drained once the rotation queue is empty
+   */
+  public async drain(): Promise<void> {
+    if (!this.rotationInProgress) {
+      this.processWriteQueue();
+    }
+  }
+
   /**
    * Clean up resources and process any remaining queued writes
    */
@@ -391,8 +453,15 @@ export class HttpOutputHandler {
   private config: Required<HttpOutputConfig>;
   private logBuffer: LogEntry[] = [];
   private flushTimeout: NodeJS.Timeout | null = null;
+  private readonly pendingRequests = new Set<Promise<void>>();
+  private readonly lineHeaders: Record<string, string>;
+  private readonly formatTimestamp: (record: LogRecord) => string;
 
-  constructor(config: HttpOutputConfig) {
+  /**
+     * @param config - HTTP output configuration
+     * @param options - Content type of formatted lines and timestamp format of the default payload
+     */
+  constructor(config: HttpOutputConfig, options: RecordOutputOptions = {}) {
     // Set defaults
     this.config = {
       url: config.url,
@@ -402,6 +471,12 @@ export class HttpOutputHandler {
       timeout: config.timeout ?? 5000,
       formatter: config.formatter ?? this.defaultFormatter
     };
+    // Lines keep their content type alongside headers such as Authorization, unless the headers set one themselves
+    const headers = config.headers ?? {};
+    this.lineHeaders = Object.keys(headers).some(name => name.toLowerCase() === 'content-type')
+      ? headers
+      : { 'Content-Type': options.lineContentType ?? 'text/plain; charset=utf-8', ...headers };
+    this.formatTimestamp = options.formatTimestamp ?? ((record: LogRecord): string => record.timestamp.toISOString());
   }
 
   /**
@@ -413,7 +488,8 @@ export class HttpOutputHandler {
         timestamp: log.timestamp,
         level: log.level,
         message: log.message,
-        data: log.data
+        data: log.data,
+        ...(log.namespace !== undefined ? { namespace: log.namespace } : {})
       }))
     };
   };
@@ -422,13 +498,38 @@ export class HttpOutputHandler {
      * Write log to HTTP endpoint with batching support
      */
   public write = (level: string, message: string, data?: unknown): void => {
+    this.bufferEntry(level, message, data, new Date().toISOString());
+  };
+
+  /**
+     * Write a structured log record to the HTTP endpoint
+     * Context is merged into the data and the record's timestamp is used
+     */
+  public writeRecord = (record: LogRecord): void => {
+    this.bufferEntry(record.levelName, record.message, mergeContextData(record.context, record.data), this.formatTimestamp(record), record.namespace);
+  };
+
+  /**
+     * Write a record that was already formatted by the output's format
+     * Batches of lines are sent newline-delimited instead of through the payload formatter
+     */
+  public writeLine = (record: LogRecord, line: string): void => {
+    this.bufferEntry(record.levelName, record.message, mergeContextData(record.context, record.data), this.formatTimestamp(record), record.namespace, line);
+  };
+
+  /**
+     * Add an entry to the batch buffer and flush or schedule a flush
+     */
+  private bufferEntry(level: string, message: string, data: unknown, timestamp: string, namespace?: string, line?: string): void {
     try {
       // Add to buffer
       this.logBuffer.push({
         level,
         message,
         data,
-        timestamp: new Date().toISOString()
+        timestamp,
+        ...(namespace !== undefined ? { namespace } : {}),
+        ...(line !== undefined ? { line } : {})
       });
 
       // Flush if batch size reached
@@ -447,7 +548,7 @@ export class HttpOutputHandler {
       console.error('HTTP output handler failed:', error);
       console.log(`[${level.toUpperCase()}] ${message}`, data);
     }
-  };
+  }
 
   /**
      * Flush buffered logs to HTTP endpoint
@@ -458,7 +559,11 @@ export class HttpOutputHandler {
     }
 
     try {
-      const payload = this.config.formatter([...this.logBuffer]);
+      // Formatted lines are sent one per line; other entries go through the payload formatter
+      const body = this.logBuffer[0].line !== undefined
+        ? `${this.logBuffer.map(log => log.line).join('\n')}\n`
+        : SafeSerializer.stringify(this.config.formatter([...this.logBuffer]));
+      const headers = this.logBuffer[0].line !== undefined ? this.lineHeaders : this.config.headers;
       this.logBuffer = []; // Clear buffer
 
       if (this.flushTimeout) {
@@ -467,7 +572,7 @@ export class HttpOutputHandler {
       }
 
       // Send HTTP request (using fetch if available, otherwise fall back)
-      this.sendHttpRequest(payload);
+      this.sendHttpRequest(body, headers);
     } catch (error) {
       console.error('HTTP flush failed:', error);
     }
@@ -476,27 +581,27 @@ export class HttpOutputHandler {
   /**
      * Send HTTP request with appropriate method based on environment
      */
-  private sendHttpRequest(payload: HttpPayload): void {
+  private sendHttpRequest(body: string, headers: Record<string, string>): void {
     // Try to use fetch (Node.js 18+ or browser)
     if (typeof fetch !== 'undefined') {
-      fetch(this.config.url, {
+      this.trackRequest(fetch(this.config.url, {
         method: this.config.method,
-        headers: this.config.headers,
-        body: JSON.stringify(payload),
+        headers,
+        body,
         signal: AbortSignal.timeout(this.config.timeout)
-      }).catch(error => {
+      }).then(() => undefined, error => {
         console.error('HTTP request failed:', error);
-      });
+      }));
     } else {
       // Fallback for older Node.js versions
-      this.sendHttpRequestNodeJS(payload);
+      this.sendHttpRequestNodeJS(body, headers);
     }
   }
 
   /**
      * Fallback HTTP implementation for Node.js environments without fetch
      */
-  private sendHttpRequestNodeJS(payload: HttpPayload): void {
+  private sendHttpRequestNodeJS(postData: string, headers: Record<string, string>): void {
     try {
       const https = require('https');
 
@@ -508,15 +613,13 @@ export class HttpOutputHandler {
         throw new Error('SECURITY ERROR: HTTP (cleartext) connections are not allowed for log transmission. Use HTTPS URLs only.');
       }
 
-      const postData = JSON.stringify(payload);
-
       const options: HttpRequestOptions = {
         hostname: parsedUrl.hostname,
         port: parsedUrl.port ? parseInt(parsedUrl.port, 10) : 443,
         path: parsedUrl.pathname + parsedUrl.search,
         method: this.config.method,
         headers: {
-          ...this.config.headers,
+          ...headers,
           'Content-Length': Buffer.byteLength(postData)
         },
         timeout: this.config.timeout
@@ -537,13 +640,39 @@ export class HttpOutputHandler {
         console.error('HTTP request timed out');
       });
 
+      // The request emits 'close' once it has completed, failed or timed out
+      const completion = new Promise<void>(resolve => {
+        req.on('close', () => resolve());
+      });
+
       req.write(postData);
       req.end();
+      this.trackRequest(completion);
     } catch (error) {
       console.error('HTTP request setup failed:', error);
     }
   }
 
+  /**
+     * Keep track of an in-flight request until it settles
+     * @param request - Promise settling when the request is done (never rejects)
+     */
+  private trackRequest(request: Promise<void>): void {
+    this.pendingRequests.add(request);
+    request.then(() => this.pendingRequests.delete(request));
+  }
+
+  /**
+   * Send buffered logs and wait until every in-flight request has completed
+   * Failed requests are reported to the console as usual and don't reject
+   */
+  public async drain(): Promise<void> {
+    this.flush();
+    while (this.pendingRequests.size > 0) {
+      await Promise.all(Array.from(this.pendingRequests));
+    }
+  }
+
   /**
    * Cleanup method to prevent memory leaks
    */
@@ -616,6 +745,75 @@ export function createBuiltInHandler(type: string, config?: Record<string, unkno
   }
 }
 
+/**
+ * Record handler for a file or HTTP output, plus the cleanup of the handler instance behind it
+ */
+export interface RecordOutput {
+  handler: LogRecordHandler;
+  /** Writes a record already formatted by the output's format, replacing the handler's own formatter */
+  writeLine?: (record: LogRecord, line: string) => void;
+  flush?: () => Promise<void>;
+  destroy?: () => void;
+}
+
+/**
+ * Creates a record-based file or HTTP output.
+ *
+ * Unlike `createBuiltInHandler`, the returned handler receives the structured `LogRecord`,
+ * so file and HTTP outputs use the record's timestamp instead of generating their own.
+ * The handler instance is meant to be kept for every log call and destroyed when the output
+ * is removed from the configuration, so batching, flush timers and rotation tracking persist.
+ * Error handling mirrors `createBuiltInHandler`: a failing file handler falls back to console,
+ * and missing required configuration logs an error and returns `null`.
+ *
+ * @param type - The type of output to create (`'file'` or `'http'`)
+ * @param config - Handler configuration (`filePath` for file, `url` for http)
+ * @param options - Content type of formatted HTTP lines and timestamp format of the default formatters
+ * @returns The record output, or `null` if it cannot be created
+ */
+export function createRecordOutput(type: string, config?: Record<string, unknown>, options: RecordOutputOptions = {}): RecordOutput | null {
+  switch (type) {
+  case 'file':
+    if (config && typeof config.filePath === 'string') {
+      try {
+        const handler = new FileOutputHandler(config as unknown as FileOutputConfig, options);
+        return {
+          handler: handler.writeRecord,
+          writeLine: handler.writeLine,
+          flush: (): Promise<void> => handler.drain(),
+          destroy: (): void => handler.destroy()
+        };
+      } catch (error) {
+        // Return a handler that logs the expected error message and falls back to console
+        return {
+          handler: (record: LogRecord): void => {
+            console.error('File output handler failed:', error);
+            console.log(`[${record.levelName.toUpperCase()}] ${record.message}`, mergeContextData(record.context, record.data));
+          }
+        };
+      }
+    }
+    console.error('File output handler requires filePath in config');
+    return null;
+
+  case 'http':
+    if (config && typeof config.url === 'string') {
+      const handler = new HttpOutputHandler(config as unknown as HttpOutputConfig, options);
+      return {
+        handler: handler.writeRecord,
+        writeLine: handler.writeLine,
+        flush: (): Promise<void> => handler.drain(),
+        destroy: (): void => handler.destroy()
+      };
+    }
+    console.error('HTTP output handler requires url in config');
+    return null;
+
+  default:
+    return null;
+  }
+}
+
 // Export secure filesystem functions for testing
 export {
   secureExistsSync,
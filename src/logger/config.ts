@@ -3,8 +3,15 @@
  * Handles logger settings and configuration updates
  */
 
-import { LoggerConfig, LogLevel, LogMode } from '../types';
+import { LogFormatConfig, LoggerConfig, LogLevel, LogMode } from '../types';
 import { EnvironmentDetector } from './environment';
+import { LevelRegistry } from '../levels';
+import { LogSampler } from './sampling';
+import { RateLimiter } from './rate-limiter';
+import { PayloadLimiter } from './payload-limits';
+import { LogFilter } from './filtering';
+import { LogRouter } from './routing';
+import { StructuredFormatter, TemplateFormatter, ColorSupport, Themes, DataInspector, TextSanitizer, validateTimestampConfig } from '../formatter';
 
 /**
  * Configuration manager for logger settings
@@ -35,6 +42,48 @@ export class LoggerConfigManager {
      * @param config - Partial configuration object to apply
      */
   updateConfig(config: Partial<LoggerConfig>): void {
+    // Level-name modes must refer to a registered level
+    if (typeof config.mode === 'string' && !LevelRegistry.isValidMode(config.mode)) {
+      throw new Error(`Unknown log mode: ${JSON.stringify(config.mode)}. Use a LogMode value or a registered level name.`);
+    }
+    for (const [pattern, mode] of Object.entries(config.namespaceModes ?? {})) {
+      if (typeof mode === 'string' && !LevelRegistry.isValidMode(mode)) {
+        throw new Error(`Unknown log mode for namespace "${pattern}": ${JSON.stringify(mode)}. Use a LogMode value or a registered level name.`);
+      }
+    }
+    if (config.format) {
+      LoggerConfigManager.validateFormat(config.format);
+    }
+    if (config.sampling) {
+      LogSampler.validate(config.sampling);
+    }
+    if (config.rateLimit) {
+      RateLimiter.validate(config.rateLimit);
+    }
+    if (config.limits !== undefined) {
+      PayloadLimiter.validate(config.limits);
+    }
+    if (config.routing) {
+      LogRouter.validate(config.routing);
+    }
+    for (const output of [...(config.outputs ?? []), ...(config.enhancedOutputs ?? []), ...Object.values(config.routing?.outputs ?? {})]) {
+      if (typeof output === 'object' && output !== null) {
+        LogFilter.validateOutputOptions(output);
+        if (output.rateLimit) {
+          RateLimiter.validate(output.rateLimit);
+        }
+        if ('format' in output && output.format !== undefined) {
+          StructuredFormatter.validate(output.format);
+        }
+      }
+    }
+    if (typeof config.flushOnExit === 'object' && config.flushOnExit.timeoutMs !== undefined) {
+      const { timeoutMs } = config.flushOnExit;
+      if (!(timeoutMs > 0 && Number.isFinite(timeoutMs))) {
+        throw new Error(`Invalid flushOnExit timeoutMs: ${timeoutMs}. It must be a positive number.`);
+      }
+    }
+
     // Handle backwards compatibility - if level is provided but mode is not
     if (config.level !== undefined && config.mode === undefined) {
       this.handleLegacyLevelConfig(config);
@@ -51,6 +100,33 @@ export class LoggerConfigManager {
     }
   }
 
+  /**
+     * Validate a format configuration
+     * Used by configure() and for the merged format of child loggers
+     * @param format - Format configuration to check
+     */
+  static validateFormat(format: LogFormatConfig): void {
+    StructuredFormatter.validateFormatConfig(format);
+    if (format.template !== undefined) {
+      TemplateFormatter.validate(format.template, format.tokens);
+    }
+    if (format.timestamp !== undefined) {
+      validateTimestampConfig(format.timestamp);
+    }
+    if (format.colors !== undefined) {
+      ColorSupport.validate(format.colors);
+    }
+    if (format.theme !== undefined) {
+      Themes.validate(format.theme);
+    }
+    if (format.prettyData !== undefined) {
+      DataInspector.validate(format.prettyData);
+    }
+    if (format.sanitize !== undefined) {
+      TextSanitizer.validate(format.sanitize);
+    }
+  }
+
   /**
      * Handle legacy level-based configuration with deprecation warnings
      * @param config - Configuration containing legacy level property
@@ -103,9 +179,11 @@ export class LoggerConfigManager {
   private createDeprecationWarning(): void {
     // Import LogFormatter to format system messages properly
     const { LogFormatter } = require('../formatter');
+    const depth = ColorSupport.resolve(this.config.format?.colors, process.stderr);
+    const warn = (message: string): void => console.warn(ColorSupport.apply(LogFormatter.formatSystemMessage(message), depth));
 
-    console.warn(LogFormatter.formatSystemMessage('⚠️  DEPRECATION WARNING: The "level" configuration is deprecated and will be removed in v3.0.0. Please use "mode" instead.'));
-    console.warn(LogFormatter.formatSystemMessage('   Migration: LogEngine.configure({ level: LogLevel.DEBUG }) → LogEngine.configure({ mode: LogMode.DEBUG })'));
-    console.warn(LogFormatter.formatSystemMessage('   See: https://github.com/wgtechlabs/log-engine#migration-guide-loglevel--logmode'));
+    warn('⚠️  DEPRECATION WARNING: The "level" configuration is deprecated and will be removed in v3.0.0. Please use "mode" instead.');
+    warn('   Migration: LogEngine.configure({ level: LogLevel.DEBUG }) → LogEngine.configure({ mode: LogMode.DEBUG })');
+    warn('   See: https://github.com/wgtechlabs/log-engine#migration-guide-loglevel--logmode');
   }
 }
@@ -0,0 +1,45 @@
+/**
+ * Async request context propagation for logging
+ * Carries fields such as requestId or userId across awaits, timers and event emitters
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { LogContext } from '../types';
+
+/**
+ * Context manager built on AsyncLocalStorage
+ * Each root logger owns one, so isolated loggers never see each other's context
+ */
+export class LogContextManager {
+  private readonly storage = new AsyncLocalStorage<LogContext>();
+
+  /**
+     * Run a function with the given context active
+     * Nested calls merge their context on top of the enclosing one
+     * @param context - Fields to attach to every log record made inside fn
+     * @param fn - Function to run within the context
+     * @returns The return value of fn
+     */
+  run<T>(context: LogContext, fn: () => T): T {
+    const parentContext = this.storage.getStore();
+    return this.storage.run({ ...parentContext, ...context }, fn);
+  }
+
+  /**
+     * Get the context active for the current async execution
+     * @returns A copy of the active context, or undefined outside runWithContext
+     */
+  get(): LogContext | undefined {
+    const context = this.storage.getStore();
+    return context ? { ...context } : undefined;
+  }
+
+  /**
+     * Get the active context without copying it
+     * Used internally on the logging hot path
+     * @returns The active context object, or undefined
+     */
+  peek(): LogContext | undefined {
+    return this.storage.getStore();
+  }
+}
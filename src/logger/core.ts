@@ -6,39 +6,226 @@
  * Includes automatic data redaction for sensitive information
  */
 
-import { LogLevel, LogMode, LoggerConfig, LogOutputHandler, OutputTarget, EnhancedOutputTarget, LogData, LogCallOptions } from '../types';
-import { LogFormatter, EmojiSelector } from '../formatter';
+import { LogLevel, LogMode, LoggerConfig, LogOutputHandler, OutputTarget, EnhancedOutputTarget, LogData, LogCallOptions, LogBindings, ChildLoggerOptions, LogContext, LogRecord, ConsoleMethod, LogMessage, SamplingStats, OutputTargetOptions, OutputFormat, LogFormatConfig, ColorMode } from '../types';
+import { performance } from 'perf_hooks';
+import { LogFormatter, EmojiSelector, StructuredFormatter, ColorSupport, TextSanitizer, mergeContextData, formatRecordTimestamp } from '../formatter';
 import { DataRedactor, RedactionController, defaultRedactionConfig } from '../redaction';
 import { LoggerConfigManager } from './config';
 import { LogFilter } from './filtering';
-import { createBuiltInHandler } from './advanced-outputs';
+import { createRecordOutput } from './advanced-outputs';
+import { LogContextManager } from './context';
+import { NamespaceFilter } from './namespaces';
+import { LogRouter } from './routing';
+import { LogSampler } from './sampling';
+import { PayloadLimiter } from './payload-limits';
+import { RateLimiter } from './rate-limiter';
+import { OutputRegistry, OutputSink, ResolvedOutput } from './output-registry';
+import { LevelRegistry } from '../levels';
+import { ErrorSerializer } from '../serialization';
 
 /**
  * Logger class responsible for managing log output and configuration
  * Provides mode-based filtering and formatted console output
  */
 export class Logger {
+  private static readonly DEFAULT_EXIT_TIMEOUT_MS = 5000;
+
   private configManager: LoggerConfigManager;
   private cachedConfig: LoggerConfig | null = null;
+  private redactor: DataRedactor;
+  private emojiSelector: EmojiSelector;
+  private readonly contextManager: LogContextManager;
+  private readonly sampler: LogSampler;
+  private readonly outputRegistry: OutputRegistry;
+  private readonly parent: Logger | null;
+  private readonly bindings: LogBindings;
+  private readonly overrides: ChildLoggerOptions;
+  private readonly loggerNamespace: string | undefined;
+  private cachedParentConfig: LoggerConfig | null = null;
+  private cachedMode: { config: LoggerConfig; mode: LogMode | string } | null = null;
+  private rateLimiter: RateLimiter | null = null;
+  private exitHooks: { beforeExit: () => void; sigterm: () => void } | null = null;
+  private exitTimeoutMs = Logger.DEFAULT_EXIT_TIMEOUT_MS;
 
   /**
      * Logger constructor - sets up environment-based auto-configuration
+     * @param parent - Parent logger when constructing a child (use child() instead)
+     * @param bindings - Fields merged into the data of every call made by this logger
+     * @param overrides - Per-child mode and format overrides
+     * @param namespace - Namespace of a named logger (children inherit their parent's namespace)
      */
-  constructor() {
+  constructor(parent: Logger | null = null, bindings: LogBindings = {}, overrides: ChildLoggerOptions = {}, namespace?: string) {
     this.configManager = new LoggerConfigManager();
+    this.parent = parent;
+    this.bindings = bindings;
+    this.overrides = overrides;
+    this.loggerNamespace = namespace ?? parent?.loggerNamespace;
+
+    // Children share their parent's redaction and emoji state; root loggers use the shared instances
+    this.redactor = parent ? parent.redactor : DataRedactor.shared;
+    this.emojiSelector = parent ? parent.emojiSelector : EmojiSelector.shared;
+    this.contextManager = parent ? parent.contextManager : new LogContextManager();
+    this.sampler = parent ? parent.sampler : new LogSampler();
+    this.outputRegistry = parent ? parent.outputRegistry : new OutputRegistry();
+  }
+
+  /**
+   * Create a logger with its own redaction and emoji state
+   * Unlike `new Logger()`, changes to this logger never affect the static DataRedactor/EmojiSelector configuration
+   * @returns A root Logger isolated from the shared instances
+   */
+  static createIsolated(): Logger {
+    const logger = new Logger();
+    logger.redactor = new DataRedactor();
+    logger.emojiSelector = new EmojiSelector();
+    return logger;
+  }
+
+  /**
+   * Get the data redactor used by this logger
+   * @returns The DataRedactor instance applied to redacted log calls
+   */
+  getRedactor(): DataRedactor {
+    return this.redactor;
+  }
+
+  /**
+   * Create a child logger with bound context fields
+   * The child inherits this logger's configuration (read live, so later configure() calls apply)
+   * and merges its bindings into every call's data before redaction runs
+   * @param bindings - Fields to bind to every log call made by the child
+   * @param options - Optional per-child overrides of mode and format
+   * @returns A new Logger bound to this one
+   */
+  child(bindings: LogBindings, options: ChildLoggerOptions = {}): Logger {
+    if (typeof options.mode === 'string' && !LevelRegistry.isValidMode(options.mode)) {
+      throw new Error(`Unknown log mode: ${JSON.stringify(options.mode)}. Use a LogMode value or a registered level name.`);
+    }
+    if (options.format !== undefined) {
+      // Checked merged, like the child will use it, so templates can use tokens defined by the parent
+      LoggerConfigManager.validateFormat({ ...this.getCachedConfig().format, ...options.format });
+    }
+    return new Logger(this, { ...this.bindings, ...bindings }, options);
+  }
+
+  /**
+   * Create a named child logger
+   * Its mode can be set per namespace through namespaceModes or the LOG_NAMESPACES environment variable,
+   * and the namespace is shown in formatted output and passed to record handlers
+   * @param name - Namespace such as 'db:pool'; appended to this logger's namespace when it has one
+   * @returns A new Logger with the namespace
+   */
+  namespace(name: string): Logger {
+    NamespaceFilter.validateNamespace(name);
+    const namespace = this.loggerNamespace ? `${this.loggerNamespace}:${name}` : name;
+    return new Logger(this, { ...this.bindings }, {}, namespace);
+  }
+
+  /**
+   * Get the namespace of this logger
+   * @returns The namespace, or undefined for loggers without one
+   */
+  getNamespace(): string | undefined {
+    return this.loggerNamespace;
+  }
+
+  /**
+   * Run a function with request context merged into every log call made inside it
+   * The context follows the async execution (awaits, timers, event emitters) and is shared with child loggers
+   * @param context - Fields such as requestId, userId or tenant
+   * @param fn - Function to run within the context
+   * @returns The return value of fn
+   */
+  runWithContext<T>(context: LogContext, fn: () => T): T {
+    return this.contextManager.run(context, fn);
+  }
+
+  /**
+   * Get the request context active for the current async execution
+   * @returns A copy of the active context, or undefined outside runWithContext()
+   */
+  getContext(): LogContext | undefined {
+    return this.contextManager.get();
   }
 
   /**
    * Get cached configuration or refresh cache if needed
    * This avoids repeated getConfig() calls for better performance
+   * Child loggers resolve the parent's configuration and apply their overrides on top
    */
   private getCachedConfig(): LoggerConfig {
+    if (this.parent) {
+      const parentConfig = this.parent.getCachedConfig();
+      if (this.cachedConfig === null || this.cachedParentConfig !== parentConfig) {
+        this.cachedParentConfig = parentConfig;
+        this.cachedConfig = this.applyOverrides(parentConfig);
+      }
+      return this.cachedConfig;
+    }
     if (this.cachedConfig === null) {
       this.cachedConfig = this.configManager.getConfig();
     }
     return this.cachedConfig;
   }
 
+  /**
+   * Get the root of this logger's parent chain
+   * Root loggers own state shared by all their children, such as rate limiters
+   * @returns The root Logger
+   */
+  private getRoot(): Logger {
+    return this.parent ? this.parent.getRoot() : this;
+  }
+
+  /**
+   * Get the logger-wide rate limiter, recreating it when the rateLimit configuration changes
+   * Summaries of the previous limiter are flushed before it is replaced
+   * @returns The rate limiter, or null when rate limiting is not configured
+   */
+  private getRateLimiter(): RateLimiter | null {
+    const root = this.getRoot();
+    const rateLimit = root.getCachedConfig().rateLimit;
+    if (root.rateLimiter && root.rateLimiter.config !== rateLimit) {
+      const previous = root.rateLimiter;
+      root.rateLimiter = null;
+      previous.flush();
+    }
+    if (!root.rateLimiter && rateLimit) {
+      root.rateLimiter = new RateLimiter(rateLimit, summary => root.writeToOutput(summary, root.formatRecord(summary)));
+    }
+    return root.rateLimiter;
+  }
+
+  /**
+   * Apply this child's mode and format overrides to an inherited configuration
+   * @param config - Configuration inherited from the parent
+   * @returns Configuration with overrides applied
+   */
+  private applyOverrides(config: LoggerConfig): LoggerConfig {
+    const { mode, format } = this.overrides;
+    if (mode === undefined && format === undefined) {
+      return config;
+    }
+    return {
+      ...config,
+      ...(mode !== undefined ? { mode } : {}),
+      ...(format !== undefined ? { format: { ...config.format, ...format } } : {})
+    };
+  }
+
+  /**
+   * Resolve the request context and bound fields for a log call
+   * Child bindings take precedence over the active request context
+   * @returns Combined context, or undefined when there is none
+   */
+  private resolveContext(): LogContext | undefined {
+    const context = this.contextManager.peek();
+    if (!context && Object.keys(this.bindings).length === 0) {
+      return undefined;
+    }
+    return { ...context, ...this.bindings };
+  }
+
   /**
    * Invalidate the configuration cache when configuration changes
    */
@@ -47,101 +234,340 @@ export class Logger {
   }
 
   /**
-   * Helper method to format log messages with cached configuration
-   * Reduces code duplication across all log methods
-   * @param level - The log level to format for
-   * @param message - The message content to format
-   * @param data - Optional data object to include in the log output
-   * @param options - Optional per-call options (e.g., emoji override)
+   * Create the structured record for a log call
+   * The record is built once and shared by every output, so all outputs see the same timestamp and data
+   * @param level - The log level of the message
+   * @param message - The message content
+   * @param data - Data passed to the log call (errors in it are serialized; raw calls keep the original in record.error)
+   * @param context - Request context and bindings for the call
+   * @param options - Optional per-call options (e.g., emoji override, source)
+   * @param redact - Whether to apply data redaction
+   * @returns The log record
+   */
+  private createRecord(level: LogLevel, message: string, data: LogData, context: LogContext | undefined, options: LogCallOptions | undefined, redact: boolean): LogRecord {
+    // Errors become plain objects before redaction so their message, stack and custom fields reach every output
+    const serializedData = ErrorSerializer.serializeErrors(data);
+    const record: LogRecord = {
+      timestamp: new Date(),
+      uptime: performance.now(),
+      level,
+      levelName: Logger.getLevelKey(level),
+      // Messages have no field names, so only the value detectors apply to them
+      message: redact ? this.redactor.redactText(message) : message,
+      data: redact ? this.redactor.redactData(serializedData) : serializedData,
+      emoji: ''
+    };
+
+    if (context) {
+      record.context = redact ? this.redactor.redactData(context) : context;
+    }
+
+    // Budgets apply after redaction, so every output sees the same cut record
+    const limits = this.getCachedConfig().limits;
+    if (limits) {
+      PayloadLimiter.apply(record, limits);
+    }
+
+    // The original Error bypasses redaction, so only raw calls expose it
+    const error = redact ? undefined : Logger.findError(data);
+    if (error) {
+      record.error = error;
+    }
+
+    if (this.loggerNamespace !== undefined) {
+      record.namespace = this.loggerNamespace;
+    }
+
+    if (options?.source !== undefined) {
+      record.source = options.source;
+    }
+
+    if (options?.sanitize === false) {
+      record.sanitize = false;
+    }
+
+    record.emoji = this.selectEmoji(record, options);
+    return record;
+  }
+
+  /**
+   * Select the emoji for a record, honoring per-call overrides and the includeEmoji setting
+   * @param record - Record being created (message and data are already processed)
+   * @param options - Optional per-call options
+   * @returns Selected emoji, or '' when emoji is disabled
+   */
+  private selectEmoji(record: LogRecord, options?: LogCallOptions): string {
+    if (this.getCachedConfig().format?.includeEmoji === false) {
+      return '';
+    }
+    if (options?.emoji !== undefined) {
+      return options.emoji;
+    }
+    return this.emojiSelector.selectEmoji(record.level, record.message, mergeContextData(record.context, record.data));
+  }
+
+  /**
+   * Find an Error passed as the log data or under data.error / data.err
+   * @param data - Data passed to the log call
+   * @returns The Error instance, if any
+   */
+  private static findError(data: LogData): Error | undefined {
+    if (data instanceof Error) {
+      return data;
+    }
+    if (data !== null && typeof data === 'object') {
+      if (data.error instanceof Error) {
+        return data.error;
+      }
+      if (data.err instanceof Error) {
+        return data.err;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Helper method to format a record with cached configuration
+   * Uses a JSON line instead of the colorized text when the format style is 'json'
+   * @param record - The record to format
    * @returns Formatted string with appropriate configuration applied
    */
-  private formatMessage(level: LogLevel, message: string, data?: LogData, options?: LogCallOptions): string {
-    const cachedConfig = this.getCachedConfig();
-    return LogFormatter.format(level, message, data, cachedConfig.format, options);
+  private formatRecord(record: LogRecord): string {
+    const format = this.getCachedConfig().format;
+    if (format?.style === 'json') {
+      return StructuredFormatter.toJSON(record, format.json, format.timestamp);
+    }
+    return LogFormatter.formatRecord(record, format);
+  }
+
+  /**
+     * Write a formatted line to the console method configured for the level
+     * The line's colors are adapted to the stream the method writes to (stderr for error and warn, stdout otherwise)
+     * @param level - The log level of the record
+     * @param formattedMessage - The formatted message
+     * @param data - Optional data passed as a second console argument
+     * @param colorMode - Color mode of the format configuration
+     */
+  private static writeToConsole(level: LogLevel, formattedMessage: string, data?: LogData, colorMode?: ColorMode): void {
+    const methodName = LevelRegistry.get(level)?.consoleMethod ?? 'log';
+    const method = Logger.getConsoleMethod(methodName);
+    const stream = methodName === 'error' || methodName === 'warn' ? process.stderr : process.stdout;
+    const line = ColorSupport.apply(formattedMessage, ColorSupport.resolve(colorMode, stream));
+    if (data !== undefined) {
+      method(line, data);
+    } else {
+      method(line);
+    }
+  }
+
+  /**
+     * Resolve a console method name to the console function
+     * Looked up on every call so console mocks and patches are respected
+     * @param method - Console method name
+     * @returns The console function
+     */
+  private static getConsoleMethod(method: ConsoleMethod): (...args: LogData[]) => void {
+    switch (method) {
+    case 'error': return console.error;
+    case 'warn': return console.warn;
+    case 'info': return console.info;
+    case 'debug': return console.debug;
+    default: return console.log;
+    }
+  }
+
+  /**
+     * Adapt a string-based output handler to the record pipeline
+     * The handler receives the level name, the formatted message, and the record's data merged with its context
+     * ANSI codes are removed from the message and from the strings of the data unless the color mode is 'always'
+     * @param handler - Legacy (level, message, data) handler
+     * @param colorMode - Color mode of the format configuration
+     * @returns Output sink calling the handler
+     */
+  private static adaptOutputHandler(handler: LogOutputHandler, colorMode?: ColorMode): OutputSink {
+    return (record: LogRecord, formattedMessage: string) => {
+      const depth = ColorSupport.resolve(colorMode);
+      const data = mergeContextData(record.context, record.data);
+      handler(record.levelName, ColorSupport.apply(formattedMessage, depth), depth === 0 ? ColorSupport.stripData(data) : data);
+    };
   }
 
   /**
      * Built-in output handlers for common use cases
+     * @param type - Built-in output type
+     * @param config - Handler configuration for file and http outputs
+     * The color mode, sanitize options and timestamp settings are read from the format configuration passed with each write
+     * @param format - Output format; formatted outputs write the line they are given instead of formatting themselves
+     * @returns The output, or null if the type is unknown or the configuration is invalid
      */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private getBuiltInHandler(type: string, config?: any): LogOutputHandler | null {
+  private static createBuiltInOutput(type: string, config?: any, format?: OutputFormat): ResolvedOutput | null {
+    // Content these outputs write outside the formatted line is sanitized like the line itself
+    const sanitizeText = (text: string, record?: LogRecord, formatConfig?: LogFormatConfig): string =>
+      TextSanitizer.sanitize(text, record?.sanitize === false ? undefined : TextSanitizer.resolveOptions(formatConfig?.sanitize));
     switch (type) {
     case 'console':
-      return (level: string, message: string, data?: LogData) => {
-        // Use appropriate console method based on level
-        if (level === 'error') {
-          if (data !== undefined) {
-            console.error(message, data);
-          } else {
-            console.error(message);
-          }
-        } else if (level === 'warn') {
-          if (data !== undefined) {
-            console.warn(message, data);
-          } else {
-            console.warn(message);
-          }
-        } else {
-          if (data !== undefined) {
-            console.log(message, data);
-          } else {
-            console.log(message);
-          }
+      if (format !== undefined && format !== 'pretty') {
+        // The line already carries the data, so it isn't passed as a second console argument
+        return {
+          write: (record: LogRecord, line: string, formatConfig?: LogFormatConfig): void => Logger.writeToConsole(record.level, line, undefined, formatConfig?.colors)
+        };
+      }
+      return {
+        write: (record: LogRecord, formattedMessage: string, formatConfig?: LogFormatConfig): void => {
+          // Use appropriate console method based on level
+          const data = mergeContextData(record.context, record.data);
+          const consoleData = typeof data === 'string' ? sanitizeText(data, record, formatConfig) : data;
+          Logger.writeToConsole(record.level, formattedMessage, consoleData, formatConfig?.colors);
         }
       };
     case 'silent':
-      return () => {
-        // Do nothing - silent output
+      return {
+        write: (): void => {
+          // Do nothing - silent output
+        }
       };
     case 'file':
-    case 'http':
-      // Use advanced output handlers for file and http
-      return createBuiltInHandler(type, config);
+    case 'http': {
+      // The handlers format records after the write call returns (e.g. when queued during a rotation),
+      // so each record keeps the format configuration of the logger that wrote it
+      const formatConfigs = new WeakMap<LogRecord, LogFormatConfig | undefined>();
+      // Use advanced record handlers for file and http
+      const output = createRecordOutput(type, config, {
+        lineContentType: format !== undefined ? StructuredFormatter.getContentType(format) : undefined,
+        formatTimestamp: (record: LogRecord): string => formatRecordTimestamp(record, formatConfigs.get(record)?.timestamp),
+        sanitizeText: (text: string, record?: LogRecord): string => sanitizeText(text, record, record && formatConfigs.get(record))
+      });
+      if (!output) {
+        return null;
+      }
+      const { handler, writeLine } = output;
+      const write = (record: LogRecord, line: string, formatConfig?: LogFormatConfig): void => {
+        formatConfigs.set(record, formatConfig);
+        if (format !== undefined && writeLine) {
+          // Files and HTTP endpoints aren't terminals, so pretty lines lose their colors unless the mode is 'always'
+          writeLine(record, ColorSupport.apply(line, ColorSupport.resolve(formatConfig?.colors)));
+        } else {
+          handler(record);
+        }
+      };
+      return { write, flush: output.flush, destroy: output.destroy };
+    }
     default:
       return null;
     }
   }
 
+  /**
+     * Get the registered output for a configuration object, creating it on first use
+     * The output's minLevel, mode and filter become its accepts check, its format its line formatter,
+     * and outputs with a rateLimit get their own limiter, whose summaries are written to that output only
+     * @param key - Output target or handler config object identifying the output
+     * @param create - Factory for the output
+     * @param options - Per-output settings of the target, if any
+     * @returns The resolved output, or null if it can't be created
+     */
+  private getRegisteredOutput(key: object, create: () => ResolvedOutput | null, options: OutputTargetOptions = {}): ResolvedOutput | null {
+    return this.outputRegistry.get(key, () => {
+      const output = create();
+      if (!output) {
+        return null;
+      }
+      output.accepts = LogFilter.createOutputFilter(options);
+      const root = this.getRoot();
+      output.format = options.format !== undefined ? StructuredFormatter.resolve(options.format, root.getCachedConfig().format) : undefined;
+      if (options.rateLimit) {
+        output.rateLimiter = new RateLimiter(options.rateLimit, summary => {
+          output.write(summary, Logger.formatForOutput(output, summary, root.formatRecord(summary)), root.getCachedConfig().format);
+        });
+      }
+      return output;
+    });
+  }
+
+  /**
+     * Get the line an output writes for a record
+     * @param output - The resolved output
+     * @param record - The log record
+     * @param formattedMessage - The logger's text line for the record
+     * @returns The output's own format of the record, or the text line for pretty outputs
+     */
+  private static formatForOutput(output: ResolvedOutput, record: LogRecord, formattedMessage: string): string {
+    return output.format ? output.format(record) : formattedMessage;
+  }
+
+  /**
+     * Write a record to a resolved output, applying the output's own filters, rate limit and format
+     * @param output - The resolved output
+     * @param record - The log record
+     * @param formattedMessage - Formatted message for console-based outputs
+     * @param formatConfig - Format configuration of the logger writing the record
+     */
+  private static writeToResolvedOutput(output: ResolvedOutput, record: LogRecord, formattedMessage: string, formatConfig?: LogFormatConfig): void {
+    if (output.accepts && !output.accepts(record)) {
+      return;
+    }
+    if (output.rateLimiter && !output.rateLimiter.check(record)) {
+      return;
+    }
+    output.write(record, Logger.formatForOutput(output, record, formattedMessage), formatConfig);
+  }
+
   /**
      * Process a single output target with error handling
+     * File and HTTP handlers are created once per configured output and reused for every call
      * @param output - Single output target to process
-     * @param level - Log level
-     * @param rawMessage - Original unformatted message
+     * @param record - The log record
      * @param formattedMessage - Formatted message for console-based outputs
-     * @param data - Optional data
      * @param isEnhanced - Whether this is an enhanced output (supports configured handler objects)
      */
   private processSingleOutput(
     output: OutputTarget | EnhancedOutputTarget,
-    level: string,
-    rawMessage: string,
+    record: LogRecord,
     formattedMessage: string,
-    data?: LogData,
     isEnhanced = false
   ): void {
-    const config = this.configManager.getConfig();
+    const config = this.getCachedConfig();
+    // With the JSON style the logger's line is already a JSON line: console outputs write it without the data argument,
+    // and file and HTTP outputs without a format of their own write it instead of their default text format
+    const styleFormat: OutputFormat | undefined = config.format?.style === 'json' ? 'json' : undefined;
 
     try {
       if (typeof output === 'string') {
         // Built-in handler - get config if available
         const outputConfig = config.advancedOutputConfig?.[output as keyof typeof config.advancedOutputConfig];
-        const handler = this.getBuiltInHandler(output, outputConfig);
-        if (handler) {
-          // Advanced handlers (file, http) get raw message, console gets formatted
-          const messageToUse = (output === 'file' || output === 'http') ? rawMessage : formattedMessage;
-          handler(level, messageToUse, data);
+        const resolved = outputConfig
+          ? this.getRegisteredOutput(outputConfig, () => Logger.createBuiltInOutput(output, outputConfig, styleFormat))
+          : Logger.createBuiltInOutput(output, undefined, styleFormat);
+        if (resolved) {
+          // Advanced handlers (file, http) use the record, console gets formatted
+          Logger.writeToResolvedOutput(resolved, record, formattedMessage, config.format);
         } else {
           console.error('[LogEngine] Unknown built-in output handler:', JSON.stringify(output));
         }
       } else if (typeof output === 'function') {
         // Custom function handler gets formatted message for backward compatibility
-        output(level, formattedMessage, data);
-      } else if (isEnhanced && typeof output === 'object' && output.type && output.config) {
+        Logger.adaptOutputHandler(output, config.format?.colors)(record, formattedMessage);
+      } else if (typeof output === 'object' && output !== null && output.type === 'record' && typeof output.handler === 'function') {
+        // Record handlers receive the structured record
+        const handler = output.handler;
+        const resolved = this.getRegisteredOutput(output, () => ({ write: (outputRecord: LogRecord): void => handler(outputRecord) }), output);
+        if (resolved) {
+          Logger.writeToResolvedOutput(resolved, record, formattedMessage, config.format);
+        }
+      } else if (isEnhanced && typeof output === 'object' && output !== null && (output.type === 'console' || output.type === 'silent')) {
+        // Built-in handler object, used to give console output its own level or filter
+        const { type, format } = output;
+        const resolved = this.getRegisteredOutput(output, () => Logger.createBuiltInOutput(type, undefined, format ?? styleFormat), output);
+        if (resolved) {
+          Logger.writeToResolvedOutput(resolved, record, formattedMessage, config.format);
+        }
+      } else if (isEnhanced && typeof output === 'object' && output !== null && output.type && 'config' in output && output.config) {
         // Configured handler object (only available for enhanced outputs)
-        const handler = this.getBuiltInHandler(output.type, output.config);
-        if (handler) {
-          // Advanced configured handlers get raw message
-          handler(level, rawMessage, data);
+        const { type, config: outputConfig, format } = output;
+        const resolved = this.getRegisteredOutput(output, () => Logger.createBuiltInOutput(type, outputConfig, format ?? styleFormat), output);
+        if (resolved) {
+          Logger.writeToResolvedOutput(resolved, record, formattedMessage, config.format);
         } else {
           console.error('[LogEngine] Unknown enhanced output handler type:', JSON.stringify(output));
         }
@@ -159,28 +585,24 @@ export class Logger {
   /**
      * Process multiple output targets
      * @param outputs - Array of output targets to process
-     * @param level - Log level
-     * @param rawMessage - Original unformatted message
+     * @param record - The log record
      * @param formattedMessage - Formatted message for console-based outputs
-     * @param data - Optional data
      */
-  private processOutputs(outputs: OutputTarget[], level: string, rawMessage: string, formattedMessage: string, data?: LogData): void {
+  private processOutputs(outputs: OutputTarget[], record: LogRecord, formattedMessage: string): void {
     for (const output of outputs) {
-      this.processSingleOutput(output, level, rawMessage, formattedMessage, data, false);
+      this.processSingleOutput(output, record, formattedMessage, false);
     }
   }
 
   /**
      * Process enhanced output targets
      * @param enhancedOutputs - Array of enhanced output targets to process
-     * @param level - Log level
-     * @param rawMessage - Original unformatted message
+     * @param record - The log record
      * @param formattedMessage - Formatted message for console-based outputs
-     * @param data - Optional data
      */
-  private processEnhancedOutputs(enhancedOutputs: EnhancedOutputTarget[], level: string, rawMessage: string, formattedMessage: string, data?: LogData): void {
+  private processEnhancedOutputs(enhancedOutputs: EnhancedOutputTarget[], record: LogRecord, formattedMessage: string): void {
     for (const output of enhancedOutputs) {
-      this.processSingleOutput(output, level, rawMessage, formattedMessage, data, true);
+      this.processSingleOutput(output, record, formattedMessage, true);
     }
   }
 
@@ -190,13 +612,19 @@ export class Logger {
      * @param config - Partial configuration object to apply
      */
   configure(config: Partial<LoggerConfig>): void {
+    // Children are configured through their parent
+    if (this.parent) {
+      this.parent.configure(config);
+      return;
+    }
+
     this.configManager.updateConfig(config);
 
     // Invalidate configuration cache since config has changed
     this.invalidateConfigCache();
 
     // Update redaction configuration based on current environment
-    DataRedactor.updateConfig({
+    this.redactor.updateConfig({
       ...defaultRedactionConfig,
       ...RedactionController.getEnvironmentConfig()
     });
@@ -205,11 +633,19 @@ export class Logger {
     // This allows the compiled regex cache to persist across log calls
     const currentConfig = this.configManager.getConfig();
     if (currentConfig.format?.emoji) {
-      EmojiSelector.configure(currentConfig.format.emoji);
+      this.emojiSelector.configure(currentConfig.format.emoji);
     } else {
       // Reset to defaults when no emoji config is provided
-      EmojiSelector.reset();
+      this.emojiSelector.reset();
     }
+
+    // Flush pending repeat summaries under the old limits before they change
+    this.getRateLimiter();
+
+    // Destroy file/HTTP handlers that are no longer configured; unchanged outputs keep their instance
+    this.outputRegistry.retain(currentConfig);
+
+    this.updateExitHooks(currentConfig.flushOnExit);
   }
 
   /**
@@ -217,6 +653,9 @@ export class Logger {
      * @returns Current logger configuration
      */
   getConfig(): LoggerConfig {
+    if (this.parent) {
+      return { ...this.getCachedConfig() };
+    }
     return this.configManager.getConfig();
   }
 
@@ -226,30 +665,70 @@ export class Logger {
      * @returns true if message should be logged, false otherwise
      */
   private shouldLog(level: LogLevel): boolean {
-    const currentConfig = this.configManager.getConfig();
-    const currentMode = currentConfig.mode !== undefined ? currentConfig.mode : LogMode.INFO;
-    return LogFilter.shouldLog(level, currentMode);
+    return LogFilter.shouldLog(level, this.getEffectiveMode());
+  }
+
+  /**
+     * Get the mode that applies to this logger, cached until the configuration changes
+     * @returns The effective mode or level name
+     */
+  private getEffectiveMode(): LogMode | string {
+    const config = this.getCachedConfig();
+    if (this.cachedMode === null || this.cachedMode.config !== config) {
+      this.cachedMode = { config, mode: this.resolveMode(config) };
+    }
+    return this.cachedMode.mode;
+  }
+
+  /**
+     * Resolve the effective mode for this logger
+     * Precedence: explicit child mode override > most specific namespace pattern > configured mode
+     * Namespace patterns from LOG_NAMESPACES take precedence over configured namespaceModes
+     * @param config - Current configuration
+     * @returns The effective mode or level name
+     */
+  private resolveMode(config: LoggerConfig): LogMode | string {
+    const configuredMode = config.mode !== undefined ? config.mode : LogMode.INFO;
+    if (this.hasModeOverride()) {
+      return configuredMode;
+    }
+
+    const namespaceModes = { ...config.namespaceModes, ...NamespaceFilter.getEnvironmentModes() };
+    return NamespaceFilter.resolveMode(this.loggerNamespace, namespaceModes) ?? configuredMode;
+  }
+
+  /**
+     * Check whether this logger or one of its ancestors has an explicit mode override
+     * @returns true if a child mode override applies
+     */
+  private hasModeOverride(): boolean {
+    return this.overrides.mode !== undefined || (this.parent !== null && this.parent.hasModeOverride());
   }
 
   /**
-     * Writes log output using configured output handler or default console methods
-     * Supports single output handler, multiple outputs, and enhanced outputs
-     * Priority: outputs > enhancedOutputs > outputHandler > default console
-     * @param level - The log level as a string
-     * @param rawMessage - The original unformatted message
+     * Writes a record using configured output handler or default console methods
+     * Supports routing rules, single output handler, multiple outputs, and enhanced outputs
+     * Priority: routing > outputs > enhancedOutputs > outputHandler > default console
+     * @param record - The log record to write
      * @param formattedMessage - The pre-formatted message to output
-     * @param data - Optional data object that was logged
-     * @param isError - Whether this is an error level message (for console.error)
-     * @param isWarn - Whether this is a warning level message (for console.warn)
      */
-  private writeToOutput(level: string, rawMessage: string, formattedMessage: string, data?: LogData, isError = false, isWarn = false): void {
-    const config = this.configManager.getConfig();
+  private writeToOutput(record: LogRecord, formattedMessage: string): void {
+    const config = this.getCachedConfig();
+
+    // Routing rules pick named outputs per record (highest priority)
+    if (config.routing) {
+      const outputs = config.routing.outputs;
+      for (const name of LogRouter.route(record, config.routing)) {
+        this.processSingleOutput(outputs[name], record, formattedMessage, true);
+      }
+      return;
+    }
 
     // Multiple outputs support (highest priority - newer API)
     if (config.outputs !== undefined) {
       if (config.outputs.length > 0) {
         // Process outputs array when it has actual outputs
-        this.processOutputs(config.outputs, level, rawMessage, formattedMessage, data);
+        this.processOutputs(config.outputs, record, formattedMessage);
       }
       // If outputs is explicitly set to empty array, disable all logging
       return;
@@ -257,41 +736,73 @@ export class Logger {
 
     // Enhanced outputs with advanced configuration (second priority)
     if (config.enhancedOutputs !== undefined && config.enhancedOutputs.length > 0) {
-      this.processEnhancedOutputs(config.enhancedOutputs, level, rawMessage, formattedMessage, data);
+      this.processEnhancedOutputs(config.enhancedOutputs, record, formattedMessage);
       return;
     }
 
     // Single output handler (third priority - legacy compatibility)
     if (config.outputHandler) {
       try {
-        config.outputHandler(level, formattedMessage, data);
+        Logger.adaptOutputHandler(config.outputHandler, config.format?.colors)(record, formattedMessage);
       } catch (error) {
         // Fallback to console if custom handler fails
         console.error(`[LogEngine] Output handler failed: ${error}. Falling back to console.`);
-        if (isError) {
-          console.error(formattedMessage);
-        } else if (isWarn) {
-          console.warn(formattedMessage);
-        } else {
-          console.log(formattedMessage);
-        }
+        Logger.writeToConsole(record.level, formattedMessage, undefined, config.format?.colors);
       }
       return;
     }
 
     // Default: Console output (unless suppressed)
     if (!config.suppressConsoleOutput) {
-      if (isError) {
-        console.error(formattedMessage);
-      } else if (isWarn) {
-        console.warn(formattedMessage);
-      } else {
-        console.log(formattedMessage);
-      }
+      Logger.writeToConsole(record.level, formattedMessage, undefined, config.format?.colors);
     }
     // If suppressConsoleOutput is true and no outputHandler/outputs, do nothing (silent)
   }
 
+  /**
+     * Shared pipeline for all log methods
+     * Filters by mode, applies sampling, builds the log record (context, redaction, emoji), formats it and writes to outputs
+     * Message and data functions are only called once the record has passed filtering and sampling
+     * @param level - The log level of the message
+     * @param message - The message content, or a function returning it
+     * @param data - Optional data object to log, or a function returning it
+     * @param options - Optional per-call options (e.g., emoji override)
+     * @param redact - Whether to apply data redaction
+     */
+  private emit(level: LogLevel, message: LogMessage, data: LogData, options: LogCallOptions | undefined, redact: boolean): void {
+    if (!this.shouldLog(level)) {
+      return;
+    }
+
+    // Sampling runs before lazy data is evaluated, so the key is looked up in the context or eager data only
+    const context = this.resolveContext();
+    const sampling = this.getCachedConfig().sampling;
+    if (sampling && !this.sampler.shouldKeep(Logger.getLevelKey(level), sampling, context, typeof data === 'function' ? undefined : data)) {
+      return;
+    }
+
+    const resolvedMessage = typeof message === 'function' ? String(message()) : message;
+    const resolvedData = typeof data === 'function' ? data() : data;
+    const record = this.createRecord(level, resolvedMessage, resolvedData, context, options, redact);
+
+    // Collapse repeats across all outputs; a summary record is written when the window closes
+    const rateLimiter = this.getRateLimiter();
+    if (rateLimiter && !rateLimiter.check(record)) {
+      return;
+    }
+
+    this.writeToOutput(record, this.formatRecord(record));
+  }
+
+  /**
+     * Get the lowercase level key passed to output handlers
+     * @param level - The log level
+     * @returns Level key such as 'debug', 'error' or a custom level name like 'trace'
+     */
+  private static getLevelKey(level: LogLevel): string {
+    return LevelRegistry.get(level)?.name ?? 'log';
+  }
+
   /**
      * Log a debug message with DEBUG level formatting
      * Uses console.log for output with purple/magenta coloring
@@ -300,12 +811,8 @@ export class Logger {
      * @param data - Optional data object to log (will be redacted)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  debug(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.DEBUG)) {
-      const processedData = DataRedactor.redactData(data);
-      const formatted = this.formatMessage(LogLevel.DEBUG, message, processedData, options);
-      this.writeToOutput('debug', message, formatted, processedData);
-    }
+  debug(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.DEBUG, message, data, options, true);
   }
 
   /**
@@ -316,12 +823,8 @@ export class Logger {
      * @param data - Optional data object to log (will be redacted)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  info(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.INFO)) {
-      const processedData = DataRedactor.redactData(data);
-      const formatted = this.formatMessage(LogLevel.INFO, message, processedData, options);
-      this.writeToOutput('info', message, formatted, processedData);
-    }
+  info(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.INFO, message, data, options, true);
   }
 
   /**
@@ -332,12 +835,8 @@ export class Logger {
      * @param data - Optional data object to log (will be redacted)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  warn(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.WARN)) {
-      const processedData = DataRedactor.redactData(data);
-      const formatted = this.formatMessage(LogLevel.WARN, message, processedData, options);
-      this.writeToOutput('warn', message, formatted, processedData, false, true);
-    }
+  warn(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.WARN, message, data, options, true);
   }
 
   /**
@@ -348,12 +847,8 @@ export class Logger {
      * @param data - Optional data object to log (will be redacted)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  error(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.ERROR)) {
-      const processedData = DataRedactor.redactData(data);
-      const formatted = this.formatMessage(LogLevel.ERROR, message, processedData, options);
-      this.writeToOutput('error', message, formatted, processedData, true, false);
-    }
+  error(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.ERROR, message, data, options, true);
   }
 
   /**
@@ -365,12 +860,8 @@ export class Logger {
      * @param data - Optional data object to log (will be redacted)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  log(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.LOG)) {
-      const processedData = DataRedactor.redactData(data);
-      const formatted = this.formatMessage(LogLevel.LOG, message, processedData, options);
-      this.writeToOutput('log', message, formatted, processedData);
-    }
+  log(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.LOG, message, data, options, true);
   }
 
   // Raw logging methods (bypass redaction for debugging)
@@ -380,11 +871,8 @@ export class Logger {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  debugRaw(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.DEBUG)) {
-      const formatted = this.formatMessage(LogLevel.DEBUG, message, data, options);
-      this.writeToOutput('debug', message, formatted, data);
-    }
+  debugRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.DEBUG, message, data, options, false);
   }
 
   /**
@@ -393,11 +881,8 @@ export class Logger {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  infoRaw(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.INFO)) {
-      const formatted = this.formatMessage(LogLevel.INFO, message, data, options);
-      this.writeToOutput('info', message, formatted, data);
-    }
+  infoRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.INFO, message, data, options, false);
   }
 
   /**
@@ -406,11 +891,8 @@ export class Logger {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  warnRaw(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.WARN)) {
-      const formatted = this.formatMessage(LogLevel.WARN, message, data, options);
-      this.writeToOutput('warn', message, formatted, data, false, true);
-    }
+  warnRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.WARN, message, data, options, false);
   }
 
   /**
@@ -419,11 +901,8 @@ export class Logger {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  errorRaw(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.ERROR)) {
-      const formatted = this.formatMessage(LogLevel.ERROR, message, data, options);
-      this.writeToOutput('error', message, formatted, data, true, false);
-    }
+  errorRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.ERROR, message, data, options, false);
   }
 
   /**
@@ -432,10 +911,166 @@ export class Logger {
      * @param data - Optional data object to log (no redaction applied)
      * @param options - Optional per-call options (e.g., emoji override)
      */
-  logRaw(message: string, data?: LogData, options?: LogCallOptions): void {
-    if (this.shouldLog(LogLevel.LOG)) {
-      const formatted = this.formatMessage(LogLevel.LOG, message, data, options);
-      this.writeToOutput('log', message, formatted, data);
+  logRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(LogLevel.LOG, message, data, options, false);
+  }
+
+  /**
+     * Log a message at any built-in or registered level
+     * Used by the methods generated for custom levels (e.g. trace(), fatal())
+     * Automatically redacts sensitive data when provided
+     * @param level - Level value or name (e.g. LogLevel.WARN or 'trace')
+     * @param message - The message to log
+     * @param data - Optional data object to log (sensitive data will be redacted)
+     * @param options - Optional per-call options (e.g., emoji override)
+     */
+  logAt(level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(Logger.resolveLevel(level), message, data, options, true);
+  }
+
+  /**
+     * Log a message at any built-in or registered level without data redaction
+     * @param level - Level value or name (e.g. LogLevel.WARN or 'trace')
+     * @param message - The message to log
+     * @param data - Optional data object to log (no redaction applied)
+     * @param options - Optional per-call options (e.g., emoji override)
+     */
+  logAtRaw(level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void {
+    this.emit(Logger.resolveLevel(level), message, data, options, false);
+  }
+
+  /**
+     * Get counts of records kept and sampled out by this logger's sampling rules
+     * Children share the counts of their root logger
+     * @returns Sampling statistics
+     */
+  getSamplingStats(): SamplingStats {
+    return this.sampler.getStats();
+  }
+
+  /**
+     * Reset sampling counts to zero
+     */
+  resetSamplingStats(): void {
+    this.sampler.resetStats();
+  }
+
+  /**
+     * Drain every output: pending rate limit summaries, buffered HTTP logs and queued file writes
+     * Resolves once in-flight HTTP requests have completed; children flush their root logger
+     * @param timeoutMs - Optional maximum time to wait
+     * @returns true when everything was drained, false if the timeout elapsed first
+     */
+  async flush(timeoutMs?: number): Promise<boolean> {
+    const root = this.getRoot();
+    root.rateLimiter?.flush();
+    return Logger.waitWithTimeout(root.outputRegistry.flush(), timeoutMs);
+  }
+
+  /**
+     * Flush every output, then release the file and HTTP handlers
+     * Logging after close() creates the handlers again
+     * @param timeoutMs - Optional maximum time to wait for the flush
+     * @returns true when everything was drained, false if the timeout elapsed first
+     */
+  async close(timeoutMs?: number): Promise<boolean> {
+    const root = this.getRoot();
+    const drained = await root.flush(timeoutMs);
+    root.outputRegistry.destroyAll();
+    return drained;
+  }
+
+  /**
+     * Wait for a promise, giving up after an optional timeout
+     * @param promise - Promise to wait for
+     * @param timeoutMs - Maximum time to wait, or undefined to wait indefinitely
+     * @returns true if the promise settled in time, false on timeout
+     */
+  private static async waitWithTimeout(promise: Promise<void>, timeoutMs?: number): Promise<boolean> {
+    if (timeoutMs === undefined) {
+      await promise;
+      return true;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    try {
+      return await Promise.race([promise.then(() => true), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+     * Install or remove the process exit hooks for the flushOnExit setting
+     * 'beforeExit' flushes outputs; SIGTERM closes them, then re-raises the signal
+     * unless the application has its own SIGTERM listener
+     * @param flushOnExit - The configured flushOnExit value
+     */
+  private updateExitHooks(flushOnExit: LoggerConfig['flushOnExit']): void {
+    if (!flushOnExit) {
+      this.removeExitHooks();
+      return;
+    }
+
+    const timeoutMs = (typeof flushOnExit === 'object' ? flushOnExit.timeoutMs : undefined) ?? Logger.DEFAULT_EXIT_TIMEOUT_MS;
+    this.exitTimeoutMs = timeoutMs;
+    if (this.exitHooks) {
+      return;
+    }
+
+    const hooks = {
+      beforeExit: (): void => {
+        // Nothing is in flight when 'beforeExit' fires, so only pending summaries and buffers need writing
+        void this.flush();
+      },
+      sigterm: (): void => {
+        this.removeExitHooks();
+        void this.close(this.exitTimeoutMs).then(() => {
+          if (process.listenerCount('SIGTERM') === 0) {
+            process.kill(process.pid, 'SIGTERM');
+          }
+        });
+      }
+    };
+    process.on('beforeExit', hooks.beforeExit);
+    process.on('SIGTERM', hooks.sigterm);
+    this.exitHooks = hooks;
+  }
+
+  /**
+     * Remove the process exit hooks, if installed
+     */
+  private removeExitHooks(): void {
+    if (this.exitHooks) {
+      process.removeListener('beforeExit', this.exitHooks.beforeExit);
+      process.removeListener('SIGTERM', this.exitHooks.sigterm);
+      this.exitHooks = null;
+    }
+  }
+
+  /**
+     * Check whether messages at a level would currently be logged
+     * Useful to guard expensive work that only feeds a log call
+     * @param level - Level value or name (e.g. LogLevel.DEBUG or 'trace')
+     * @returns true if the level passes this logger's effective mode
+     */
+  isLevelEnabled(level: LogLevel | string): boolean {
+    return this.shouldLog(Logger.resolveLevel(level));
+  }
+
+  /**
+     * Resolve a level value or name to a registered level value
+     * @param level - Level value or name
+     * @returns The level value
+     */
+  private static resolveLevel(level: LogLevel | string): LogLevel {
+    const info = LevelRegistry.resolve(level);
+    if (!info) {
+      throw new Error(`Unknown log level: ${JSON.stringify(level)}. Register it with LogEngine.registerLevel() first.`);
     }
+    return info.value;
   }
 }
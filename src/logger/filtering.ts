@@ -3,7 +3,8 @@
  * Handles the decision logic for whether messages should be logged
  */
 
-import { LogLevel, LogMode } from '../types';
+import { LogLevel, LogMode, LogRecord, OutputTargetOptions } from '../types';
+import { LevelRegistry } from '../levels';
 
 /**
  * Filtering logic for log messages based on levels and modes
@@ -34,11 +35,12 @@ export class LogFilter {
      * Messages are shown only if their level is appropriate for the configured mode
      * LOG level is special - it always outputs regardless of configured mode (except when OFF is set)
      * OFF mode disables all logging including LOG level messages
+     * A level name as mode (e.g. 'trace') shows that level and everything more severe
      * @param level - The log level of the message to check
-     * @param currentMode - The current logging mode
+     * @param currentMode - The current logging mode or level name
      * @returns true if message should be logged, false otherwise
      */
-  static shouldLog(level: LogLevel, currentMode: LogMode): boolean {
+  static shouldLog(level: LogLevel, currentMode: LogMode | string): boolean {
     // Get the severity rank for the message level using safe lookup
     const messageSeverity = LogFilter.getSeverityRank(level);
 
@@ -51,6 +53,7 @@ export class LogFilter {
 
   /**
      * Get the severity rank for a log level
+     * Custom levels use the severity they were registered with
      * @param level - The log level to get rank for
      * @returns Numeric severity rank
      */
@@ -61,16 +64,20 @@ export class LogFilter {
     case LogLevel.WARN: return 2;
     case LogLevel.ERROR: return 3;
     case LogLevel.LOG: return 99;
-    default: return 0;
+    default: return LevelRegistry.get(level)?.severity ?? 0;
     }
   }
 
   /**
      * Get the threshold for a log mode
-     * @param mode - The log mode to get threshold for
+     * Level names (e.g. 'trace', 'fatal') use that level's severity as the threshold
+     * @param mode - The log mode or level name to get threshold for
      * @returns Numeric threshold value
      */
-  static getModeThreshold(mode: LogMode): number {
+  static getModeThreshold(mode: LogMode | string): number {
+    if (typeof mode === 'string') {
+      return LevelRegistry.getByName(mode)?.severity ?? 0;
+    }
     switch (mode) {
     case LogMode.DEBUG: return 0;
     case LogMode.INFO: return 1;
@@ -81,4 +88,40 @@ export class LogFilter {
     default: return 0;
     }
   }
+
+  /**
+     * Validate the minLevel and mode of an output target
+     * @param options - Output target options
+     */
+  static validateOutputOptions(options: OutputTargetOptions): void {
+    if (options.minLevel !== undefined && !LevelRegistry.resolve(options.minLevel)) {
+      throw new Error(`Unknown output minLevel: ${JSON.stringify(options.minLevel)}. Use a LogLevel value or a registered level name.`);
+    }
+    if (options.mode !== undefined && !LevelRegistry.isValidMode(options.mode)) {
+      throw new Error(`Unknown output mode: ${JSON.stringify(options.mode)}. Use a LogMode value or a registered level name.`);
+    }
+    if (options.filter !== undefined && typeof options.filter !== 'function') {
+      throw new Error('Output filter must be a function.');
+    }
+  }
+
+  /**
+     * Build the record check for an output's minLevel, mode and filter
+     * @param options - Output target options
+     * @returns Predicate deciding whether a record goes to the output, or undefined when the output takes every record
+     */
+  static createOutputFilter(options: OutputTargetOptions): ((record: LogRecord) => boolean) | undefined {
+    const { minLevel, mode, filter } = options;
+    if (minLevel === undefined && mode === undefined && filter === undefined) {
+      return undefined;
+    }
+
+    LogFilter.validateOutputOptions(options);
+    const minSeverity = minLevel !== undefined ? LevelRegistry.resolve(minLevel)?.severity ?? 0 : undefined;
+
+    return (record: LogRecord): boolean =>
+      (minSeverity === undefined || LogFilter.getSeverityRank(record.level) >= minSeverity) &&
+      (mode === undefined || LogFilter.shouldLog(record.level, mode)) &&
+      (filter === undefined || filter(record));
+  }
 }
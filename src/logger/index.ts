@@ -7,6 +7,12 @@ export { Logger } from './core';
 export { LoggerConfigManager } from './config';
 export { LogFilter } from './filtering';
 export { EnvironmentDetector } from './environment';
+export { LogContextManager } from './context';
+export { NamespaceFilter } from './namespaces';
+export { LogSampler } from './sampling';
+export { RateLimiter } from './rate-limiter';
+export { LogRouter } from './routing';
+export { PayloadLimiter } from './payload-limits';
 
 // Backward compatibility - maintain the original Logger class interface
 export { Logger as CoreLogger } from './core';
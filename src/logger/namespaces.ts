@@ -0,0 +1,150 @@
+/**
+ * Namespace-scoped log modes
+ * Resolves the mode for a named logger (e.g. 'db:pool') from wildcard patterns such as 'db:*'
+ */
+
+import { LogMode, NamespaceModes } from '../types';
+import { LevelRegistry } from '../levels';
+
+/**
+ * Matching logic for namespace mode maps
+ * Patterns use '*' as a wildcard; the most specific matching pattern wins
+ */
+export class NamespaceFilter {
+  /**
+     * Validate a namespace name
+     * @param namespace - Namespace such as 'db:pool'
+     * @returns The validated namespace
+     */
+  static validateNamespace(namespace: string): string {
+    if (typeof namespace !== 'string' || !/^[^\s,=*]+$/.test(namespace)) {
+      throw new Error(`Invalid logger namespace: ${JSON.stringify(namespace)}. Namespaces cannot be empty or contain whitespace, ',', '=' or '*'.`);
+    }
+    return namespace;
+  }
+
+  /**
+     * Resolve the mode for a namespace from a pattern map
+     * An exact pattern beats any wildcard, and among wildcards the one with the most literal characters wins.
+     * Loggers without a namespace are only matched by '*'.
+     * @param namespace - Namespace of the logger, or undefined for the root logger
+     * @param modes - Map of namespace patterns to modes
+     * @returns The mode of the most specific matching pattern, or undefined if none matches
+     */
+  static resolveMode(namespace: string | undefined, modes: NamespaceModes): LogMode | string | undefined {
+    let bestMode: LogMode | string | undefined;
+    let bestScore = -1;
+
+    for (const [pattern, mode] of Object.entries(modes)) {
+      const score = NamespaceFilter.getMatchScore(pattern.trim(), namespace);
+      if (score > bestScore) {
+        bestScore = score;
+        bestMode = mode;
+      }
+    }
+
+    return bestMode;
+  }
+
+  /**
+     * Check whether a namespace pattern matches a namespace
+     * @param pattern - Namespace pattern (may contain '*')
+     * @param namespace - Namespace of the logger, or undefined for the root logger
+     * @returns true if the pattern matches
+     */
+  static matches(pattern: string, namespace: string | undefined): boolean {
+    return NamespaceFilter.getMatchScore(pattern.trim(), namespace) >= 0;
+  }
+
+  /**
+     * Parse namespace modes from the LOG_NAMESPACES environment variable
+     * Entries are separated by commas or whitespace:
+     * - `pattern=mode` sets a mode (a LogMode name such as 'warn' or 'off', or a registered level name)
+     * - a bare `pattern` enables DEBUG
+     * - `-pattern` turns logging OFF
+     * Invalid entries are ignored.
+     * @param value - Variable value (defaults to process.env.LOG_NAMESPACES)
+     * @returns Parsed namespace modes
+     * @example 'db:*=debug,http,-noisy:*,*=warn'
+     */
+  static getEnvironmentModes(value: string | undefined = process.env.LOG_NAMESPACES): NamespaceModes {
+    const modes: NamespaceModes = {};
+    if (!value) {
+      return modes;
+    }
+
+    for (const entry of value.split(/[\s,]+/)) {
+      if (entry === '') {
+        continue;
+      }
+
+      if (entry.startsWith('-')) {
+        const pattern = entry.slice(1);
+        if (pattern !== '') {
+          modes[pattern] = LogMode.OFF;
+        }
+        continue;
+      }
+
+      const separatorIndex = entry.indexOf('=');
+      if (separatorIndex === -1) {
+        modes[entry] = LogMode.DEBUG;
+        continue;
+      }
+
+      const pattern = entry.slice(0, separatorIndex);
+      const mode = NamespaceFilter.parseMode(entry.slice(separatorIndex + 1));
+      if (pattern !== '' && mode !== undefined) {
+        modes[pattern] = mode;
+      }
+    }
+
+    return modes;
+  }
+
+  /**
+     * Parse a mode name from the environment
+     * @param value - Mode name such as 'debug', 'silent' or a registered level name
+     * @returns The mode, or undefined if the name is unknown
+     */
+  private static parseMode(value: string): LogMode | string | undefined {
+    const name = value.trim().toLowerCase();
+    switch (name) {
+    case 'debug': return LogMode.DEBUG;
+    case 'info': return LogMode.INFO;
+    case 'warn': return LogMode.WARN;
+    case 'error': return LogMode.ERROR;
+    case 'silent': return LogMode.SILENT;
+    case 'off': return LogMode.OFF;
+    default: return LevelRegistry.getByName(name) ? name : undefined;
+    }
+  }
+
+  /**
+     * Score how specifically a pattern matches a namespace
+     * @param pattern - Namespace pattern (may contain '*')
+     * @param namespace - Namespace of the logger, or undefined for the root logger
+     * @returns -1 for no match; otherwise higher is more specific
+     */
+  private static getMatchScore(pattern: string, namespace: string | undefined): number {
+    if (namespace === undefined) {
+      return pattern === '*' ? 0 : -1;
+    }
+
+    if (!pattern.includes('*')) {
+      // Exact matches always beat wildcard patterns
+      return pattern === namespace ? Number.MAX_SAFE_INTEGER : -1;
+    }
+
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    if (!new RegExp(`^${source}$`).test(namespace)) {
+      return -1;
+    }
+
+    // More literal characters means a more specific wildcard
+    return pattern.replace(/\*/g, '').length;
+  }
+}
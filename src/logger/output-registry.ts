@@ -0,0 +1,150 @@
+/**
+ * Output handler lifecycle registry
+ * Keeps one instance of each configured output so file and HTTP handlers persist across log calls
+ */
+
+import { LogFormatConfig, LoggerConfig, LogRecord } from '../types';
+import { RateLimiter } from './rate-limiter';
+
+/**
+ * Output sink used internally by the dispatch pipeline
+ * Receives the record plus its pre-formatted text for console-style outputs, and the format configuration
+ * of the logger that wrote the record, since one output is shared by a logger and its children
+ */
+export type OutputSink = (record: LogRecord, formattedMessage: string, formatConfig?: LogFormatConfig) => void;
+
+/**
+ * A configured output, instantiated once and reused for every log call
+ */
+export interface ResolvedOutput {
+  /** Writes a record to the output */
+  write: OutputSink;
+  /** Resolves once buffered and in-flight writes of the underlying handler are done */
+  flush?: () => Promise<void>;
+  /** Releases timers and buffers of the underlying handler */
+  destroy?: () => void;
+  /** Per-output minLevel/mode/filter check, evaluated before the rate limiter and handler */
+  accepts?: (record: LogRecord) => boolean;
+  /** Rate limiter applied to this output only */
+  rateLimiter?: RateLimiter;
+  /** Line formatter from the output's format, used instead of the logger's text line */
+  format?: (record: LogRecord) => string;
+}
+
+/**
+ * Registry of instantiated outputs, keyed by the configuration object they were created from
+ * Each root logger owns one; outputs are created on first use and destroyed once they are no longer configured
+ */
+export class OutputRegistry {
+  private readonly outputs = new Map<object, ResolvedOutput>();
+  private formatConfig: LogFormatConfig | undefined;
+
+  /**
+     * Get the output created for a configuration object, creating it on first use
+     * @param key - Output target or handler config object identifying the output
+     * @param create - Factory called when the output hasn't been created yet
+     * @returns The resolved output, or null if it can't be created
+     */
+  get(key: object, create: () => ResolvedOutput | null): ResolvedOutput | null {
+    const existing = this.outputs.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const created = create();
+    if (created) {
+      this.outputs.set(key, created);
+    }
+    return created;
+  }
+
+  /**
+     * Destroy outputs that are no longer part of a configuration
+     * Outputs whose target (or handler config) object is still configured are kept as they are,
+     * unless the format configuration changed, since outputs resolve their line format when created
+     * @param config - The new logger configuration
+     */
+  retain(config: LoggerConfig): void {
+    if (config.format !== this.formatConfig) {
+      this.formatConfig = config.format;
+      this.destroyAll();
+      return;
+    }
+
+    const configured = OutputRegistry.getConfiguredKeys(config);
+    for (const [key, output] of Array.from(this.outputs)) {
+      if (!configured.has(key)) {
+        this.outputs.delete(key);
+        OutputRegistry.destroyOutput(output);
+      }
+    }
+  }
+
+  /**
+     * Drain every registered output
+     * Pending rate limit summaries are written first, so they are drained along with everything else
+     */
+  async flush(): Promise<void> {
+    const outputs = Array.from(this.outputs.values());
+    for (const output of outputs) {
+      output.rateLimiter?.flush();
+    }
+    await Promise.all(outputs.map(output => OutputRegistry.flushOutput(output)));
+  }
+
+  /**
+     * Destroy every registered output
+     */
+  destroyAll(): void {
+    const outputs = Array.from(this.outputs.values());
+    this.outputs.clear();
+    for (const output of outputs) {
+      OutputRegistry.destroyOutput(output);
+    }
+  }
+
+  /**
+     * Collect the objects that identify outputs in a configuration
+     * @param config - Logger configuration
+     * @returns Output targets of outputs/enhancedOutputs/routing plus the advancedOutputConfig entries
+     */
+  private static getConfiguredKeys(config: LoggerConfig): Set<object> {
+    const keys = new Set<object>();
+    for (const output of [...(config.outputs ?? []), ...(config.enhancedOutputs ?? []), ...Object.values(config.routing?.outputs ?? {})]) {
+      if (typeof output === 'object' && output !== null) {
+        keys.add(output);
+      }
+    }
+    for (const outputConfig of Object.values(config.advancedOutputConfig ?? {})) {
+      if (typeof outputConfig === 'object' && outputConfig !== null) {
+        keys.add(outputConfig);
+      }
+    }
+    return keys;
+  }
+
+  /**
+     * Drain a single output, reporting failures instead of rejecting
+     * @param output - Output to drain
+     */
+  private static async flushOutput(output: ResolvedOutput): Promise<void> {
+    try {
+      await output.flush?.();
+    } catch (error) {
+      console.error(`[LogEngine] Failed to flush output handler: ${error}`);
+    }
+  }
+
+  /**
+     * Flush pending rate limit summaries, then release the output's handler
+     * @param output - Output to destroy
+     */
+  private static destroyOutput(output: ResolvedOutput): void {
+    try {
+      output.rateLimiter?.flush();
+      output.destroy?.();
+    } catch (error) {
+      console.error(`[LogEngine] Failed to destroy output handler: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Payload size budgets
+ * Cuts oversized messages, data and context before any output sees the record
+ */
+
+import { LogContext, LogData, LogRecord, PayloadLimits } from '../types';
+import { SafeSerializer } from '../serialization';
+
+/**
+ * Limits and collected paths shared while walking one value
+ */
+interface LimitState {
+  limits: PayloadLimits;
+  paths: string[];
+  visited: WeakSet<object>;
+}
+
+/**
+ * Applies payload limits to log records
+ * Structural limits (strings, arrays, keys, depth) are applied first; maxBytes then shortens strings,
+ * replaces the data and context, and finally cuts the message until the record fits
+ */
+export class PayloadLimiter {
+  private static readonly LIMIT_NAMES = ['maxBytes', 'maxArrayLength', 'maxKeys', 'maxStringLength', 'maxDepth'];
+  private static readonly DEPTH_MARKER = '[Max Depth Exceeded]';
+  /** Strings aren't shortened below this length to meet maxBytes; the data is replaced instead */
+  private static readonly MIN_STRING_LENGTH = 32;
+
+  /**
+     * Validate payload limits
+     * @param limits - Limits from the logger configuration
+     */
+  static validate(limits: PayloadLimits): void {
+    if (limits === null || typeof limits !== 'object') {
+      throw new Error('limits must be an object.');
+    }
+    for (const [name, value] of Object.entries(limits)) {
+      if (!PayloadLimiter.LIMIT_NAMES.includes(name)) {
+        throw new Error(`Unknown payload limit: "${name}". Use ${PayloadLimiter.LIMIT_NAMES.join(', ')}.`);
+      }
+      const minimum = name === 'maxDepth' ? 0 : 1;
+      if (value !== undefined && (!Number.isInteger(value) || value < minimum)) {
+        throw new Error(`Invalid payload limit ${name}: ${value}. It must be ${minimum === 0 ? 'a non-negative' : 'a positive'} integer.`);
+      }
+    }
+  }
+
+  /**
+     * Apply limits to a record in place
+     * Cut parts are listed in record.truncated; the original data objects are never modified
+     * @param record - Record with redacted message, data and context
+     * @param limits - Limits from the logger configuration
+     */
+  static apply(record: LogRecord, limits: PayloadLimits): void {
+    const state: LimitState = { limits, paths: [], visited: new WeakSet() };
+    const data = record.data;
+
+    record.message = PayloadLimiter.limitString(record.message, 'message', state);
+    if (record.data !== undefined) {
+      record.data = PayloadLimiter.limitValue(record.data, 'data', state, 0);
+    }
+    if (record.context !== undefined) {
+      record.context = PayloadLimiter.limitValue(record.context, 'context', state, 0) as LogContext;
+    }
+
+    let originalBytes: number | undefined;
+    if (limits.maxBytes !== undefined) {
+      const size = PayloadLimiter.measure(record);
+      if (size > limits.maxBytes) {
+        originalBytes = size;
+        PayloadLimiter.fitBytes(record, data, limits, state.paths, size);
+      }
+    }
+
+    if (state.paths.length > 0) {
+      record.truncated = originalBytes !== undefined ? { paths: state.paths, originalBytes } : { paths: state.paths };
+    }
+  }
+
+  /**
+     * Get the serialized size of the parts of a record covered by maxBytes
+     * @param record - The record
+     * @returns Size in bytes of message, context and data as JSON
+     */
+  static measure(record: Pick<LogRecord, 'message' | 'context' | 'data'>): number {
+    return Buffer.byteLength(SafeSerializer.stringify({ message: record.message, context: record.context, data: record.data }));
+  }
+
+  /**
+     * Shrink a record until it fits maxBytes
+     * @param record - Record with structural limits applied
+     * @param data - The record's data before any limit applied
+     * @param limits - Limits from the logger configuration, including maxBytes
+     * @param paths - Cut paths collected so far
+     * @param size - Current size in bytes
+     */
+  private static fitBytes(record: LogRecord, data: LogData, limits: PayloadLimits, paths: string[], size: number): void {
+    const maxBytes = limits.maxBytes as number;
+
+    // Shorten the longest strings of the data first, halving their length while that still helps
+    let stringLimit = PayloadLimiter.findLongestString(record.data, new WeakSet(), 0);
+    while (size > maxBytes && stringLimit > PayloadLimiter.MIN_STRING_LENGTH) {
+      stringLimit = Math.max(PayloadLimiter.MIN_STRING_LENGTH, Math.floor(stringLimit / 2));
+      const shortened: LimitState = { limits: { ...limits, maxStringLength: stringLimit }, paths: [], visited: new WeakSet() };
+      record.data = PayloadLimiter.limitValue(data, 'data', shortened, 0);
+      size = PayloadLimiter.measure(record);
+      if (size <= maxBytes || stringLimit === PayloadLimiter.MIN_STRING_LENGTH) {
+        PayloadLimiter.addPaths(paths, shortened.paths);
+      }
+    }
+
+    if (size > maxBytes && record.data !== undefined) {
+      record.data = `[Data truncated: record exceeded ${maxBytes} bytes]`;
+      PayloadLimiter.addPaths(paths, ['data']);
+      size = PayloadLimiter.measure(record);
+    }
+    if (size > maxBytes && record.context !== undefined && Object.keys(record.context).length > 0) {
+      record.context = { truncated: `[Context truncated: record exceeded ${maxBytes} bytes]` };
+      PayloadLimiter.addPaths(paths, ['context']);
+      size = PayloadLimiter.measure(record);
+    }
+
+    // Cut the message last, scaling its length down by the remaining overshoot
+    const message = record.message;
+    let keep = message.length;
+    while (size > maxBytes && keep > 0) {
+      keep = Math.max(0, Math.min(keep - 1, Math.floor(keep * maxBytes / size)));
+      record.message = PayloadLimiter.cut(message, keep);
+      size = PayloadLimiter.measure(record);
+    }
+    if (record.message !== message) {
+      PayloadLimiter.addPaths(paths, ['message']);
+    }
+  }
+
+  /**
+     * Apply the structural limits to a value, copying only what changes
+     * @param value - The value
+     * @param path - Dotted path of the value, for the report
+     * @param state - Limits, collected paths and the objects on the current path
+     * @param depth - Current nesting depth
+     * @returns The limited value, or the value itself when nothing was cut
+     */
+  private static limitValue(value: LogData, path: string, state: LimitState, depth: number): LogData {
+    if (typeof value === 'string') {
+      return PayloadLimiter.limitString(value, path, state);
+    }
+    if (value === null || typeof value !== 'object' || value instanceof Date || value instanceof RegExp || state.visited.has(value)) {
+      // Circular references are left to the redactor and the serializer, which mark them
+      return value;
+    }
+
+    const { limits, paths } = state;
+    if (limits.maxDepth !== undefined && depth >= limits.maxDepth) {
+      paths.push(path);
+      return PayloadLimiter.DEPTH_MARKER;
+    }
+
+    if (ArrayBuffer.isView(value)) {
+      // Binary data is cut without a marker, since one can't be stored in it
+      const view = value as unknown as Uint8Array;
+      if (limits.maxArrayLength === undefined || value instanceof DataView || view.length <= limits.maxArrayLength) {
+        return value;
+      }
+      paths.push(path);
+      return Buffer.isBuffer(value) ? Buffer.from(value.subarray(0, limits.maxArrayLength)) : view.slice(0, limits.maxArrayLength);
+    }
+
+    state.visited.add(value);
+    try {
+      if (Array.isArray(value)) {
+        return PayloadLimiter.limitArray(value, path, state, depth);
+      }
+      if (value instanceof Map) {
+        return PayloadLimiter.limitMap(value, path, state, depth);
+      }
+      if (value instanceof Set) {
+        const items = Array.from(value);
+        const limited = PayloadLimiter.limitArray(items, path, state, depth);
+        return limited === items ? value : new Set(limited);
+      }
+      return PayloadLimiter.limitObject(value, path, state, depth);
+    } finally {
+      state.visited.delete(value);
+    }
+  }
+
+  /**
+     * Cut a string to maxStringLength
+     * @param value - The string
+     * @param path - Path of the string
+     * @param state - Limits and collected paths
+     * @returns The string, with a marker when it was cut
+     */
+  private static limitString(value: string, path: string, state: LimitState): string {
+    const max = state.limits.maxStringLength;
+    if (max === undefined || value.length <= max) {
+      return value;
+    }
+    state.paths.push(path);
+    return PayloadLimiter.cut(value, max);
+  }
+
+  /**
+     * Limit the items of an array
+     * @param value - The array
+     * @param path - Path of the array
+     * @param state - Limits, collected paths and the objects on the current path
+     * @param depth - Current nesting depth
+     * @returns The limited array, or the array itself when nothing was cut
+     */
+  private static limitArray(value: LogData[], path: string, state: LimitState, depth: number): LogData[] {
+    const max = state.limits.maxArrayLength;
+    const kept = max !== undefined && value.length > max ? value.slice(0, max) : value;
+    const items = kept.map((item, index) => PayloadLimiter.limitValue(item, `${path}[${index}]`, state, depth + 1));
+
+    if (kept.length < value.length) {
+      state.paths.push(path);
+      items.push(`[${value.length - kept.length} more items]`);
+      return items;
+    }
+    return items.some((item, index) => item !== value[index]) ? items : value;
+  }
+
+  /**
+     * Limit the entries of a Map
+     * @param value - The Map
+     * @param path - Path of the Map
+     * @param state - Limits, collected paths and the objects on the current path
+     * @param depth - Current nesting depth
+     * @returns The limited Map, or the Map itself when nothing was cut
+     */
+  private static limitMap(value: Map<unknown, LogData>, path: string, state: LimitState, depth: number): Map<unknown, LogData> {
+    const max = state.limits.maxArrayLength;
+    const entries = Array.from(value);
+    const kept = max !== undefined && entries.length > max ? entries.slice(0, max) : entries;
+    let changed = kept.length < entries.length;
+    const limited = new Map<unknown, LogData>();
+    for (const [key, item] of kept) {
+      const result = PayloadLimiter.limitValue(item, `${path}.${String(key)}`, state, depth + 1);
+      changed = changed || result !== item;
+      limited.set(key, result);
+    }
+
+    if (kept.length < entries.length) {
+      state.paths.push(path);
+      limited.set('...', `[${entries.length - kept.length} more entries]`);
+    }
+    return changed ? limited : value;
+  }
+
+  /**
+     * Limit the keys of an object
+     * Class instances keep their prototype, so pretty data still shows the class name
+     * @param value - The object
+     * @param path - Path of the object
+     * @param state - Limits, collected paths and the objects on the current path
+     * @param depth - Current nesting depth
+     * @returns The limited object, or the object itself when nothing was cut
+     */
+  private static limitObject(value: object, path: string, state: LimitState, depth: number): LogData {
+    const max = state.limits.maxKeys;
+    const entries = SafeSerializer.entries(value);
+    const kept = max !== undefined && entries.length > max ? entries.slice(0, max) : entries;
+    let changed = kept.length < entries.length;
+    const limited: Record<string, LogData> = Object.getPrototypeOf(value) === Object.prototype ? {} : Object.create(Object.getPrototypeOf(value));
+    for (const [key, item] of kept) {
+      const result = PayloadLimiter.limitValue(item, `${path}.${key}`, state, depth + 1);
+      changed = changed || result !== item;
+      Object.defineProperty(limited, key, { value: result, enumerable: true, writable: true, configurable: true });
+    }
+
+    if (kept.length < entries.length) {
+      state.paths.push(path);
+      Object.defineProperty(limited, '...', { value: `[${entries.length - kept.length} more keys]`, enumerable: true, writable: true, configurable: true });
+    }
+    return changed ? limited : value;
+  }
+
+  /**
+     * Find the length of the longest string in a value
+     * @param value - The value
+     * @param visited - Objects on the current path
+     * @param depth - Current nesting depth
+     * @returns Longest string length, 0 when there are no strings
+     */
+  private static findLongestString(value: LogData, visited: WeakSet<object>, depth: number): number {
+    if (typeof value === 'string') {
+      return value.length;
+    }
+    if (value === null || typeof value !== 'object' || visited.has(value) || ArrayBuffer.isView(value) || depth > 100) {
+      return 0;
+    }
+    visited.add(value);
+    const items = value instanceof Map ? Array.from(value.values()) : value instanceof Set || Array.isArray(value) ? Array.from(value) : SafeSerializer.entries(value).map(([, item]) => item);
+    const longest = items.reduce((max: number, item) => Math.max(max, PayloadLimiter.findLongestString(item, visited, depth + 1)), 0);
+    visited.delete(value);
+    return longest;
+  }
+
+  /**
+     * Cut a string and mark how much was removed
+     * @param value - The string
+     * @param length - Characters to keep
+     * @returns The cut string with a marker
+     */
+  private static cut(value: string, length: number): string {
+    return `${value.slice(0, length)}...[${value.length - length} more characters]`;
+  }
+
+  /**
+     * Add paths to the report, skipping duplicates
+     * @param paths - Paths reported so far
+     * @param added - Paths to add
+     */
+  private static addPaths(paths: string[], added: string[]): void {
+    for (const path of added) {
+      if (!paths.includes(path)) {
+        paths.push(path);
+      }
+    }
+  }
+}
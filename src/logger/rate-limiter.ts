@@ -0,0 +1,158 @@
+/**
+ * Duplicate suppression and rate limiting
+ * Collapses repeated records within a time window into a single summary record
+ */
+
+import { LogRecord, RateLimitConfig } from '../types';
+
+/**
+ * Tracking state for one fingerprint within its current window
+ */
+interface RateLimitWindow {
+  /** First record seen in the window, used as the template for the summary */
+  record: LogRecord;
+  /** Records passed through in this window */
+  passed: number;
+  /** Records suppressed in this window */
+  suppressed: number;
+  /** Timer closing the window */
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Rate limiter keyed by record fingerprint
+ * The first records of a window pass through; further repeats are counted and reported
+ * in one summary record ("repeated 4,211 times in 10s") when the window closes
+ */
+export class RateLimiter {
+  private static readonly DEFAULT_WINDOW_MS = 10000;
+  private static readonly DEFAULT_MAX_PER_WINDOW = 1;
+
+  /** Configuration this limiter was created from */
+  readonly config: RateLimitConfig;
+  private readonly emitSummary: (record: LogRecord) => void;
+  private readonly windows = new Map<string, RateLimitWindow>();
+  private readonly windowMs: number;
+  private readonly maxPerWindow: number;
+
+  /**
+     * Create a rate limiter
+     * @param config - Window length, repeats allowed per window and optional fingerprint function
+     * @param emitSummary - Called with the summary record when a window with suppressed repeats closes
+     */
+  constructor(config: RateLimitConfig, emitSummary: (record: LogRecord) => void) {
+    RateLimiter.validate(config);
+    this.config = config;
+    this.emitSummary = emitSummary;
+    this.windowMs = config.windowMs ?? RateLimiter.DEFAULT_WINDOW_MS;
+    this.maxPerWindow = config.maxPerWindow ?? RateLimiter.DEFAULT_MAX_PER_WINDOW;
+  }
+
+  /**
+     * Validate a rate limit configuration
+     * @param config - Rate limit configuration
+     */
+  static validate(config: RateLimitConfig): void {
+    if (config.windowMs !== undefined && !(config.windowMs > 0 && Number.isFinite(config.windowMs))) {
+      throw new Error(`Invalid rate limit windowMs: ${config.windowMs}. It must be a positive number.`);
+    }
+    if (config.maxPerWindow !== undefined && !(Number.isInteger(config.maxPerWindow) && config.maxPerWindow >= 1)) {
+      throw new Error(`Invalid rate limit maxPerWindow: ${config.maxPerWindow}. It must be a positive integer.`);
+    }
+  }
+
+  /**
+     * Default fingerprint: level plus message
+     * @param record - The log record
+     * @returns Fingerprint string
+     */
+  static defaultFingerprint(record: LogRecord): string {
+    return `${record.level}:${record.message}`;
+  }
+
+  /**
+     * Check a record against the limiter
+     * @param record - The log record
+     * @returns true if the record should be written, false if it was suppressed
+     */
+  check(record: LogRecord): boolean {
+    const fingerprint = (this.config.fingerprint ?? RateLimiter.defaultFingerprint)(record);
+    const window = this.windows.get(fingerprint);
+
+    if (!window) {
+      const timer = setTimeout(() => this.closeWindow(fingerprint), this.windowMs);
+      // Don't keep the process alive just to report repeats
+      if (typeof timer.unref === 'function') {
+        timer.unref();
+      }
+      this.windows.set(fingerprint, { record, passed: 1, suppressed: 0, timer });
+      return true;
+    }
+
+    if (window.passed < this.maxPerWindow) {
+      window.passed++;
+      return true;
+    }
+
+    window.suppressed++;
+    return false;
+  }
+
+  /**
+     * Close all open windows now, emitting summaries for suppressed repeats
+     */
+  flush(): void {
+    for (const fingerprint of Array.from(this.windows.keys())) {
+      this.closeWindow(fingerprint);
+    }
+  }
+
+  /**
+     * Close a window and emit its summary if anything was suppressed
+     * @param fingerprint - Fingerprint of the window to close
+     */
+  private closeWindow(fingerprint: string): void {
+    const window = this.windows.get(fingerprint);
+    if (!window) {
+      return;
+    }
+    clearTimeout(window.timer);
+    this.windows.delete(fingerprint);
+
+    if (window.suppressed > 0) {
+      try {
+        this.emitSummary(this.createSummary(window));
+      } catch (error) {
+        console.error(`[LogEngine] Failed to write rate limit summary: ${error}`);
+      }
+    }
+  }
+
+  /**
+     * Build the summary record for a closed window
+     * @param window - The closed window
+     * @returns Summary record based on the first record of the window
+     */
+  private createSummary(window: RateLimitWindow): LogRecord {
+    const { record, suppressed } = window;
+    return {
+      ...record,
+      timestamp: new Date(),
+      message: `${record.message} (repeated ${suppressed.toLocaleString('en-US')} times in ${RateLimiter.formatDuration(this.windowMs)})`,
+      data: { repeated: suppressed, windowMs: this.windowMs }
+    };
+  }
+
+  /**
+     * Format a window length for the summary message
+     * @param ms - Duration in milliseconds
+     * @returns Duration such as '10s' or '500ms'
+     */
+  private static formatDuration(ms: number): string {
+    if (ms < 1000) {
+      return `${ms}ms`;
+    }
+    const seconds = ms / 1000;
+    return `${Number.isInteger(seconds) ? seconds : seconds.toFixed(1)}s`;
+  }
+}
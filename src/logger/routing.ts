@@ -0,0 +1,198 @@
+/**
+ * Rule-based routing
+ * Decides which named outputs receive a record from level, namespace, message, data and context conditions
+ */
+
+import { LogLevel, LogRecord, RouteMatch, RouteRule, RouteValueMatcher, RoutingConfig } from '../types';
+import { LevelRegistry } from '../levels';
+import { LogFilter } from './filtering';
+import { NamespaceFilter } from './namespaces';
+
+/**
+ * Routing table evaluation
+ * Rules are checked in order; a matching rule adds its outputs and stops routing unless it sets continue
+ */
+export class LogRouter {
+  /**
+     * Validate a routing configuration
+     * @param routing - Routing configuration
+     */
+  static validate(routing: RoutingConfig): void {
+    if (!routing.outputs || typeof routing.outputs !== 'object') {
+      throw new Error('Routing configuration requires an outputs map.');
+    }
+    if (!Array.isArray(routing.rules)) {
+      throw new Error('Routing configuration requires a rules array.');
+    }
+
+    routing.rules.forEach((rule, index) => {
+      LogRouter.validateOutputNames(routing, rule.outputs, `rule ${index}`);
+      LogRouter.validateMatch(rule.match, index);
+    });
+    if (routing.default !== undefined) {
+      LogRouter.validateOutputNames(routing, routing.default, 'default route');
+    }
+  }
+
+  /**
+     * Get the names of the outputs a record is routed to
+     * @param record - The log record
+     * @param routing - Routing configuration
+     * @returns Output names in rule order, without duplicates
+     */
+  static route(record: LogRecord, routing: RoutingConfig): string[] {
+    const names = new Set<string>();
+    let matched = false;
+
+    for (const rule of routing.rules) {
+      if (!LogRouter.matches(rule.match, record)) {
+        continue;
+      }
+      matched = true;
+      rule.outputs.forEach(name => names.add(name));
+      if (!rule.continue) {
+        break;
+      }
+    }
+
+    if (!matched) {
+      routing.default?.forEach(name => names.add(name));
+    }
+    return Array.from(names);
+  }
+
+  /**
+     * Check a record against a rule's conditions
+     * @param match - Rule conditions
+     * @param record - The log record
+     * @returns true if every given condition matches
+     */
+  private static matches(match: RouteMatch, record: LogRecord): boolean {
+    if (match.level !== undefined) {
+      const levels = Array.isArray(match.level) ? match.level : [match.level];
+      if (!levels.some(level => LevelRegistry.resolve(level)?.value === record.level)) {
+        return false;
+      }
+    }
+
+    if (match.minLevel !== undefined) {
+      const minimum = LevelRegistry.resolve(match.minLevel);
+      if (!minimum || LogFilter.getSeverityRank(record.level) < minimum.severity) {
+        return false;
+      }
+    }
+
+    if (match.namespace !== undefined) {
+      const patterns = Array.isArray(match.namespace) ? match.namespace : [match.namespace];
+      if (!patterns.some(pattern => NamespaceFilter.matches(pattern, record.namespace))) {
+        return false;
+      }
+    }
+
+    if (match.message !== undefined) {
+      match.message.lastIndex = 0;
+      if (!match.message.test(record.message)) {
+        return false;
+      }
+    }
+
+    if (match.data !== undefined) {
+      for (const [path, matcher] of Object.entries(match.data)) {
+        const found = LogRouter.getPath(record.data, path);
+        if (!found.exists || !LogRouter.matchValue(matcher, found.value)) {
+          return false;
+        }
+      }
+    }
+
+    if (match.context !== undefined) {
+      const context = record.context ?? {};
+      const hasKey = (key: string): boolean => Object.prototype.hasOwnProperty.call(context, key);
+      const matchers: Array<[string, RouteValueMatcher | undefined]> = Array.isArray(match.context)
+        ? match.context.map(key => [key, undefined])
+        : Object.entries(match.context);
+      for (const [key, matcher] of matchers) {
+        if (!hasKey(key) || (matcher !== undefined && !LogRouter.matchValue(matcher, context[key]))) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+     * Test a value against a matcher
+     * @param matcher - Primitive, regular expression or predicate
+     * @param value - Value from the record
+     * @returns true if the value matches
+     */
+  private static matchValue(matcher: RouteValueMatcher, value: unknown): boolean {
+    if (typeof matcher === 'function') {
+      return matcher(value);
+    }
+    if (matcher instanceof RegExp) {
+      matcher.lastIndex = 0;
+      return typeof value === 'string' && matcher.test(value);
+    }
+    return value === matcher;
+  }
+
+  /**
+     * Look up a dot-separated path in a value
+     * Only own properties are followed, so paths can't reach prototype members
+     * @param value - Root value (the record's data)
+     * @param path - Path such as 'user.role'
+     * @returns Whether the path exists and its value
+     */
+  private static getPath(value: unknown, path: string): { exists: boolean; value?: unknown } {
+    let current = value;
+    for (const key of path.split('.')) {
+      if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, key)) {
+        return { exists: false };
+      }
+      current = (current as Record<string, unknown>)[key];
+    }
+    return { exists: true, value: current };
+  }
+
+  /**
+     * Check that output names refer to routing outputs
+     * @param routing - Routing configuration
+     * @param names - Output names
+     * @param where - Description of the rule for error messages
+     */
+  private static validateOutputNames(routing: RoutingConfig, names: RouteRule['outputs'], where: string): void {
+    if (!Array.isArray(names)) {
+      throw new Error(`Routing ${where} must list its outputs in an array.`);
+    }
+    for (const name of names) {
+      if (!Object.prototype.hasOwnProperty.call(routing.outputs, name)) {
+        throw new Error(`Unknown routing output "${name}" in ${where}. Define it in routing.outputs.`);
+      }
+    }
+  }
+
+  /**
+     * Check that a rule's level conditions refer to known levels
+     * @param match - Rule conditions
+     * @param index - Rule index for error messages
+     */
+  private static validateMatch(match: RouteMatch, index: number): void {
+    if (!match || typeof match !== 'object') {
+      throw new Error(`Routing rule ${index} requires a match object.`);
+    }
+    const levels: Array<LogLevel | string> = [
+      ...(match.level === undefined ? [] : Array.isArray(match.level) ? match.level : [match.level]),
+      ...(match.minLevel === undefined ? [] : [match.minLevel])
+    ];
+    for (const level of levels) {
+      if (!LevelRegistry.resolve(level)) {
+        throw new Error(`Unknown log level in routing rule ${index}: ${JSON.stringify(level)}`);
+      }
+    }
+    if (match.message !== undefined && !(match.message instanceof RegExp)) {
+      throw new Error(`Routing rule ${index} message condition must be a RegExp.`);
+    }
+  }
+}
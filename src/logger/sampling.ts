@@ -0,0 +1,138 @@
+/**
+ * Log sampling
+ * Keeps a configurable fraction of records per level, optionally deciding per request via a context key
+ */
+
+import { LogContext, LogData, SamplingConfig, SamplingRule, SamplingStats } from '../types';
+
+/**
+ * Sampler applied after mode filtering
+ * Each root logger owns one, so sampling counts are kept per logger and shared with its children
+ */
+export class LogSampler {
+  private stats: SamplingStats = { kept: 0, dropped: 0, byLevel: {} };
+
+  /**
+     * Validate a sampling configuration
+     * @param sampling - Sampling rules keyed by level name
+     */
+  static validate(sampling: SamplingConfig): void {
+    for (const [level, rule] of Object.entries(sampling)) {
+      const rate = typeof rule === 'number' ? rule : rule?.rate;
+      if (typeof rate !== 'number' || !(rate >= 0 && rate <= 1)) {
+        throw new Error(`Invalid sampling rate for level "${level}": ${rate}. Rates must be between 0 and 1.`);
+      }
+    }
+  }
+
+  /**
+     * Decide whether a record is kept
+     * With a key, the decision is a hash of the key's value, so every record of e.g. one request is kept or dropped together.
+     * Without a key (or when the key is missing), the decision is random.
+     * @param levelName - Lowercase level name of the record
+     * @param sampling - Sampling rules keyed by level name
+     * @param context - Request context and bindings of the call
+     * @param data - Data passed to the call (used for the key when it isn't in the context)
+     * @returns true if the record should be written
+     */
+  shouldKeep(levelName: string, sampling: SamplingConfig | undefined, context: LogContext | undefined, data: LogData): boolean {
+    const rule = LogSampler.getRule(levelName, sampling);
+    if (!rule) {
+      return true;
+    }
+
+    const keyValue = rule.key !== undefined ? LogSampler.findKeyValue(rule.key, context, data) : undefined;
+    const position = keyValue !== undefined ? LogSampler.hash(String(keyValue)) : Math.random();
+    const keep = position < rule.rate;
+
+    this.count(levelName, keep);
+    return keep;
+  }
+
+  /**
+     * Get counts of kept and sampled-out records
+     * Only levels with a sampling rule are counted
+     * @returns A copy of the sampling statistics
+     */
+  getStats(): SamplingStats {
+    const byLevel: SamplingStats['byLevel'] = {};
+    for (const [level, counts] of Object.entries(this.stats.byLevel)) {
+      byLevel[level] = { ...counts };
+    }
+    return { kept: this.stats.kept, dropped: this.stats.dropped, byLevel };
+  }
+
+  /**
+     * Reset sampling statistics to zero
+     */
+  resetStats(): void {
+    this.stats = { kept: 0, dropped: 0, byLevel: {} };
+  }
+
+  /**
+     * Get the rule for a level, normalizing the number shorthand
+     * @param levelName - Lowercase level name
+     * @param sampling - Sampling rules keyed by level name
+     * @returns The rule, or undefined when the level isn't sampled
+     */
+  private static getRule(levelName: string, sampling: SamplingConfig | undefined): SamplingRule | undefined {
+    if (!sampling || !Object.prototype.hasOwnProperty.call(sampling, levelName)) {
+      return undefined;
+    }
+    const rule = sampling[levelName];
+    if (rule === undefined) {
+      return undefined;
+    }
+    return typeof rule === 'number' ? { rate: rule } : rule;
+  }
+
+  /**
+     * Find the sampling key value in the context, falling back to the call data
+     * @param key - Field name such as 'requestId'
+     * @param context - Request context and bindings of the call
+     * @param data - Data passed to the call
+     * @returns The key's value, or undefined if not present
+     */
+  private static findKeyValue(key: string, context: LogContext | undefined, data: LogData): unknown {
+    if (context && Object.prototype.hasOwnProperty.call(context, key)) {
+      return context[key];
+    }
+    if (data !== null && typeof data === 'object' && Object.prototype.hasOwnProperty.call(data, key)) {
+      return data[key];
+    }
+    return undefined;
+  }
+
+  /**
+     * Map a string to a stable position in [0, 1) using 32-bit FNV-1a
+     * @param value - String to hash
+     * @returns Position in [0, 1)
+     */
+  private static hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) / 0x100000000;
+  }
+
+  /**
+     * Record a sampling decision
+     * @param levelName - Lowercase level name
+     * @param keep - Whether the record was kept
+     */
+  private count(levelName: string, keep: boolean): void {
+    const counts = Object.prototype.hasOwnProperty.call(this.stats.byLevel, levelName)
+      ? this.stats.byLevel[levelName]
+      : (this.stats.byLevel[levelName] = { kept: 0, dropped: 0 });
+
+    if (keep) {
+      counts.kept++;
+      this.stats.kept++;
+    } else {
+      counts.dropped++;
+      this.stats.dropped++;
+    }
+  }
+}
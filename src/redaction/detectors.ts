@@ -0,0 +1,99 @@
+/**
+ * Built-in value detectors
+ * Find secrets and personal data inside strings, whatever field they are logged under
+ */
+
+import { isIPv6 } from 'net';
+import { BuiltInDetector, ValueDetector } from '../types';
+
+/**
+ * Check a card number with the Luhn algorithm
+ * @param match - Card number, possibly with spaces or dashes
+ * @returns true if the number has 13 to 19 digits and a valid check digit
+ */
+function isLuhnValid(match: string): boolean {
+  const digits = match.replace(/[ -]/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check an IBAN with the ISO 13616 mod-97 checksum
+ * @param match - IBAN, possibly grouped with spaces
+ * @returns true if the IBAN has 15 to 34 characters and a valid checksum
+ */
+function isIbanValid(match: string): boolean {
+  const iban = match.replace(/ /g, '');
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    // Letters count as two digits, A = 10 to Z = 35
+    const value = parseInt(char, 36);
+    remainder = (value > 9 ? remainder * 100 + value : remainder * 10 + value) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Check that a phone number candidate has a plausible number of digits
+ * @param match - Phone number candidate
+ * @returns true for 7 to 15 digits (the E.164 maximum)
+ */
+function hasPhoneDigits(match: string): boolean {
+  const digits = match.replace(/\D/g, '').length;
+  return digits >= 7 && digits <= 15;
+}
+
+/**
+ * Built-in detectors that are off unless enabled, because addresses and number formats also appear in ordinary messages
+ */
+export const optInDetectors: readonly BuiltInDetector[] = ['phone', 'ipv6', 'ipv4'];
+
+/**
+ * Built-in detectors, applied in this order
+ * Secrets with distinctive prefixes come first so later, looser patterns don't split them
+ */
+export const builtInDetectors: Readonly<Record<BuiltInDetector, ValueDetector>> = {
+  // PEM private keys, including a key cut off before its END line
+  privateKey: { pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g, includes: 'PRIVATE KEY-----' },
+  // JSON Web Tokens: base64url header and payload, both starting with '{"'
+  jwt: { pattern: /(?<![A-Za-z0-9_-])eyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, includes: 'eyJ' },
+  // The credential after 'Bearer', keeping the scheme readable
+  bearerToken: { pattern: /(?<=\bBearer\s{1,16})[A-Za-z0-9\-._~+/]+=*/gi },
+  // AWS access key IDs
+  awsKey: { pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16}\b/g },
+  // Google Cloud API keys
+  gcpKey: { pattern: /\bAIza[A-Za-z0-9_-]{35}(?![A-Za-z0-9_-])/g },
+  // GitHub personal access, OAuth, app and refresh tokens
+  githubToken: { pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  // Stripe secret and restricted keys, and webhook signing secrets
+  stripeKey: { pattern: /\b(?:(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{10,247}|whsec_[A-Za-z0-9]{24,})\b/g },
+  // Matches start only where a run of local-part characters starts, so long texts are scanned once
+  email: { pattern: /(?<![A-Za-z0-9._%+-])[A-Za-z0-9._%+-]{1,64}@[A-Za-z0-9-]{1,63}(?:\.[A-Za-z0-9-]{1,63}){0,8}\.[A-Za-z]{2,63}\b/g, includes: '@' },
+  iban: { pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g, validate: isIbanValid },
+  creditCard: { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: isLuhnValid },
+  // International numbers starting with '+', and formatted national numbers such as (555) 123-4567 or 555-123-4567
+  phone: {
+    pattern: /(?<![\w+])\+\d{1,3}(?:[ .-]?\(\d{1,4}\))?(?:[ .-]?\d{1,4}){2,5}\b|(?<!\w)\(\d{3}\) ?\d{3}[ .-]\d{4}\b|\b\d{3}[.-]\d{3}[.-]\d{4}\b/g,
+    validate: hasPhoneDigits
+  },
+  // Candidates are confirmed by the platform's IPv6 parser, so times like 12:30:45 are kept
+  ipv6: { pattern: /(?<![\w:.])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:.])/g, validate: match => /[0-9A-Fa-f]/.test(match) && isIPv6(match) },
+  ipv4: { pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b/g }
+};
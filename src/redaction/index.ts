@@ -5,4 +5,5 @@
 
 export { DataRedactor } from './redactor';
 export { defaultRedactionConfig, RedactionController } from './config';
-export type { RedactionConfig } from '../types';
+export { builtInDetectors, optInDetectors } from './detectors';
+export type { RedactionConfig, ValueDetector, BuiltInDetector } from '../types';
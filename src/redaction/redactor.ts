@@ -3,49 +3,143 @@
  * Handles automatic detection and redaction of sensitive information in log data
  */
 
-import { RedactionConfig, LogData } from '../types';
+import { RedactionConfig, LogData, IDataRedactor, ValueDetector, BuiltInDetector } from '../types';
 import { defaultRedactionConfig, RedactionController } from './config';
+import { builtInDetectors, optInDetectors } from './detectors';
+import { SafeSerializer } from '../serialization';
 
 /**
  * DataRedactor class - Core redaction logic for processing log data
  * Automatically detects and redacts sensitive information while preserving structure
+ *
+ * Each instance owns its own configuration so independent loggers don't share redaction rules.
+ * The static methods operate on a shared instance used by the default LogEngine export.
  */
-export class DataRedactor {
-  private static config: RedactionConfig = {
-    ...defaultRedactionConfig,
-    ...RedactionController.getEnvironmentConfig()
-  };
+export class DataRedactor implements IDataRedactor {
+  /** Shared instance backing the static API and the default LogEngine */
+  static readonly shared: DataRedactor = new DataRedactor();
+
+  private config: RedactionConfig;
+  // Detectors resolved from config.detectors, rebuilt when the configuration changes
+  private detectors: ValueDetector[];
 
   // Maximum recursion depth to prevent stack overflow attacks
   private static readonly MAX_RECURSION_DEPTH = 100;
   // Slightly lower limit for redactObject to ensure it can be reached
   private static readonly MAX_REDACT_OBJECT_DEPTH = 99;
 
+  /**
+     * Create a redactor with its own configuration
+     * @param config - Optional overrides applied on top of defaults and environment settings
+     */
+  constructor(config: Partial<RedactionConfig> = {}) {
+    this.config = {
+      ...defaultRedactionConfig,
+      ...RedactionController.getEnvironmentConfig(),
+      ...config
+    };
+    this.detectors = DataRedactor.resolveDetectors(this.config.detectors);
+  }
+
+  /**
+     * Update the shared redaction configuration
+     * @param newConfig - Partial configuration to merge with current settings
+     */
+  static updateConfig(newConfig: Partial<RedactionConfig>): void {
+    DataRedactor.shared.updateConfig(newConfig);
+  }
+
+  /**
+     * Get the shared redaction configuration
+     * @returns Deep copy of the shared redaction configuration
+     */
+  static getConfig(): RedactionConfig {
+    return DataRedactor.shared.getConfig();
+  }
+
+  /**
+     * Refresh the shared configuration from environment variables
+     */
+  static refreshConfig(): void {
+    DataRedactor.shared.refreshConfig();
+  }
+
+  /**
+     * Add custom regex patterns to the shared configuration
+     * @param patterns - Array of regex patterns to add
+     */
+  static addCustomPatterns(patterns: RegExp[]): void {
+    DataRedactor.shared.addCustomPatterns(patterns);
+  }
+
+  /**
+     * Clear all custom regex patterns from the shared configuration
+     */
+  static clearCustomPatterns(): void {
+    DataRedactor.shared.clearCustomPatterns();
+  }
+
+  /**
+     * Add sensitive field names to the shared configuration
+     * @param fields - Array of field names to add
+     */
+  static addSensitiveFields(fields: string[]): void {
+    DataRedactor.shared.addSensitiveFields(fields);
+  }
+
+  /**
+     * Test if a field name would be redacted with the shared configuration
+     * @param fieldName - Field name to test
+     * @returns true if field would be redacted, false otherwise
+     */
+  static testFieldRedaction(fieldName: string): boolean {
+    return DataRedactor.shared.testFieldRedaction(fieldName);
+  }
+
+  /**
+     * Redact data using the shared configuration
+     * @param data - Data to be processed for redaction
+     * @returns Redacted version of the data
+     */
+  static redactData(data: LogData): LogData {
+    return DataRedactor.shared.redactData(data);
+  }
+
+  /**
+     * Redact the values detectors find in a string using the shared configuration
+     * @param text - Text to scan
+     * @returns Text with matched spans replaced
+     */
+  static redactText(text: string): string {
+    return DataRedactor.shared.redactText(text);
+  }
+
   /**
      * Update the redaction configuration with new settings
      * Merges provided config with existing settings and reloads environment variables
      * @param newConfig - Partial configuration to merge with current settings
      */
-  static updateConfig(newConfig: Partial<RedactionConfig>): void {
+  updateConfig(newConfig: Partial<RedactionConfig>): void {
     // Reload environment configuration to pick up any changes
     const envConfig = RedactionController.getEnvironmentConfig();
-    DataRedactor.config = {
+    this.setConfig({
       ...defaultRedactionConfig,
       ...envConfig,
       ...newConfig
-    };
+    });
   }
 
   /**
      * Get the current redaction configuration
      * @returns Deep copy of current redaction configuration
      */
-  static getConfig(): RedactionConfig {
+  getConfig(): RedactionConfig {
     return {
-      ...DataRedactor.config,
-      sensitiveFields: [...DataRedactor.config.sensitiveFields],
-      contentFields: [...DataRedactor.config.contentFields],
-      customPatterns: DataRedactor.config.customPatterns ? [...DataRedactor.config.customPatterns] : undefined
+      ...this.config,
+      sensitiveFields: [...this.config.sensitiveFields],
+      contentFields: [...this.config.contentFields],
+      customPatterns: this.config.customPatterns ? [...this.config.customPatterns] : undefined,
+      detectors: this.config.detectors ? { ...this.config.detectors } : this.config.detectors
     };
   }
 
@@ -53,22 +147,22 @@ export class DataRedactor {
      * Refresh configuration from environment variables
      * Useful for picking up runtime environment changes
      */
-  static refreshConfig(): void {
+  refreshConfig(): void {
     const envConfig = RedactionController.getEnvironmentConfig();
-    DataRedactor.config = {
+    this.setConfig({
       ...defaultRedactionConfig,
       ...envConfig
-    };
+    });
   }
 
   /**
      * Add custom regex patterns for advanced field detection
      * @param patterns - Array of regex patterns to add
      */
-  static addCustomPatterns(patterns: RegExp[]): void {
-    const currentPatterns = DataRedactor.config.customPatterns || [];
-    DataRedactor.config = {
-      ...DataRedactor.config,
+  addCustomPatterns(patterns: RegExp[]): void {
+    const currentPatterns = this.config.customPatterns || [];
+    this.config = {
+      ...this.config,
       customPatterns: [...currentPatterns, ...patterns]
     };
   }
@@ -76,9 +170,9 @@ export class DataRedactor {
   /**
      * Clear all custom regex patterns
      */
-  static clearCustomPatterns(): void {
-    DataRedactor.config = {
-      ...DataRedactor.config,
+  clearCustomPatterns(): void {
+    this.config = {
+      ...this.config,
       customPatterns: []
     };
   }
@@ -87,10 +181,10 @@ export class DataRedactor {
      * Add custom sensitive field names to the existing list
      * @param fields - Array of field names to add
      */
-  static addSensitiveFields(fields: string[]): void {
-    DataRedactor.config = {
-      ...DataRedactor.config,
-      sensitiveFields: [...DataRedactor.config.sensitiveFields, ...fields]
+  addSensitiveFields(fields: string[]): void {
+    this.config = {
+      ...this.config,
+      sensitiveFields: [...this.config.sensitiveFields, ...fields]
     };
   }
 
@@ -99,9 +193,9 @@ export class DataRedactor {
      * @param fieldName - Field name to test
      * @returns true if field would be redacted, false otherwise
      */
-  static testFieldRedaction(fieldName: string): boolean {
+  testFieldRedaction(fieldName: string): boolean {
     const testObj = { [fieldName]: 'test-value' };
-    const result = DataRedactor.redactData(testObj);    // Use safe property access to prevent object injection
+    const result = this.redactData(testObj);    // Use safe property access to prevent object injection
     if (Object.prototype.hasOwnProperty.call(result, fieldName)) {
       // Safe access to avoid object injection
       const value = result[fieldName as keyof typeof result];
@@ -110,19 +204,40 @@ export class DataRedactor {
     return false;
   }
 
+  /**
+     * Replace the sensitive values detectors find in a string
+     * Only the matched spans are replaced, so the rest of the text stays readable
+     * @param text - Text to scan
+     * @returns Text with matched spans replaced
+     */
+  redactText(text: string): string {
+    if (!this.config.enabled) {
+      return text;
+    }
+    let result = text;
+    for (const detector of this.detectors) {
+      if (detector.includes !== undefined && !result.includes(detector.includes)) {
+        continue;
+      }
+      const replacement = detector.replacement ?? this.config.redactionText;
+      result = result.replace(detector.pattern, match => !detector.validate || detector.validate(match) ? replacement : match);
+    }
+    return result;
+  }
+
   /**
      * Main entry point for data redaction
      * Processes any type of data and returns a redacted version
      * @param data - Data to be processed for redaction
      * @returns Redacted version of the data
      */
-  static redactData(data: LogData): LogData {
+  redactData(data: LogData): LogData {
     // Skip processing if redaction is disabled or data is null/undefined
-    if (!DataRedactor.config.enabled || data === null || data === undefined) {
+    if (!this.config.enabled || data === null || data === undefined) {
       return data;
     }
 
-    return DataRedactor.processValue(data, new WeakSet(), 0);
+    return this.processValue(data, new WeakSet(), 0);
   }
 
   /**
@@ -134,7 +249,7 @@ export class DataRedactor {
      * @param depth - Current recursion depth (prevents stack overflow)
      * @returns Processed value with redaction applied
      */
-  private static processValue(value: LogData, visited: WeakSet<object> = new WeakSet(), depth: number = 0): LogData {
+  private processValue(value: LogData, visited: WeakSet<object> = new WeakSet(), depth: number = 0): LogData {
     // Check recursion depth limit to prevent stack overflow
     if (depth >= DataRedactor.MAX_RECURSION_DEPTH) {
       return '[Max Depth Exceeded]';
@@ -153,11 +268,22 @@ export class DataRedactor {
       }
       visited.add(value);
 
-      const result = value.map(item => DataRedactor.processValue(item, visited, depth + 1));
+      const result = value.map(item => this.processValue(item, visited, depth + 1));
       // Keep value in visited set to detect circular references across branches
       return result;
     }
 
+    // Registered types, URLs, boxed primitives and objects with toJSON are redacted in their serialized form
+    const simplified = SafeSerializer.simplify(value);
+    if (simplified !== value) {
+      return this.processValue(simplified, visited, depth + 1);
+    }
+
+    // Dates, regular expressions and binary data hold no fields to redact - keep them for the formatters
+    if (value instanceof Date || value instanceof RegExp || ArrayBuffer.isView(value)) {
+      return value;
+    }
+
     // Handle objects - process each property
     if (typeof value === 'object') {
       // Check for circular reference
@@ -166,13 +292,23 @@ export class DataRedactor {
       }
       visited.add(value);
 
-      const result = DataRedactor.redactObject(value, visited, depth + 1);
+      // Maps and Sets are rebuilt so their entries can be shown; Map keys are checked like field names
+      if (value instanceof Map) {
+        const entries = Array.from(value as Map<unknown, LogData>, ([key, item]): [unknown, LogData] =>
+          [key, typeof key === 'string' && this.isSensitiveField(key) ? this.config.redactionText : this.processValue(item, visited, depth + 1)]);
+        return new Map(entries) as unknown as LogData;
+      }
+      if (value instanceof Set) {
+        return new Set(Array.from(value as Set<LogData>, item => this.processValue(item, visited, depth + 1))) as unknown as LogData;
+      }
+
+      const result = this.redactObject(value, visited, depth + 1);
       // Keep value in visited set to detect circular references across branches
       return result;
     }
 
-    // Handle primitives (string, number, boolean) - return as-is
-    return value;
+    // Strings are scanned for sensitive values; other primitives (number, boolean) are returned as-is
+    return typeof value === 'string' ? this.redactText(value) : value;
   }
 
   /**
@@ -183,24 +319,30 @@ export class DataRedactor {
      * @param depth - Current recursion depth (prevents stack overflow)
      * @returns Object with sensitive fields redacted
      */
-  private static redactObject(obj: Record<string, LogData>, visited: WeakSet<object> = new WeakSet(), depth: number = 0): Record<string, LogData> {
+  private redactObject(obj: Record<string, LogData>, visited: WeakSet<object> = new WeakSet(), depth: number = 0): Record<string, LogData> {
     // Check recursion depth limit to prevent stack overflow
     if (depth >= DataRedactor.MAX_REDACT_OBJECT_DEPTH) {
       return { '[Max Depth Exceeded]': '[Max Depth Exceeded]' };
     }
 
-    const redacted: Record<string, LogData> = {};
+    // Class instances keep their prototype so pretty data can show the class name
+    const prototype = Object.getPrototypeOf(obj);
+    const redacted: Record<string, LogData> = prototype === Object.prototype ? {} : Object.create(prototype);
 
-    for (const [key, value] of Object.entries(obj)) {
+    // Getters that throw are replaced with a marker instead of failing the log call
+    for (const [key, value] of SafeSerializer.entries(obj) as Array<[string, LogData]>) {
       // Check if this field should be completely redacted
-      if (DataRedactor.isSensitiveField(key)) {
-        Object.defineProperty(redacted, key, { value: DataRedactor.config.redactionText, enumerable: true, writable: true, configurable: true });
-      } else if (DataRedactor.isContentField(key) && typeof value === 'string') {
-        // Check if this field should be truncated (for large content)
-        Object.defineProperty(redacted, key, { value: DataRedactor.truncateContent(value), enumerable: true, writable: true, configurable: true });
-      } else if (DataRedactor.config.deepRedaction && (typeof value === 'object' && value !== null)) {
+      if (this.isSensitiveField(key)) {
+        Object.defineProperty(redacted, key, { value: this.config.redactionText, enumerable: true, writable: true, configurable: true });
+      } else if (this.isContentField(key) && typeof value === 'string') {
+        // Check if this field should be truncated (for large content); values are redacted first so no partial match is left at the cut
+        Object.defineProperty(redacted, key, { value: this.truncateContent(this.redactText(value)), enumerable: true, writable: true, configurable: true });
+      } else if (this.config.deepRedaction && (typeof value === 'object' && value !== null)) {
         // Recursively process nested objects/arrays if deep redaction is enabled
-        Object.defineProperty(redacted, key, { value: DataRedactor.processValue(value, visited, depth + 1), enumerable: true, writable: true, configurable: true });
+        Object.defineProperty(redacted, key, { value: this.processValue(value, visited, depth + 1), enumerable: true, writable: true, configurable: true });
+      } else if (typeof value === 'string') {
+        // Replace sensitive values inside the string
+        Object.defineProperty(redacted, key, { value: this.redactText(value), enumerable: true, writable: true, configurable: true });
       } else {
         // Keep the value unchanged
         Object.defineProperty(redacted, key, { value: value, enumerable: true, writable: true, configurable: true });
@@ -210,6 +352,60 @@ export class DataRedactor {
     return redacted;
   }
 
+  /**
+     * Replace the configuration and resolve its detectors
+     * @param config - Complete redaction configuration
+     */
+  private setConfig(config: RedactionConfig): void {
+    this.detectors = DataRedactor.resolveDetectors(config.detectors);
+    this.config = config;
+  }
+
+  /**
+     * Get the detectors to run from the detectors option
+     * Built-in detectors run in their fixed order, followed by custom ones in the order given;
+     * the opt-in detectors only run when set to true
+     * @param detectors - Toggles, replacements and custom detectors by name; false turns detection off
+     * @returns Detectors with global patterns
+     */
+  private static resolveDetectors(detectors: RedactionConfig['detectors']): ValueDetector[] {
+    if (detectors === false) {
+      return [];
+    }
+    if (detectors !== undefined && (detectors === null || typeof detectors !== 'object')) {
+      throw new Error('Redaction detectors must be false or an object of detector names.');
+    }
+
+    const settings = detectors ?? {};
+    const names = [...Object.keys(builtInDetectors), ...Object.keys(settings).filter(name => !Object.prototype.hasOwnProperty.call(builtInDetectors, name))];
+    const resolved: ValueDetector[] = [];
+    for (const name of names) {
+      const setting = Object.prototype.hasOwnProperty.call(settings, name) ? settings[name] : !optInDetectors.includes(name as BuiltInDetector);
+      if (setting === false) {
+        continue;
+      }
+      if (setting === true) {
+        if (!Object.prototype.hasOwnProperty.call(builtInDetectors, name)) {
+          throw new Error(`Unknown value detector: "${name}". Pass a detector with a pattern to add a custom one.`);
+        }
+        resolved.push(builtInDetectors[name as keyof typeof builtInDetectors]);
+        continue;
+      }
+      if (setting === null || typeof setting !== 'object' || !(setting.pattern instanceof RegExp)) {
+        throw new Error(`Value detector "${name}" must be true, false or an object with a RegExp pattern.`);
+      }
+      if (setting.validate !== undefined && typeof setting.validate !== 'function') {
+        throw new Error(`Value detector "${name}" validate must be a function.`);
+      }
+      if (setting.includes !== undefined && typeof setting.includes !== 'string') {
+        throw new Error(`Value detector "${name}" includes must be a string.`);
+      }
+      const pattern = setting.pattern.global ? setting.pattern : new RegExp(setting.pattern.source, `${setting.pattern.flags}g`);
+      resolved.push({ ...setting, pattern });
+    }
+    return resolved;
+  }
+
   /**
      * Check if a field name indicates sensitive information
      * Uses case-insensitive matching with exact and partial matches
@@ -217,19 +413,19 @@ export class DataRedactor {
      * @param fieldName - Field name to check
      * @returns true if field should be redacted, false otherwise
      */
-  private static isSensitiveField(fieldName: string): boolean {
+  private isSensitiveField(fieldName: string): boolean {
     const lowerField = fieldName.toLowerCase();
 
     // Check custom regex patterns first (highest priority)
-    if (DataRedactor.config.customPatterns && DataRedactor.config.customPatterns.length > 0) {
-      for (const pattern of DataRedactor.config.customPatterns) {
+    if (this.config.customPatterns && this.config.customPatterns.length > 0) {
+      for (const pattern of this.config.customPatterns) {
         if (pattern.test(fieldName)) {
           return true;
         }
       }
     }
 
-    return DataRedactor.config.sensitiveFields.some(sensitive => {
+    return this.config.sensitiveFields.some(sensitive => {
       const lowerSensitive = sensitive.toLowerCase();
 
       // Exact match (highest confidence)
@@ -271,9 +467,9 @@ export class DataRedactor {
      * @param fieldName - Field name to check
      * @returns true if field is a content field, false otherwise
      */
-  private static isContentField(fieldName: string): boolean {
+  private isContentField(fieldName: string): boolean {
     const lowerField = fieldName.toLowerCase();
-    return DataRedactor.config.contentFields.some(content => content.toLowerCase() === lowerField);
+    return this.config.contentFields.some(content => content.toLowerCase() === lowerField);
   }
 
   /**
@@ -282,10 +478,10 @@ export class DataRedactor {
      * @param content - Content string to potentially truncate
      * @returns Original content or truncated version with indicator
      */
-  private static truncateContent(content: string): string {
-    if (content.length <= DataRedactor.config.maxContentLength) {
+  private truncateContent(content: string): string {
+    if (content.length <= this.config.maxContentLength) {
       return content;
     }
-    return content.substring(0, DataRedactor.config.maxContentLength) + DataRedactor.config.truncationText;
+    return content.substring(0, this.config.maxContentLength) + this.config.truncationText;
   }
 }
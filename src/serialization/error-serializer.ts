@@ -0,0 +1,153 @@
+/**
+ * Error serialization
+ * Converts Error instances into plain objects so they survive JSON output and redaction
+ */
+
+import { LogData, SerializedError } from '../types';
+import { SafeSerializer } from './safe-serializer';
+
+/**
+ * Serializer for Error instances found in log data
+ * Keeps name, message, stack, cause chains, AggregateError.errors and enumerable custom fields
+ */
+export class ErrorSerializer {
+  private static readonly MAX_DEPTH = 10;
+  private static readonly STANDARD_FIELDS = ['name', 'message', 'stack', 'cause', 'errors'];
+
+  /**
+     * Serialize a single error
+     * @param error - Error to serialize
+     * @returns Plain object with the error's fields
+     */
+  static serialize(error: Error): SerializedError {
+    return ErrorSerializer.serializeError(error, new WeakSet(), 0);
+  }
+
+  /**
+     * Replace every Error in a data value with its serialized form
+     * Objects and arrays without errors are returned unchanged; only the path to an error is copied
+     * @param data - Data passed to a log call
+     * @returns Data with errors serialized
+     */
+  static serializeErrors(data: LogData): LogData {
+    return ErrorSerializer.serializeValue(data, new WeakSet(), 0);
+  }
+
+  /**
+     * Serialize errors within any value
+     * @param value - Value to process
+     * @param visited - Objects on the current path (prevents circular references)
+     * @param depth - Current nesting depth
+     * @returns The value with errors serialized
+     */
+  private static serializeValue(value: LogData, visited: WeakSet<object>, depth: number): LogData {
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (visited.has(value)) {
+      // Other circular structures are left to the redactor and formatters, which already handle them
+      return value instanceof Error ? '[Circular]' : value;
+    }
+    if (depth >= ErrorSerializer.MAX_DEPTH) {
+      return value instanceof Error ? '[Max Depth Exceeded]' : value;
+    }
+
+    if (value instanceof Error) {
+      return ErrorSerializer.serializeError(value, visited, depth);
+    }
+
+    if (Array.isArray(value)) {
+      visited.add(value);
+      const result = value.map(item => ErrorSerializer.serializeValue(item, visited, depth + 1));
+      visited.delete(value);
+      return result.some((item, index) => item !== value[index]) ? result : value;
+    }
+
+    if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) {
+      // Class instances (Dates, Maps, Buffers...) are left to the output's own serialization
+      return value;
+    }
+
+    visited.add(value);
+    let entries: Array<[string, LogData]>;
+    let changed = false;
+    try {
+      entries = Object.entries(value);
+    } catch {
+      // A getter threw: the copy gets a marker in its place, so the object is never read again
+      entries = SafeSerializer.entries(value) as Array<[string, LogData]>;
+      changed = true;
+    }
+    const serializedEntries = entries.map(([key, item]): [string, LogData] => {
+      const serialized = ErrorSerializer.serializeValue(item, visited, depth + 1);
+      changed = changed || serialized !== item;
+      return [key, serialized];
+    });
+    visited.delete(value);
+    if (!changed) {
+      return value;
+    }
+    const copy: Record<string, LogData> = {};
+    for (const [key, item] of serializedEntries) {
+      Object.defineProperty(copy, key, { value: item, enumerable: true, writable: true, configurable: true });
+    }
+    return copy;
+  }
+
+  /**
+     * Serialize an error, following its cause chain and aggregated errors
+     * @param error - Error to serialize
+     * @param visited - Objects on the current path (prevents circular causes)
+     * @param depth - Current nesting depth
+     * @returns Plain object with the error's fields
+     */
+  private static serializeError(error: Error, visited: WeakSet<object>, depth: number): SerializedError {
+    visited.add(error);
+
+    const serialized: SerializedError = {
+      name: ErrorSerializer.getName(error),
+      message: String(error.message)
+    };
+
+    if (typeof error.stack === 'string') {
+      serialized.stack = error.stack;
+    }
+
+    const { cause, errors } = error as Error & { cause?: unknown; errors?: unknown };
+    if (cause !== undefined) {
+      serialized.cause = ErrorSerializer.serializeValue(cause, visited, depth + 1);
+    }
+    if (Array.isArray(errors)) {
+      serialized.errors = errors.map(item => ErrorSerializer.serializeValue(item, visited, depth + 1));
+    }
+
+    // Custom fields such as code or statusCode
+    for (const [key, value] of SafeSerializer.entries(error) as Array<[string, LogData]>) {
+      if (!ErrorSerializer.STANDARD_FIELDS.includes(key)) {
+        Object.defineProperty(serialized, key, {
+          value: ErrorSerializer.serializeValue(value, visited, depth + 1),
+          enumerable: true,
+          writable: true,
+          configurable: true
+        });
+      }
+    }
+
+    visited.delete(error);
+    return serialized;
+  }
+
+  /**
+     * Get the display name of an error
+     * Falls back to the constructor name when name wasn't set by a subclass
+     * @param error - Error instance
+     * @returns Name such as 'TypeError' or 'ValidationError'
+     */
+  private static getName(error: Error): string {
+    const constructorName = error.constructor?.name;
+    if (error.name === 'Error' && constructorName && constructorName !== 'Error') {
+      return constructorName;
+    }
+    return String(error.name);
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Serialization module exports
+ * Provides conversion of values such as Error instances, Maps and BigInts into loggable plain objects
+ */
+
+export { ErrorSerializer } from './error-serializer';
+export { SafeSerializer } from './safe-serializer';
+export type { SerializedError, ValueSerializer } from '../types';
@@ -0,0 +1,284 @@
+/**
+ * Safe value serialization
+ * Converts any value into JSON-safe data without throwing, for the formatters, the redactor and the file and HTTP outputs
+ */
+
+import { LogData, ValueSerializer } from '../types';
+import { ErrorSerializer } from './error-serializer';
+
+/**
+ * Class whose instances a registered serializer handles
+ */
+type SerializableClass<T> = abstract new (...args: never[]) => T;
+
+/**
+ * Serializer that never throws
+ * Handles BigInt, symbols, functions, Dates, RegExps, Maps, Sets, typed arrays, Buffers, URLs, boxed primitives,
+ * Errors, toJSON methods, getters that throw and circular references; user serializers take precedence by constructor
+ */
+export class SafeSerializer {
+  private static readonly MAX_DEPTH = 100;
+  private static readonly serializers = new Map<SerializableClass<unknown>, ValueSerializer>();
+
+  /**
+     * Register a serializer for the instances of a class and its subclasses
+     * The serializer of the closest class in the prototype chain is used, before the built-in conversions
+     * @param type - Class whose instances the serializer handles
+     * @param serializer - Function returning a JSON-safe value for an instance
+     */
+  static register<T>(type: SerializableClass<T>, serializer: ValueSerializer<T>): void {
+    if (typeof type !== 'function') {
+      throw new Error('Serializer type must be a class or constructor function.');
+    }
+    if (typeof serializer !== 'function') {
+      throw new Error(`Serializer for ${type.name || 'anonymous class'} must be a function.`);
+    }
+    // Only instances of the type are passed to the serializer
+    SafeSerializer.serializers.set(type, serializer as ValueSerializer);
+  }
+
+  /**
+     * Remove the serializer registered for a class
+     * @param type - Class passed to register()
+     * @returns true if a serializer was removed
+     */
+  static unregister(type: SerializableClass<unknown>): boolean {
+    return SafeSerializer.serializers.delete(type);
+  }
+
+  /**
+     * Remove all registered serializers
+     */
+  static clear(): void {
+    SafeSerializer.serializers.clear();
+  }
+
+  /**
+     * Convert a value into data JSON.stringify can write as-is
+     * @param value - Any value
+     * @returns JSON-safe value (undefined stays undefined)
+     */
+  static toJSONValue(value: unknown): LogData {
+    return SafeSerializer.convert(value, new WeakSet(), 0);
+  }
+
+  /**
+     * Serialize a value to JSON text without throwing
+     * @param value - Any value
+     * @param space - Indentation passed to JSON.stringify
+     * @returns JSON text; 'undefined' values produce an empty string
+     */
+  static stringify(value: unknown, space?: number | string): string {
+    try {
+      return JSON.stringify(SafeSerializer.convert(value, new WeakSet(), 0), null, space) ?? '';
+    } catch {
+      // Only reachable through exotic objects such as revoked proxies
+      return '"[Unserializable]"';
+    }
+  }
+
+  /**
+     * Convert a value that can't be walked as plain data
+     * Registered types, Errors, URLs, boxed primitives and objects with toJSON are converted;
+     * other values, including Dates, Maps, Sets and Buffers, are returned unchanged for the formatters to show
+     * @param value - Any value
+     * @returns The converted value, or the value itself
+     */
+  static simplify(value: unknown): unknown {
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    const serializer = SafeSerializer.findSerializer(value);
+    if (serializer) {
+      return SafeSerializer.call(serializer, value);
+    }
+    if (value instanceof Date || value instanceof RegExp || value instanceof Map || value instanceof Set || ArrayBuffer.isView(value)) {
+      return value;
+    }
+    if (value instanceof Error) {
+      return ErrorSerializer.serialize(value);
+    }
+    const primitive = SafeSerializer.unbox(value);
+    if (primitive !== value) {
+      return primitive;
+    }
+    const toJSON = (value as { toJSON?: unknown }).toJSON;
+    return typeof toJSON === 'function' ? SafeSerializer.call(() => toJSON.call(value), value) : value;
+  }
+
+  /**
+     * Read the own enumerable properties of an object, replacing getters that throw with a marker
+     * @param object - Object to read
+     * @returns Key and value pairs
+     */
+  static entries(object: object): Array<[string, unknown]> {
+    let keys: string[];
+    try {
+      keys = Object.keys(object);
+    } catch {
+      return [];
+    }
+    return keys.map(key => {
+      try {
+        return [key, (object as Record<string, unknown>)[key]];
+      } catch (error) {
+        return [key, `[Getter threw: ${error instanceof Error ? error.message : String(error)}]`];
+      }
+    });
+  }
+
+  /**
+     * Convert a value at a nesting depth
+     * @param value - The value
+     * @param visited - Objects on the current path (prevents circular references)
+     * @param depth - Current nesting depth
+     * @returns JSON-safe value
+     */
+  private static convert(value: unknown, visited: WeakSet<object>, depth: number): LogData {
+    switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'undefined':
+      return value;
+    case 'bigint': return value.toString();
+    case 'symbol': return value.toString();
+    case 'function': return `[Function: ${value.name || '(anonymous)'}]`;
+    }
+    if (value === null) {
+      return null;
+    }
+
+    const object = value as object;
+    if (visited.has(object)) {
+      return '[Circular]';
+    }
+    if (depth >= SafeSerializer.MAX_DEPTH) {
+      return '[Max Depth Exceeded]';
+    }
+
+    visited.add(object);
+    try {
+      return SafeSerializer.convertObject(object, visited, depth);
+    } finally {
+      visited.delete(object);
+    }
+  }
+
+  /**
+     * Convert an object by type
+     * @param object - The object
+     * @param visited - Objects on the current path
+     * @param depth - Current nesting depth
+     * @returns JSON-safe value
+     */
+  private static convertObject(object: object, visited: WeakSet<object>, depth: number): LogData {
+    const child = (item: unknown): LogData => SafeSerializer.convert(item, visited, depth + 1);
+
+    const serializer = SafeSerializer.findSerializer(object);
+    if (serializer) {
+      return child(SafeSerializer.call(serializer, object));
+    }
+    if (object instanceof Date) {
+      return isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString();
+    }
+    if (object instanceof RegExp) {
+      return String(object);
+    }
+    if (Array.isArray(object)) {
+      return object.map(item => {
+        const converted = child(item);
+        return converted === undefined ? null : converted;
+      });
+    }
+    if (object instanceof Map) {
+      const result: Record<string, LogData> = {};
+      for (const [key, item] of object) {
+        const name = typeof key === 'string' ? key : SafeSerializer.stringify(key);
+        Object.defineProperty(result, name, { value: child(item), enumerable: true, writable: true, configurable: true });
+      }
+      return result;
+    }
+    if (object instanceof Set) {
+      return Array.from(object, child);
+    }
+    if (typeof Buffer !== 'undefined' && Buffer.isBuffer(object)) {
+      return { type: 'Buffer', base64: object.toString('base64') };
+    }
+    if (ArrayBuffer.isView(object)) {
+      return object instanceof DataView
+        ? { type: 'DataView', byteLength: object.byteLength }
+        : Array.from(object as unknown as ArrayLike<number | bigint>, child);
+    }
+    if (object instanceof ArrayBuffer) {
+      return { type: 'ArrayBuffer', byteLength: object.byteLength };
+    }
+
+    // Errors, boxed primitives and toJSON methods (URLs among them)
+    const simplified = SafeSerializer.simplify(object);
+    if (simplified !== object) {
+      return child(simplified);
+    }
+
+    const result: Record<string, LogData> = {};
+    for (const [key, item] of SafeSerializer.entries(object)) {
+      const converted = child(item);
+      if (converted !== undefined) {
+        Object.defineProperty(result, key, { value: converted, enumerable: true, writable: true, configurable: true });
+      }
+    }
+    return result;
+  }
+
+  /**
+     * Find the registered serializer of the closest class in a value's prototype chain
+     * @param value - Object to look up
+     * @returns The serializer, or undefined when none is registered
+     */
+  private static findSerializer(value: object): ValueSerializer | undefined {
+    if (SafeSerializer.serializers.size === 0) {
+      return undefined;
+    }
+    for (let prototype = Object.getPrototypeOf(value); prototype !== null; prototype = Object.getPrototypeOf(prototype)) {
+      const serializer = SafeSerializer.serializers.get(prototype.constructor);
+      if (serializer) {
+        return serializer;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+     * Get the primitive inside a boxed Number, String, Boolean, BigInt or Symbol
+     * @param value - Object to unbox
+     * @returns The primitive, or the object itself when it isn't boxed
+     */
+  private static unbox(value: object): unknown {
+    const boxes = [Number, String, Boolean, BigInt, Symbol];
+    for (const box of boxes) {
+      if (value instanceof box) {
+        try {
+          return (box.prototype.valueOf as () => unknown).call(value);
+        } catch {
+          // An object that inherits from the prototype without being a boxed primitive
+          return value;
+        }
+      }
+    }
+    return value;
+  }
+
+  /**
+     * Run a serializer, turning exceptions into a marker
+     * @param serializer - Serializer or toJSON call
+     * @param value - Value passed to the serializer
+     * @returns The serializer's result
+     */
+  private static call(serializer: ValueSerializer, value: unknown): unknown {
+    try {
+      return serializer(value);
+    } catch (error) {
+      return `[Serializer threw: ${error instanceof Error ? error.message : String(error)}]`;
+    }
+  }
+}
@@ -10,6 +10,12 @@
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type LogData = any;
 
+/**
+ * Log message, either a string or a function returning one
+ * Functions are only called when the level is enabled, so expensive messages cost nothing when filtered out
+ */
+export type LogMessage = string | (() => string);
+
 /**
  * Options for individual log method calls
  * Allows per-call customization of log behavior
@@ -24,6 +30,18 @@ export interface LogCallOptions {
      * @example { emoji: '' }   // Suppress emoji for this call
      */
     emoji?: string;
+    /**
+     * Optional identifier of the component that produced this record
+     * Passed through to LogRecord.source for record-based handlers
+     * @example { source: 'payments/webhook' }
+     */
+    source?: string;
+    /**
+     * Set to false to write the message and data of this call without escaping newlines, control characters and ANSI codes
+     * Use only for trusted content, such as output you colored yourself
+     * @example { sanitize: false }
+     */
+    sanitize?: boolean;
 }
 
 /**
@@ -62,6 +80,60 @@ export enum LogMode {
     OFF = 5
 }
 
+/**
+ * Console method used to print a level's formatted line
+ */
+export type ConsoleMethod = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+/**
+ * Definition of a custom log level registered with LogEngine.registerLevel()
+ * Severity is compared with the mode threshold: DEBUG=0, INFO=1, WARN=2, ERROR=3
+ * @example { name: 'trace', severity: -1, color: 'gray', emoji: '🔬' }
+ * @example { name: 'fatal', severity: 4, color: 'red', emoji: '💀', consoleMethod: 'error' }
+ */
+export interface LevelDefinition<N extends string = string> {
+    /** Lowercase level name, used for the generated methods (trace(), traceRaw()) and as a mode value */
+    name: N;
+    /** Severity rank compared against the configured mode (must be below LOG's 99) */
+    severity: number;
+    /** Level label color: a color name from the built-in palette (e.g. 'cyan') or an ANSI escape sequence */
+    color?: string;
+    /** Fallback emoji used when no context-specific emoji matches */
+    emoji?: string;
+    /** Console method for console output (defaults to 'log') */
+    consoleMethod?: ConsoleMethod;
+}
+
+/**
+ * Resolved information about a built-in or registered log level
+ */
+export interface LevelInfo {
+    /** Numeric level value carried by log records (built-in LogLevel values, or 100+ for custom levels) */
+    value: LogLevel;
+    /** Lowercase level name (e.g., 'trace') */
+    name: string;
+    /** Uppercase label shown in formatted output (e.g., 'TRACE') */
+    label: string;
+    /** Severity rank compared against the mode threshold */
+    severity: number;
+    /** ANSI color sequence for the level label */
+    color: string;
+    /** Fallback emoji for the level */
+    emoji: string;
+    /** Console method for console output */
+    consoleMethod: ConsoleMethod;
+    /** Whether this is one of the built-in levels */
+    builtIn: boolean;
+}
+
+/**
+ * Log methods generated for a registered custom level
+ * e.g. registering 'trace' adds trace() and traceRaw()
+ */
+export type LevelMethods<N extends string> = {
+    [K in N | `${N}Raw`]: (message: LogMessage, data?: LogData, options?: LogCallOptions) => void;
+};
+
 /**
  * Represents a single log entry with timestamp, level, and message
  * Used internally for structured logging operations
@@ -75,12 +147,149 @@ export interface LogEntry {
     message: string;
 }
 
+/**
+ * Plain-object form of an Error, as written to log outputs
+ * Custom enumerable fields of the error (such as code or statusCode) are kept alongside the standard ones
+ */
+export interface SerializedError {
+    /** Error name, e.g. 'TypeError' */
+    name: string;
+    /** Error message */
+    message: string;
+    /** Stack trace, when available */
+    stack?: string;
+    /** Serialized cause (Error causes are serialized recursively) */
+    cause?: LogData;
+    /** Serialized AggregateError.errors */
+    errors?: LogData[];
+    /** Custom fields */
+    [key: string]: LogData;
+}
+
+/**
+ * Converts instances of a class into a JSON-safe value for log output
+ * Registered with SafeSerializer.register(); the result is serialized further, so it may contain nested objects
+ */
+export type ValueSerializer<T = unknown> = (value: T) => unknown;
+
+/**
+ * Structured log record created once per log call and handed to every output
+ * All outputs see the same timestamp, emoji and redacted data
+ */
+export interface LogRecord {
+    /** When the record was created */
+    timestamp: Date;
+    /** Numeric severity level */
+    level: LogLevel;
+    /** Lowercase level name (e.g., 'info'), as passed to string-based handlers */
+    levelName: string;
+    /** The unformatted log message */
+    message: string;
+    /** Data passed to the log call (redacted unless a raw method was used) */
+    data?: LogData;
+    /** Request context and child logger bindings (redacted unless a raw method was used) */
+    context?: LogContext;
+    /** Emoji selected for this record ('' when emoji is disabled or suppressed) */
+    emoji: string;
+    /** Error passed as the data, or under data.error / data.err; set by raw methods only, since it isn't redacted */
+    error?: Error;
+    /** Namespace of the logger that produced the record (e.g. 'db:pool') */
+    namespace?: string;
+    /** Identifier of the component that produced the record (from LogCallOptions.source) */
+    source?: string;
+    /** High-resolution monotonic milliseconds since process start, taken when the record was created */
+    uptime?: number;
+    /** false when the call opted out of sanitization (LogCallOptions.sanitize) */
+    sanitize?: boolean;
+    /** What payload limits cut from the message, data and context; absent when nothing was cut */
+    truncated?: TruncationInfo;
+}
+
+/**
+ * Report of the parts of a record cut by payload limits
+ */
+export interface TruncationInfo {
+    /** Paths of the values that were cut or replaced, e.g. ['message', 'data.items', 'data.user.bio'] */
+    paths: string[];
+    /** Serialized size in bytes of message, context and data before maxBytes applied (only set when it did) */
+    originalBytes?: number;
+}
+
+/**
+ * Size budgets applied to every record before any output sees it
+ * Oversized parts are cut with markers and reported in record.truncated; all limits are optional
+ */
+export interface PayloadLimits {
+    /** Maximum serialized bytes of message, context and data together */
+    maxBytes?: number;
+    /** Maximum items kept per array, Set, Map or binary value */
+    maxArrayLength?: number;
+    /** Maximum keys kept per object */
+    maxKeys?: number;
+    /** Maximum characters kept per string, including the message */
+    maxStringLength?: number;
+    /** Maximum nesting depth of data and context; deeper objects are replaced with a marker */
+    maxDepth?: number;
+}
+
 /**
  * Output handler function type for custom log output
  * Receives the log level, formatted message, and optional data
  */
 export type LogOutputHandler = (level: string, message: string, data?: LogData) => void;
 
+/**
+ * Record-based output handler
+ * Receives the structured LogRecord instead of a pre-formatted string
+ */
+export type LogRecordHandler = (record: LogRecord) => void;
+
+/**
+ * Serialization format of an output
+ * 'pretty' is the colorized text line, 'json' one JSON object per line and 'logfmt' key=value pairs;
+ * a function turns the record into a custom line
+ */
+export type OutputFormat = 'pretty' | 'json' | 'logfmt' | ((record: LogRecord) => string);
+
+/**
+ * Per-output settings shared by all output target objects
+ * Records are checked against minLevel, mode and filter before the output's rate limit and handler
+ */
+export interface OutputTargetOptions {
+    /** Lowest level written to this output, e.g. LogLevel.ERROR or a registered level name such as 'fatal' */
+    minLevel?: LogLevel | string;
+    /** Mode applied to this output on top of the logger's mode (e.g. LogMode.SILENT to keep only LOG records) */
+    mode?: LogMode | string;
+    /** Predicate deciding whether a record is written to this output */
+    filter?: (record: LogRecord) => boolean;
+    /** Optional rate limit applied to this output only */
+    rateLimit?: RateLimitConfig;
+    /** Line format of console, file and HTTP outputs (default: 'pretty' for console, the handler's formatter for file and HTTP) */
+    format?: OutputFormat;
+}
+
+/**
+ * Output target that receives structured LogRecord objects
+ * The handler formats the record itself, so it has no format option
+ */
+export interface RecordOutputTarget extends Omit<OutputTargetOptions, 'format'> {
+    type: 'record';
+    handler: LogRecordHandler;
+}
+
+/**
+ * Duplicate suppression settings
+ * Repeats of the same fingerprint within a window are collapsed into one summary record
+ */
+export interface RateLimitConfig {
+    /** Window length in milliseconds (default: 10000) */
+    windowMs?: number;
+    /** Records with the same fingerprint passed through per window before repeats are suppressed (default: 1) */
+    maxPerWindow?: number;
+    /** Custom fingerprint for grouping repeats (default: level + message) */
+    fingerprint?: (record: LogRecord) => string;
+}
+
 /**
  * Built-in output handler types
  */
@@ -98,8 +307,8 @@ export interface FileOutputConfig {
     maxFileSize?: number;
     /** Number of backup files to keep during rotation (default: 3) */
     maxBackupFiles?: number;
-    /** Custom format function for file output */
-    formatter?: (level: string, message: string, data?: LogData) => string;
+    /** Custom format function for file output (record is provided when written through the logger) */
+    formatter?: (level: string, message: string, data?: LogData, record?: LogRecord) => string;
 }
 
 /**
@@ -117,7 +326,7 @@ export interface HttpOutputConfig {
     /** Timeout for HTTP requests in ms (default: 5000) */
     timeout?: number;
     /** Custom format function for HTTP payload */
-    formatter?: (logs: Array<{ level: string; message: string; data?: LogData; timestamp: string }>) => LogData;
+    formatter?: (logs: Array<{ level: string; message: string; data?: LogData; timestamp: string; namespace?: string }>) => LogData;
 }
 
 /**
@@ -131,18 +340,20 @@ export interface AdvancedOutputConfig {
 /**
  * Enhanced output target - can be built-in handler, custom function, or configured handler object
  */
-export type EnhancedOutputTarget = BuiltInOutputHandler | LogOutputHandler | {
+export type EnhancedOutputTarget = BuiltInOutputHandler | LogOutputHandler | (OutputTargetOptions & {
+    type: 'console' | 'silent';
+}) | (OutputTargetOptions & {
     type: 'file';
     config: FileOutputConfig;
-} | {
+}) | (OutputTargetOptions & {
     type: 'http';
     config: HttpOutputConfig;
-};
+}) | RecordOutputTarget;
 
 /**
- * Output target - can be a built-in handler string or custom function
+ * Output target - can be a built-in handler string, custom function, or record handler object
  */
-export type OutputTarget = BuiltInOutputHandler | LogOutputHandler;
+export type OutputTarget = BuiltInOutputHandler | LogOutputHandler | RecordOutputTarget;
 
 /**
  * Configuration for log message formatting
@@ -155,8 +366,168 @@ export interface LogFormatConfig {
     includeLocalTime?: boolean;
     /** Whether to include emoji in log output (enabled by default) */
     includeEmoji?: boolean;
+    /** Whether to include the logger namespace in log output (enabled by default) */
+    includeNamespace?: boolean;
     /** Configuration for customizing emoji mappings and fallbacks */
     emoji?: EmojiConfig;
+    /** Line style of the logger's own output: colorized text ('pretty', default) or one JSON object per line ('json') */
+    style?: 'pretty' | 'json';
+    /** Key names and data placement of JSON lines, used by style 'json' and by outputs with format 'json' */
+    json?: JsonFormatConfig;
+    /** Layout of text lines, e.g. '{time:HH:mm:ss.SSS} {level:5} {emoji} {if namespace}{namespace} › {end}{message} {data}'
+     * Replaces the bracketed layout and the include* options for everything but emoji selection */
+    template?: string;
+    /** Custom template tokens keyed by name, e.g. { pid: () => process.pid } */
+    tokens?: Record<string, TemplateTokenProvider>;
+    /** Timestamp format, timezone and locale, applied to text, JSON and logfmt lines and to file and HTTP outputs */
+    timestamp?: TimestampConfig;
+    /** When text lines keep their ANSI colors (default: 'auto') */
+    colors?: ColorMode;
+    /** Colors of text lines: a built-in theme name or a custom theme (default: 'default') */
+    theme?: ThemeName | ColorTheme;
+    /** Render data as indented, syntax-highlighted text for development instead of a single JSON line (default: false) */
+    prettyData?: boolean | PrettyDataConfig;
+    /** Neutralize newlines, control characters and ANSI codes in messages and data of text lines (default: true, everything escaped) */
+    sanitize?: boolean | SanitizeConfig;
+}
+
+/**
+ * How a kind of character is handled by sanitization
+ * - 'escape': written as a visible escape such as \n or \x1b
+ * - 'strip': removed (line breaks become spaces)
+ * - 'keep': written verbatim
+ */
+export type SanitizeAction = 'escape' | 'strip' | 'keep';
+
+/**
+ * Log injection protection for text lines
+ * Applies to messages, data, template tokens and the default file format; JSON and logfmt lines escape on their own
+ */
+export interface SanitizeConfig {
+    /** Line breaks (\r, \n, U+2028, U+2029), which could forge extra log lines (default: 'escape') */
+    newlines?: SanitizeAction;
+    /** ANSI escape sequences, which could recolor, hide or rewrite terminal output (default: 'escape') */
+    ansi?: SanitizeAction;
+    /** Other control characters such as backspace, bell, a lone ESC or C1 controls; tabs are kept (default: 'escape') */
+    controlChars?: SanitizeAction;
+}
+
+/**
+ * Limits and layout of pretty data rendering
+ */
+export interface PrettyDataConfig {
+    /** Nesting depth shown before objects collapse to [Object] (default: 4) */
+    depth?: number;
+    /** Items shown of arrays, Maps, Sets and Buffers before '... n more items' (default: 20) */
+    maxArrayLength?: number;
+    /** Characters shown of strings before '... n more characters' (default: 200) */
+    maxStringLength?: number;
+    /** Spaces per nesting level (default: 2) */
+    indent?: number;
+    /** Width up to which objects and arrays stay on one line (default: 80) */
+    breakLength?: number;
+}
+
+/**
+ * Built-in color themes
+ * - 'default': the classic scheme (magenta debug, blue info, yellow warn, red error, green log)
+ * - 'solarized': Solarized accent colors
+ * - 'high-contrast': bold colors that don't rely on telling red from green
+ * - 'monochrome': bold, dim and inverse text only
+ */
+export type ThemeName = 'default' | 'solarized' | 'high-contrast' | 'monochrome';
+
+/**
+ * Custom color theme
+ * Each color is a name from the colors table ('red', 'gray', ...), a style ('bold', 'dim', 'italic', 'underline', 'inverse'),
+ * a hex color ('#268bd2'), several of these separated by spaces ('bold #dc322f'), or 'none'.
+ * Unset colors come from the base theme
+ */
+export interface ColorTheme {
+    /** Built-in theme providing the colors this theme doesn't set (default: 'default') */
+    extends?: ThemeName;
+    /** ISO timestamp */
+    timestamp?: string;
+    /** Local time */
+    timeString?: string;
+    /** [LOG ENGINE] prefix and message of system messages */
+    system?: string;
+    /** Logger namespace */
+    namespace?: string;
+    /** Data appended to the line */
+    data?: string;
+    /** Object keys in the data */
+    key?: string;
+    /** String values in the data */
+    string?: string;
+    /** Number values in the data */
+    number?: string;
+    /** Boolean and null values in the data */
+    boolean?: string;
+    /** Level label colors keyed by level name, e.g. { error: 'bold red', trace: 'gray' }; custom levels default to their registered color */
+    levels?: Record<string, string>;
+}
+
+/**
+ * Color mode of text lines
+ * - 'auto': colors on terminals only, honoring NO_COLOR, FORCE_COLOR and the terminal's color depth
+ * - 'always': colors everywhere, including pipes, files and custom handlers
+ * - 'never': no ANSI escape codes at all
+ */
+export type ColorMode = 'auto' | 'always' | 'never';
+
+/**
+ * Timestamp settings
+ */
+export interface TimestampConfig {
+    /** 'iso' (UTC ISO 8601, default), 'rfc3339' (with the timezone's offset), 'epoch' (milliseconds),
+     * 'uptime' (high-resolution monotonic milliseconds since process start) or a pattern such as 'YYYY-MM-DD HH:mm:ss.SSS' */
+    format?: 'iso' | 'rfc3339' | 'epoch' | 'uptime' | (string & {});
+    /** IANA timezone for rfc3339, patterns and the local time, e.g. 'Europe/Berlin' (default: the system timezone) */
+    timeZone?: string;
+    /** Locale of the local time, e.g. 'de-DE' (default: 'en-US') */
+    locale?: string;
+    /** Whether the local time uses a 12-hour clock (default: true for the default locale, the locale's convention otherwise) */
+    hour12?: boolean;
+}
+
+/**
+ * Value provider for a custom template token
+ * null, undefined and '' render as empty, which also makes {if token} sections skip
+ */
+export type TemplateTokenProvider = (record: LogRecord) => unknown;
+
+/**
+ * Key names of the standard fields in JSON lines
+ */
+export interface JsonFormatKeys {
+    /** Record timestamp (default: 'timestamp') */
+    timestamp?: string;
+    /** Level name (default: 'level') */
+    level?: string;
+    /** Log message (default: 'message') */
+    message?: string;
+    /** Logger namespace (default: 'namespace') */
+    namespace?: string;
+    /** Call source (default: 'source') */
+    source?: string;
+    /** Request context and child bindings (default: 'context') */
+    context?: string;
+    /** Call data (default: 'data') */
+    data?: string;
+    /** Payload limit report, written only when something was cut (default: 'truncated') */
+    truncated?: string;
+}
+
+/**
+ * JSON line configuration
+ */
+export interface JsonFormatConfig {
+    /** Key names of the standard fields, e.g. { timestamp: 'time', message: 'msg' } */
+    keys?: JsonFormatKeys;
+    /** Write context and data fields at the top level instead of under their keys (default: false)
+     * Fields named like a standard key stay under the data key so they can't overwrite it */
+    flattenData?: boolean;
 }
 
 /**
@@ -180,8 +551,8 @@ export interface EmojiMapping {
 export interface EmojiConfig {
     /** Custom emoji mappings to use instead of or in addition to defaults */
     customMappings?: EmojiMapping[];
-    /** Custom fallback emoji for each level (DEBUG, INFO, WARN, ERROR, LOG) */
-    customFallbacks?: Partial<Record<'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'LOG', string>>;
+    /** Custom fallback emoji for each level (DEBUG, INFO, WARN, ERROR, LOG, or a custom level label such as TRACE) */
+    customFallbacks?: Partial<Record<'DEBUG' | 'INFO' | 'WARN' | 'ERROR' | 'LOG', string>> & { [label: string]: string | undefined };
     /** Whether to use custom mappings exclusively (ignore defaults) */
     useCustomOnly?: boolean;
 }
@@ -191,8 +562,9 @@ export interface EmojiConfig {
  * Supports both legacy level-based and new mode-based configuration
  */
 export interface LoggerConfig {
-    /** Log mode controlling output behavior (new API) */
-    mode?: LogMode;
+    /** Log mode controlling output behavior (new API)
+     * A level name (e.g. 'trace') shows that level and everything more severe */
+    mode?: LogMode | string;
     /** Legacy: Minimum log level to display (backwards compatibility)
      * Note: If both mode and level are provided, mode takes precedence */
     level?: LogLevel;
@@ -210,6 +582,132 @@ export interface LoggerConfig {
     advancedOutputConfig?: AdvancedOutputConfig;
     /** Format configuration for customizing log element inclusion */
     format?: LogFormatConfig;
+    /** Per-namespace modes keyed by pattern, e.g. { 'db:*': LogMode.DEBUG, '*': LogMode.WARN }
+     * The most specific matching pattern wins; entries from LOG_NAMESPACES take precedence */
+    namespaceModes?: NamespaceModes;
+    /** Per-level sampling applied after mode filtering, e.g. { info: { rate: 0.1, key: 'requestId' }, error: 1 } */
+    sampling?: SamplingConfig;
+    /** Collapse repeated records across all outputs; outputs can also set their own rateLimit */
+    rateLimit?: RateLimitConfig;
+    /** Flush outputs on 'beforeExit' and close them on SIGTERM (opt-in) */
+    flushOnExit?: boolean | FlushOnExitOptions;
+    /** Rule-based routing of records to named outputs (takes priority over outputs and enhancedOutputs) */
+    routing?: RoutingConfig;
+    /** Size budgets for message, data and context, applied after redaction and before any output */
+    limits?: PayloadLimits;
+}
+
+/**
+ * Matcher for a single data or context value
+ * Primitives match by strict equality, regular expressions test string values, and functions decide freely
+ */
+export type RouteValueMatcher = string | number | boolean | null | RegExp | ((value: unknown) => boolean);
+
+/**
+ * Conditions of a routing rule; every condition given must match
+ */
+export interface RouteMatch {
+    /** Exact level(s), as LogLevel values or level names */
+    level?: LogLevel | string | Array<LogLevel | string>;
+    /** Lowest level matched, as a LogLevel value or level name */
+    minLevel?: LogLevel | string;
+    /** Namespace pattern(s), e.g. 'payments*' ('*' is a wildcard; loggers without a namespace only match '*') */
+    namespace?: string | string[];
+    /** Regular expression tested against the message */
+    message?: RegExp;
+    /** Matchers keyed by dot-separated path into the record's (redacted) data, e.g. { 'audit': true, 'user.role': 'admin' } */
+    data?: Record<string, RouteValueMatcher>;
+    /** Context keys that must be present, or matchers keyed by context key */
+    context?: string[] | Record<string, RouteValueMatcher>;
+}
+
+/**
+ * Routing rule mapping match conditions to named outputs
+ */
+export interface RouteRule {
+    /** Conditions the record must meet (an empty match catches every record) */
+    match: RouteMatch;
+    /** Names of the routing outputs receiving matching records */
+    outputs: string[];
+    /** Keep evaluating later rules after this one matched (default: false, routing stops here) */
+    continue?: boolean;
+}
+
+/**
+ * Routing table for records
+ */
+export interface RoutingConfig {
+    /** Outputs available to the rules, keyed by name */
+    outputs: Record<string, EnhancedOutputTarget>;
+    /** Rules evaluated in order */
+    rules: RouteRule[];
+    /** Outputs for records that match no rule (unmatched records are dropped when omitted) */
+    default?: string[];
+}
+
+/**
+ * Options for flushing outputs automatically when the process exits
+ */
+export interface FlushOnExitOptions {
+    /** Maximum time to wait for outputs to drain on SIGTERM (default: 5000) */
+    timeoutMs?: number;
+}
+
+/**
+ * Sampling rule for one level
+ */
+export interface SamplingRule {
+    /** Fraction of records to keep, from 0 (none) to 1 (all) */
+    rate: number;
+    /** Context or data field whose value decides deterministically (e.g. 'requestId'), so related records are kept together */
+    key?: string;
+}
+
+/**
+ * Sampling rules keyed by level name (e.g. 'info', 'trace')
+ * A number is shorthand for { rate }; levels without a rule are always kept
+ */
+export type SamplingConfig = Record<string, number | SamplingRule>;
+
+/**
+ * Counts of records kept and dropped by sampling
+ */
+export interface SamplingStats {
+    /** Records kept across all sampled levels */
+    kept: number;
+    /** Records sampled out across all sampled levels */
+    dropped: number;
+    /** Counts per level name */
+    byLevel: Record<string, { kept: number; dropped: number }>;
+}
+
+/**
+ * Map of namespace patterns to modes
+ * Patterns use '*' as a wildcard; '*' alone also matches loggers without a namespace
+ */
+export type NamespaceModes = Record<string, LogMode | string>;
+
+/**
+ * Fields bound to a child logger
+ * Merged into the data of every log call made through that child
+ */
+export type LogBindings = Record<string, LogData>;
+
+/**
+ * Request-scoped context propagated with LogEngine.runWithContext()
+ * Merged into every log record made while the context is active
+ */
+export type LogContext = Record<string, LogData>;
+
+/**
+ * Per-child configuration overrides
+ * Anything not overridden is inherited from the parent logger's configuration
+ */
+export interface ChildLoggerOptions {
+    /** Log mode or level name for this child (defaults to the parent's mode) */
+    mode?: LogMode | string;
+    /** Format overrides merged on top of the parent's format configuration */
+    format?: LogFormatConfig;
 }
 
 /**
@@ -233,6 +731,34 @@ export interface RedactionConfig {
     deepRedaction: boolean;
     /** Optional custom regex patterns for advanced field detection */
     customPatterns?: RegExp[];
+    /**
+     * Detectors that find sensitive values inside strings and replace only the matched spans
+     * Built-in detectors are on by default except phone, ipv4 and ipv6, which need true. Set one to false to turn it off,
+     * to a ValueDetector to replace it, or add detectors under new names. false turns value detection off entirely.
+     * @example { ipv4: true, iban: false, orderRef: { pattern: /\bORD-\d{8}\b/ } }
+     */
+    detectors?: false | Record<string, boolean | ValueDetector>;
+}
+
+/**
+ * Names of the built-in value detectors
+ */
+export type BuiltInDetector =
+    | 'privateKey' | 'jwt' | 'bearerToken' | 'awsKey' | 'gcpKey' | 'githubToken' | 'stripeKey'
+    | 'email' | 'iban' | 'creditCard' | 'phone' | 'ipv6' | 'ipv4';
+
+/**
+ * Finds sensitive values inside strings
+ */
+export interface ValueDetector {
+    /** Pattern matching candidate spans (made global when it isn't) */
+    pattern: RegExp;
+    /** Optional check of each match, such as a checksum; matches it rejects are kept */
+    validate?: (match: string) => boolean;
+    /** Text replacing each match (defaults to redactionText) */
+    replacement?: string;
+    /** Text every match contains; strings without it skip the pattern, which keeps long texts fast */
+    includes?: string;
 }
 
 /**
@@ -246,27 +772,27 @@ export interface ILogEngine {
 
     // Standard logging methods with automatic redaction
     /** Log a debug message with automatic data redaction */
-    debug(message: string, data?: LogData, options?: LogCallOptions): void;
+    debug(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log an info message with automatic data redaction */
-    info(message: string, data?: LogData, options?: LogCallOptions): void;
+    info(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log a warn message with automatic data redaction */
-    warn(message: string, data?: LogData, options?: LogCallOptions): void;
+    warn(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log an error message with automatic data redaction */
-    error(message: string, data?: LogData, options?: LogCallOptions): void;
+    error(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log a message with automatic data redaction */
-    log(message: string, data?: LogData, options?: LogCallOptions): void;
+    log(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
 
     // Raw logging methods (bypass redaction)
     /** Log a debug message without redaction */
-    debugRaw(message: string, data?: LogData, options?: LogCallOptions): void;
+    debugRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log an info message without redaction */
-    infoRaw(message: string, data?: LogData, options?: LogCallOptions): void;
+    infoRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log a warn message without redaction */
-    warnRaw(message: string, data?: LogData, options?: LogCallOptions): void;
+    warnRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log an error message without redaction */
-    errorRaw(message: string, data?: LogData, options?: LogCallOptions): void;
+    errorRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log a message without redaction */
-    logRaw(message: string, data?: LogData, options?: LogCallOptions): void;
+    logRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
 
     // Redaction configuration methods
     /** Configure redaction settings */
@@ -291,6 +817,80 @@ export interface ILogEngine {
     // Utility methods
     /** Temporarily disable redaction for a specific logging call */
     withoutRedaction(): ILogEngineWithoutRedaction;
+    /** Create a child logger with bound context fields */
+    child(bindings: LogBindings, options?: ChildLoggerOptions): ILogEngineChild;
+    /** Create a named logger whose mode can be set through namespaceModes or LOG_NAMESPACES */
+    namespace(name: string): ILogEngineChild;
+
+    // Async context methods
+    /** Run a function with request context merged into every log call made inside it */
+    runWithContext<T>(context: LogContext, fn: () => T): T;
+    /** Get the request context active for the current async execution */
+    getContext(): LogContext | undefined;
+
+    // Custom level methods
+    /** Register a custom log level and add its generated methods to this logger */
+    registerLevel<N extends string>(definition: LevelDefinition<N>): this & LevelMethods<N>;
+    /** Log a message at a level given by value or name, with automatic data redaction */
+    logAt(level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log a message at a level given by value or name, without redaction */
+    logAtRaw(level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Check whether messages at a level would currently be logged */
+    isLevelEnabled(level: LogLevel | string): boolean;
+
+    // Sampling diagnostics
+    /** Get counts of records kept and sampled out */
+    getSamplingStats(): SamplingStats;
+    /** Reset sampling counts to zero */
+    resetSamplingStats(): void;
+
+    // Shutdown
+    /** Drain every output's buffers and queues; resolves false if timeoutMs elapses first */
+    flush(timeoutMs?: number): Promise<boolean>;
+    /** Flush, then release every output handler; resolves false if timeoutMs elapses first */
+    close(timeoutMs?: number): Promise<boolean>;
+}
+
+/**
+ * Interface for child loggers created by LogEngine.child()
+ * Bound fields are merged into the data of every call before redaction
+ */
+export interface ILogEngineChild {
+    /** Log a debug message with automatic data redaction */
+    debug(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log an info message with automatic data redaction */
+    info(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log a warn message with automatic data redaction */
+    warn(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log an error message with automatic data redaction */
+    error(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log a message with automatic data redaction */
+    log(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+
+    /** Log a debug message without redaction */
+    debugRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log an info message without redaction */
+    infoRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log a warn message without redaction */
+    warnRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log an error message without redaction */
+    errorRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log a message without redaction */
+    logRaw(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+
+    /** Temporarily disable redaction for a specific logging call */
+    withoutRedaction(): ILogEngineWithoutRedaction;
+    /** Create a nested child logger; bindings are merged with this child's bindings */
+    child(bindings: LogBindings, options?: ChildLoggerOptions): ILogEngineChild;
+    /** Create a nested named logger; the name is appended to this logger's namespace (e.g. 'db' + 'pool' = 'db:pool') */
+    namespace(name: string): ILogEngineChild;
+
+    /** Log a message at a level given by value or name, with automatic data redaction */
+    logAt(level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Log a message at a level given by value or name, without redaction */
+    logAtRaw(level: LogLevel | string, message: LogMessage, data?: LogData, options?: LogCallOptions): void;
+    /** Check whether messages at a level would currently be logged */
+    isLevelEnabled(level: LogLevel | string): boolean;
 }
 
 /**
@@ -299,15 +899,15 @@ export interface ILogEngine {
  */
 export interface ILogEngineWithoutRedaction {
     /** Log a debug message without redaction */
-    debug(message: string, data?: LogData, options?: LogCallOptions): void;
+    debug(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log an info message without redaction */
-    info(message: string, data?: LogData, options?: LogCallOptions): void;
+    info(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log a warn message without redaction */
-    warn(message: string, data?: LogData, options?: LogCallOptions): void;
+    warn(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log an error message without redaction */
-    error(message: string, data?: LogData, options?: LogCallOptions): void;
+    error(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
     /** Log a message without redaction */
-    log(message: string, data?: LogData, options?: LogCallOptions): void;
+    log(message: LogMessage, data?: LogData, options?: LogCallOptions): void;
 }
 
 /**
@@ -331,6 +931,8 @@ export interface IDataRedactor {
     testFieldRedaction(fieldName: string): boolean;
     /** Redact sensitive data from any value */
     redactData(data: LogData): LogData;
+    /** Replace the sensitive values value detectors find in a string */
+    redactText(text: string): string;
 }
 
 /**